@@ -27,4 +27,19 @@ export interface IRequestorResult {
    * The generated request for the provider
    */
   request?: string;
+
+  /**
+   * The opaque identifier of the stored request, when the request is passed by reference
+   */
+  requestId?: string;
+
+  /**
+   * The url where the wallet fetches the stored request
+   */
+  requestUri?: string;
+
+  /**
+   * The deep link invoking the wallet with the request uri
+   */
+  deepLink?: string;
 }
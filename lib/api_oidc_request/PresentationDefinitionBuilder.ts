@@ -0,0 +1,322 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { PresentationDefinitionModel, PresentationExchangeConstraintsModel, PresentationExchangeFieldModel, PresentationExchangeInputDescriptorModel, PresentationExchangeIssuanceModel, PresentationExchangeSubmissionRequirementModel } from '../index';
+import { v4 as uuid } from 'uuid';
+const jp = require('jsonpath');
+
+/**
+ * Type to model a submission requirement passed to the builder
+ */
+export type SubmissionRequirement = Pick<PresentationExchangeSubmissionRequirementModel, 'rule' | 'from' | 'count' | 'min' | 'max' | 'name' | 'purpose'> & { from_nested?: SubmissionRequirement[] };
+
+/**
+ * Class to build an input descriptor of a presentation definition
+ */
+export class InputDescriptorBuilder {
+  private _id: string;
+  private _name: string | undefined;
+  private _purpose: string | undefined;
+  private _issuers: string[] | undefined;
+  private _fields: PresentationExchangeFieldModel[] = [];
+  private _groups: string[] = [];
+  private _manifests: string[] = [];
+  private _limitDisclosure: 'required' | 'preferred' | undefined;
+
+  /**
+   * Create a new instance of InputDescriptorBuilder
+   * @param definition The builder of the presentation definition
+   * @param credentialType The type of the requested verifiable credential
+   */
+  constructor(private definition: PresentationDefinitionBuilder, public credentialType: string) {
+    this._id = credentialType;
+  }
+
+  /**
+   * Specify the id of the input descriptor, the credential type by default
+   * @param id The id of the input descriptor
+   * @returns The input descriptor builder
+   */
+  public useId(id: string): InputDescriptorBuilder {
+    this._id = id;
+    return this;
+  }
+
+  /**
+   * Gets the id of the input descriptor
+   */
+  public get id(): string {
+    return this._id;
+  }
+
+  /**
+   * Specify the trusted issuers of the verifiable credential
+   * @param issuers The DIDs of the trusted issuers
+   * @returns The input descriptor builder
+   */
+  public fromIssuers(issuers: string[]): InputDescriptorBuilder {
+    this._issuers = issuers;
+    return this;
+  }
+
+  /**
+   * Request a field of the verifiable credential
+   * @param path The JSONPath expressions of the field, the first one returning a value is used
+   * @param filter The JSON Schema the value must satisfy
+   * @param optional True if the field may be missing
+   * @returns The input descriptor builder
+   */
+  public withField(path: string | string[], filter?: any, optional?: boolean): InputDescriptorBuilder {
+    this._fields.push(new PresentationExchangeFieldModel(Array.isArray(path) ? path : [path], filter, undefined, undefined, optional));
+    return this;
+  }
+
+  /**
+   * Specify the name of the input descriptor
+   * @param name The human-friendly name
+   * @returns The input descriptor builder
+   */
+  public name(name: string): InputDescriptorBuilder {
+    this._name = name;
+    return this;
+  }
+
+  /**
+   * Specify the purpose for which the verifiable credential is requested
+   * @param purpose The purpose
+   * @returns The input descriptor builder
+   */
+  public purpose(purpose: string): InputDescriptorBuilder {
+    this._purpose = purpose;
+    return this;
+  }
+
+  /**
+   * Add the input descriptor to a group of the submission requirements
+   * @param group The name of the group
+   * @returns The input descriptor builder
+   */
+  public group(group: string): InputDescriptorBuilder {
+    this._groups.push(group);
+    return this;
+  }
+
+  /**
+   * Specify the contract where the verifiable credential can be issued
+   * @param manifest The url of the contract
+   * @returns The input descriptor builder
+   */
+  public issuedBy(manifest: string): InputDescriptorBuilder {
+    this._manifests.push(manifest);
+    return this;
+  }
+
+  /**
+   * Require that the verifiable credential only discloses the requested fields
+   * @param limitDisclosure required or preferred
+   * @returns The input descriptor builder
+   */
+  public limitDisclosure(limitDisclosure: 'required' | 'preferred' = 'required'): InputDescriptorBuilder {
+    this._limitDisclosure = limitDisclosure;
+    return this;
+  }
+
+  /**
+   * Request another verifiable credential
+   * @param credentialType The type of the verifiable credential
+   * @returns The builder of the new input descriptor
+   */
+  public requireCredential(credentialType: string): InputDescriptorBuilder {
+    return this.definition.requireCredential(credentialType);
+  }
+
+  /**
+   * Add a submission requirement to the presentation definition
+   * @param requirement The submission requirement
+   * @returns The presentation definition builder
+   */
+  public submissionRequirement(requirement: SubmissionRequirement): PresentationDefinitionBuilder {
+    return this.definition.submissionRequirement(requirement);
+  }
+
+  /**
+   * Build the presentation definition
+   */
+  public build(): PresentationDefinitionModel {
+    return this.definition.build();
+  }
+
+  /**
+   * Build the input descriptor.
+   * The credential type and the trusted issuers are requested as fields, so the validator can derive its expectations from them.
+   */
+  public buildInputDescriptor(): PresentationExchangeInputDescriptorModel {
+    const fields = [new PresentationExchangeFieldModel(['$.vc.type', '$.type'], { type: 'array', contains: { const: this.credentialType } })];
+    if (this._issuers) {
+      fields.push(new PresentationExchangeFieldModel(['$.iss', '$.vc.issuer', '$.issuer', '$.issuer.id'], { type: 'string', enum: [...this._issuers] }));
+    }
+
+    fields.push(...this._fields);
+    return new PresentationExchangeInputDescriptorModel(
+      this._id,
+      undefined,
+      this._manifests.length > 0 ? this._manifests.map((manifest) => new PresentationExchangeIssuanceModel(manifest)) : undefined,
+      new PresentationExchangeConstraintsModel(fields, this._limitDisclosure),
+      this._groups.length > 0 ? [...this._groups] : undefined,
+      this._name,
+      this._purpose);
+  }
+}
+
+/**
+ * Class to build a Presentation Exchange presentation definition
+ */
+export default class PresentationDefinitionBuilder {
+  private _descriptors: InputDescriptorBuilder[] = [];
+  private _requirements: SubmissionRequirement[] = [];
+  private _name: string | undefined;
+  private _purpose: string | undefined;
+
+  /**
+   * Create a new instance of PresentationDefinitionBuilder
+   * @param id The id of the presentation definition, a new uuid by default
+   */
+  constructor(public id: string = uuid()) {
+  }
+
+  /**
+   * Specify the name of the presentation definition
+   * @param name The human-friendly name
+   * @returns The presentation definition builder
+   */
+  public name(name: string): PresentationDefinitionBuilder {
+    this._name = name;
+    return this;
+  }
+
+  /**
+   * Specify the purpose of the presentation definition
+   * @param purpose The purpose
+   * @returns The presentation definition builder
+   */
+  public purpose(purpose: string): PresentationDefinitionBuilder {
+    this._purpose = purpose;
+    return this;
+  }
+
+  /**
+   * Request a verifiable credential
+   * @param credentialType The type of the verifiable credential
+   * @returns The builder of the input descriptor
+   */
+  public requireCredential(credentialType: string): InputDescriptorBuilder {
+    const descriptor = new InputDescriptorBuilder(this, credentialType);
+    this._descriptors.push(descriptor);
+    return descriptor;
+  }
+
+  /**
+   * Add a submission requirement. Without submission requirements every verifiable credential is required.
+   * @param requirement The submission requirement
+   * @returns The presentation definition builder
+   */
+  public submissionRequirement(requirement: SubmissionRequirement): PresentationDefinitionBuilder {
+    this._requirements.push(requirement);
+    return this;
+  }
+
+  /**
+   * Build and validate the presentation definition
+   * @throws Error when the presentation definition is invalid
+   */
+  public build(): PresentationDefinitionModel {
+    const descriptors = this._descriptors.map((descriptor) => descriptor.buildInputDescriptor());
+    const definition = new PresentationDefinitionModel(
+      descriptors,
+      this._name,
+      this._purpose,
+      this.id,
+      this._requirements.length > 0 ? this._requirements.map((requirement) => new PresentationExchangeSubmissionRequirementModel().populateFrom(<PresentationExchangeSubmissionRequirementModel>requirement)) : undefined);
+    PresentationDefinitionBuilder.validate(definition);
+    return definition;
+  }
+
+  /**
+   * Validate a presentation definition
+   * @param definition The presentation definition
+   * @throws Error when the presentation definition is invalid
+   */
+  public static validate(definition: PresentationDefinitionModel): void {
+    if (!definition.id) {
+      throw new Error('The presentation definition is missing an id.');
+    }
+
+    const descriptors = definition.input_descriptors || [];
+    if (descriptors.length === 0) {
+      throw new Error('The presentation definition requires at least one input descriptor.');
+    }
+
+    const ids: string[] = [];
+    const groups: string[] = [];
+    for (const descriptor of descriptors) {
+      if (!descriptor.id || ids.includes(descriptor.id)) {
+        throw new Error(`The input descriptor id '${descriptor.id}' is missing or not unique.`);
+      }
+
+      ids.push(descriptor.id);
+      groups.push(...(descriptor.group || []));
+      for (const field of descriptor.constraints?.fields || []) {
+        if (!field.path || field.path.length === 0) {
+          throw new Error(`A field of input descriptor '${descriptor.id}' is missing a path.`);
+        }
+
+        for (const path of field.path) {
+          try {
+            jp.parse(path);
+          } catch {
+            throw new Error(`The path '${path}' of input descriptor '${descriptor.id}' is not a valid JSONPath expression.`);
+          }
+        }
+
+        if (field.filter?.enum && field.filter.enum.length === 0) {
+          throw new Error(`A field of input descriptor '${descriptor.id}' has an empty enum filter.`);
+        }
+      }
+    }
+
+    (definition.submission_requirements || []).forEach((requirement) => PresentationDefinitionBuilder.validateRequirement(requirement, groups));
+  }
+
+  /**
+   * Validate a submission requirement
+   * @param requirement The submission requirement
+   * @param groups The groups of the input descriptors
+   */
+  private static validateRequirement(requirement: PresentationExchangeSubmissionRequirementModel, groups: string[]): void {
+    const name = requirement.name || requirement.from || 'nested';
+    if (requirement.rule !== 'all' && requirement.rule !== 'pick') {
+      throw new Error(`The submission requirement '${name}' has an invalid rule '${requirement.rule}'.`);
+    }
+
+    if (!!requirement.from === !!requirement.from_nested) {
+      throw new Error(`The submission requirement '${name}' must have either from or from_nested.`);
+    }
+
+    if (requirement.from && !groups.includes(requirement.from)) {
+      throw new Error(`The submission requirement '${name}' refers to the group '${requirement.from}' which has no input descriptors.`);
+    }
+
+    for (const bound of [requirement.count, requirement.min, requirement.max]) {
+      if (bound !== undefined && (!Number.isInteger(bound) || bound < 0)) {
+        throw new Error(`The submission requirement '${name}' has an invalid count, min or max.`);
+      }
+    }
+
+    if (requirement.min !== undefined && requirement.max !== undefined && requirement.min > requirement.max) {
+      throw new Error(`The submission requirement '${name}' has a min larger than its max.`);
+    }
+
+    (requirement.from_nested || []).forEach((nested) => PresentationDefinitionBuilder.validateRequirement(nested, groups));
+  }
+}
@@ -3,10 +3,12 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { RequestorBuilder, IRequestorAttestation, IRequestorPresentationExchange, IssuerMap, IssuanceAttestationsModel, IdTokenAttestationModel, VerifiablePresentationAttestationModel } from '../index';
+import { RequestorBuilder, IRequestorAttestation, IRequestorPresentationExchange, IssuerMap, IssuanceAttestationsModel, IdTokenAttestationModel, VerifiablePresentationAttestationModel, PresentationExchangeInputDescriptorModel } from '../index';
 import { PresentationProtocol } from './RequestorBuilder';
 import { IRequestorResult } from './IRequestorResult';
 import { JoseBuilder } from 'verifiablecredentials-crypto-sdk-typescript';
+import SystemClock from '../options/SystemClock';
+import { v4 as uuid } from 'uuid';
 
 /**
  * Class to model the OIDC requestor
@@ -14,6 +16,16 @@ import { JoseBuilder } from 'verifiablecredentials-crypto-sdk-typescript';
 export default class Requestor {
   private _payload: any = {};
 
+  /**
+   * The JSONPath expressions of the issuer in JWT and JSON-LD verifiable credentials
+   */
+  private static readonly ISSUER_PATHS = ['$.iss', '$.issuer', '$.issuer.id', '$.vc.issuer'];
+
+  /**
+   * The JSONPath expressions of the type in JWT and JSON-LD verifiable credentials
+   */
+  private static readonly TYPE_PATHS = ['$.type', '$.vc.type'];
+
 
   /**
    * Create instance of <see @class Requestor>
@@ -43,23 +55,38 @@ export default class Requestor {
   public async create(state?: string, nonce?: string): Promise<IRequestorResult> {
     const crypto = this.builder.crypto.builder;
     this._payload = {
-      response_type: 'id_token',
-      response_mode: 'form_post',
+      response_type: this.builder.responseTypes.join(' '),
+      response_mode: this.builder.responseMode,
       client_id: this.builder.redirectUri,
       redirect_uri: this.builder.redirectUri,
-      scope: 'openid did_authn',
+      scope: this.builder.scope,
       state: state || this.builder.state,
       nonce: nonce || this.builder.nonce,
       iss: crypto.did,
       registration: {
         client_name: this.builder.clientName,
         client_purpose: this.builder.clientPurpose,
-        tos_uri: this.builder.tosUri
+        tos_uri: this.builder.tosUri,
+        ...this.builder.registration
       }
     };
 
+    // The wallet posts the response to the response_uri
+    if (this.builder.responseMode === 'direct_post') {
+      this._payload.response_uri = this._payload.redirect_uri;
+      delete this._payload.redirect_uri;
+    }
+
+    if (this.builder.clientIdScheme) {
+      this._payload.client_id_scheme = this.builder.clientIdScheme;
+    }
+
+    if (this.builder.claims) {
+      this._payload.claims = this.builder.claims;
+    }
+
     // Add optional fields
-    const current = Math.trunc(Date.now() / 1000);
+    const current = Math.trunc((this.builder.clock || new SystemClock()).now() / 1000);
     const iat = current;
     let expiry = iat + this.builder.OidcRequestExpiry;
     this._payload.iat = iat;
@@ -86,15 +113,81 @@ export default class Requestor {
       .sign(this._payload);
       
     const token = await signature.serialize();
-    const response = {
+    this.builder.logger.info('Created the presentation request', { clientId: this._payload.client_id, iat: this._payload.iat, exp: this._payload.exp });
+    const response: IRequestorResult = {
       result: true,
       status: 200,
       request: token
     };
 
+    // Pass the request by reference
+    const store = this.builder.requestStore;
+    if (store) {
+      const requestId = uuid();
+      const requestUri = `${this.builder.requestUri!.replace(/\/+$/, '')}/${encodeURIComponent(requestId)}`;
+      try {
+        await store.set(requestId, token, expiry);
+      } catch (error) {
+        this.builder.logger.error('Failing to store the presentation request', { requestId, error });
+        return {
+          result: false,
+          status: 503,
+          detailedError: 'The presentation request could not be stored.'
+        };
+      }
+
+      response.requestId = requestId;
+      response.requestUri = requestUri;
+      response.deepLink = Requestor.createDeepLink(this._payload.client_id, requestUri);
+      this.builder.logger.info('Stored the presentation request', { requestId });
+    }
+
     return response;
   }
 
+  /**
+   * Serve a stored request to the wallet fetching the request uri.
+   * The request is removed from the store so it can only be served once.
+   * A successful result should be returned with content type application/jwt.
+   * @param requestId The opaque identifier of the stored request
+   */
+  public async serve(requestId: string): Promise<IRequestorResult> {
+    const store = this.builder.requestStore;
+    if (!store) {
+      return {
+        result: false,
+        status: 500,
+        detailedError: 'No request store is configured for the requestor.'
+      };
+    }
+
+    const request = await store.take(requestId);
+    if (!request) {
+      this.builder.logger.warning('The requested presentation request is unknown, expired or already served', { requestId });
+      return {
+        result: false,
+        status: 404,
+        detailedError: `The request '${requestId}' is unknown, expired or already served.`
+      };
+    }
+
+    return {
+      result: true,
+      status: 200,
+      request,
+      requestId
+    };
+  }
+
+  /**
+   * Create the deep link invoking the wallet with a request passed by reference
+   * @param clientId The client id of the requestor
+   * @param requestUri The url where the wallet fetches the request
+   */
+  public static createDeepLink(clientId: string, requestUri: string): string {
+    return `openid://?client_id=${encodeURIComponent(clientId)}&request_uri=${encodeURIComponent(requestUri)}`;
+  }
+
   /**
    * Create the presentation exchange request
    */
@@ -139,26 +232,31 @@ export default class Requestor {
   }
 
   /**
-   * Get the trusted issuer's configuration urls from the requestor
+   * Get the trusted issuers per credential type from the requestor.
+   * For presentation exchange the credential types and issuers are derived from the input descriptors.
    */
   public trustedIssuersForVerifiableCredentials(): { [credentialType: string]: string[] } | undefined {
     const issuers: { [credentialType: string]: string[] } = {};
 
     if (this.isPresentationExchange()) {
-      /*
       const presentationDefinition = (<IRequestorPresentationExchange>this.builder.requestor).presentationDefinition;
-      if (!presentationDefinition.input_descriptors) {
+      if (!presentationDefinition?.input_descriptors) {
         return { undefined: [] };
       }
-      const issuers: { [credentialType: string]: string[] } = {};
-      for (let definition in presentationDefinition.input_descriptors) {
-        if (!presentationDefinition.input_descriptors[definition]) {
-          throw new Error('Missing id in input_descriptor');
+
+      presentationDefinition.input_descriptors.forEach((descriptor) => {
+        const credentialTypes = Requestor.credentialTypesFromInputDescriptor(descriptor);
+        if (credentialTypes.length === 0) {
+          throw new Error(`Missing schema uri or type constraint for input descriptor '${descriptor.id}'.`);
         }
-      }
+
+        const descriptorIssuers = Requestor.issuersFromInputDescriptor(descriptor);
+        credentialTypes.forEach((credentialType) => {
+          issuers[credentialType] = [...new Set([...(issuers[credentialType] || []), ...descriptorIssuers])];
+        });
+      });
+
       return issuers;
-      */
-     throw new Error('trustedIssuersForVerifiableCredentials not supported for presentation exchange. Requires constraints.')
     } else {
       const attestations = (<IRequestorAttestation>this.builder.requestor).attestations;
       if (!attestations.presentations) {
@@ -182,6 +280,40 @@ export default class Requestor {
   }
 
 
+  /**
+   * Get the credential types requested by an input descriptor.
+   * The types are the last segment of the schema uris and the values required by the fields on the type.
+   * @param descriptor The input descriptor
+   */
+  private static credentialTypesFromInputDescriptor(descriptor: PresentationExchangeInputDescriptorModel): string[] {
+    const uris = descriptor.schema?.uri || [];
+    const types = (Array.isArray(uris) ? uris : [uris]).map((uri: string) => <string>uri.split(/[\/#]/).pop());
+    const fields = (descriptor.constraints?.fields || []).filter((field) => field.path?.some((path) => Requestor.TYPE_PATHS.includes(path)));
+    fields.forEach((field) => types.push(...Requestor.valuesFromFilter(field.filter?.contains || field.filter)));
+    return [...new Set(types.filter((type) => type))];
+  }
+
+  /**
+   * Get the trusted issuers of an input descriptor from the values required by the fields on the issuer
+   * @param descriptor The input descriptor
+   */
+  private static issuersFromInputDescriptor(descriptor: PresentationExchangeInputDescriptorModel): string[] {
+    const fields = (descriptor.constraints?.fields || []).filter((field) => field.path?.some((path) => Requestor.ISSUER_PATHS.includes(path)));
+    return fields.map((field) => Requestor.valuesFromFilter(field.filter)).reduce((all, values) => all.concat(values), []);
+  }
+
+  /**
+   * Get the values allowed by the const or enum of a filter
+   * @param filter The JSON Schema filter of a field
+   */
+  private static valuesFromFilter(filter: any): string[] {
+    if (filter?.const !== undefined) {
+      return [filter.const];
+    }
+
+    return Array.isArray(filter?.enum) ? filter.enum : [];
+  }
+
   public isPresentationExchange(): boolean {
     return (<IRequestorAttestation>this.builder.requestor).attestations === undefined;
   }
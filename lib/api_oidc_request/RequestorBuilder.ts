@@ -2,7 +2,14 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import { Crypto, CryptoBuilder, JoseBuilder, IPayloadProtectionSigning, Requestor, IRequestorPresentationExchange, IRequestorAttestation, IRequestor } from '../index';
+import { Crypto, CryptoBuilder, JoseBuilder, IPayloadProtectionSigning, Requestor, IRequestorPresentationExchange, IRequestorAttestation, IRequestor, PresentationDefinitionModel } from '../index';
+import PresentationDefinitionBuilder, { InputDescriptorBuilder } from './PresentationDefinitionBuilder';
+import ILogger from '../logging/ILogger';
+import NoOpLogger from '../logging/NoOpLogger';
+import RedactingLogger from '../logging/RedactingLogger';
+import IClock from '../options/IClock';
+import SystemClock from '../options/SystemClock';
+import IRequestStore from '../request_store/IRequestStore';
 
 /**
  * Defines the presentation protcol
@@ -19,6 +26,16 @@ export enum PresentationProtocol {
   attestation
 }
 
+/**
+ * Defines how the wallet returns the response
+ */
+export type ResponseMode = 'form_post' | 'direct_post' | 'fragment' | 'post.jwt';
+
+/**
+ * Defines the response types supported in the request
+ */
+export type ResponseType = 'id_token' | 'vp_token';
+
 /**
  * Class to build an OIDC requestor
  */
@@ -29,6 +46,17 @@ export default class RequestorBuilder {
   private _nonce: string | undefined;
   private _issuance: boolean = false;
   private _crypto: Crypto = new CryptoBuilder().build();
+  private _logger: ILogger = new NoOpLogger();
+  private _clock: IClock | undefined;
+  private _clockSkewInSeconds: number | undefined;
+  private _requestStore: IRequestStore | undefined;
+  private _requestUri: string | undefined;
+  private _responseMode: ResponseMode = 'form_post';
+  private _responseTypes: ResponseType[] = ['id_token'];
+  private _scope: string = 'openid did_authn';
+  private _claims: any;
+  private _clientIdScheme: string | undefined;
+  private _registration: { [metadata: string]: any } = {};
 
   /**
    * Create a new instance of RequestorBuilder
@@ -165,6 +193,224 @@ export default class RequestorBuilder {
      return this._nonce;
    }
 
+  /**
+   * Specify the logger of the requestor.
+   * Token bodies are redacted before the entries are passed to the logger.
+   * @param logger The logger
+   * @returns The requestor builder
+   */
+  public useLogger(logger: ILogger): RequestorBuilder {
+    this._logger = new RedactingLogger(logger);
+    return this;
+  }
+
+  /**
+   * Gets the logger
+   */
+  public get logger(): ILogger {
+    return this._logger;
+  }
+
+  /**
+   * Specify the clock used for iat and exp of the request
+   * @param clock The source of the current time
+   * @returns The requestor builder
+   */
+  public useClock(clock: IClock): RequestorBuilder {
+    this._clock = clock;
+    return this;
+  }
+
+  /**
+   * Gets the clock, undefined if not specified
+   */
+  public get clock(): IClock | undefined {
+    return this._clock;
+  }
+
+  /**
+   * Specify the tolerance for clock drifts in seconds.
+   * A validator built with useRequestor uses the same tolerance for its time checks.
+   * @param seconds The tolerance in seconds
+   * @returns The requestor builder
+   */
+  public useClockSkew(seconds: number): RequestorBuilder {
+    this._clockSkewInSeconds = seconds;
+    return this;
+  }
+
+  /**
+   * Gets the tolerance for clock drifts in seconds, undefined if not specified
+   */
+  public get clockSkewInSeconds(): number | undefined {
+    return this._clockSkewInSeconds;
+  }
+
+  /**
+   * Specify the presentation definition of a presentation exchange request.
+   * A builder is built and validated, a model is validated.
+   * @param presentationDefinition The presentation definition or its builder
+   * @returns The requestor builder
+   */
+  public usePresentationDefinition(presentationDefinition: PresentationDefinitionModel | PresentationDefinitionBuilder | InputDescriptorBuilder): RequestorBuilder {
+    if ((<IRequestorAttestation>this.requestor).attestations) {
+      throw new Error('A presentation definition cannot be used with the attestation requestor model.');
+    }
+
+    let definition: PresentationDefinitionModel;
+    if (presentationDefinition instanceof PresentationDefinitionBuilder || presentationDefinition instanceof InputDescriptorBuilder) {
+      definition = presentationDefinition.build();
+    } else {
+      PresentationDefinitionBuilder.validate(presentationDefinition);
+      definition = presentationDefinition;
+    }
+
+    (<IRequestorPresentationExchange>this.requestor).presentationDefinition = definition;
+    return this;
+  }
+
+  /**
+   * Gets the presentation definition, undefined for the attestation requestor model
+   */
+  public get presentationDefinition(): PresentationDefinitionModel | undefined {
+    return (<IRequestorPresentationExchange>this.requestor).presentationDefinition;
+  }
+
+  /**
+   * Pass the signed request by reference (request_uri).
+   * The created request is kept in the store and served once by its request uri.
+   * @param store The store of the signed requests
+   * @param requestUri The url where the stored requests are served, the request id is appended as last path segment
+   * @returns The requestor builder
+   */
+  public useRequestStore(store: IRequestStore, requestUri: string): RequestorBuilder {
+    this._requestStore = store;
+    this._requestUri = requestUri;
+    return this;
+  }
+
+  /**
+   * Gets the store of the signed requests, undefined if the request is passed by value
+   */
+  public get requestStore(): IRequestStore | undefined {
+    return this._requestStore;
+  }
+
+  /**
+   * Gets the url where the stored requests are served
+   */
+  public get requestUri(): string | undefined {
+    return this._requestUri;
+  }
+
+  /**
+   * Specify how the wallet returns the response, form_post by default.
+   * With direct_post the redirect uri is sent as response_uri.
+   * @param responseMode The response mode
+   * @returns The requestor builder
+   */
+  public useResponseMode(responseMode: ResponseMode): RequestorBuilder {
+    this._responseMode = responseMode;
+    return this;
+  }
+
+  /**
+   * Gets the response mode
+   */
+  public get responseMode(): ResponseMode {
+    return this._responseMode;
+  }
+
+  /**
+   * Specify the response types, id_token by default
+   * @param responseTypes The response types
+   * @returns The requestor builder
+   */
+  public useResponseTypes(responseTypes: ResponseType[]): RequestorBuilder {
+    if (responseTypes.length === 0) {
+      throw new Error('The request requires at least one response type.');
+    }
+
+    this._responseTypes = [...new Set(responseTypes)];
+    return this;
+  }
+
+  /**
+   * Gets the response types
+   */
+  public get responseTypes(): ResponseType[] {
+    return this._responseTypes;
+  }
+
+  /**
+   * Specify the scope, openid did_authn by default
+   * @param scope The scope
+   * @returns The requestor builder
+   */
+  public useScope(scope: string): RequestorBuilder {
+    this._scope = scope;
+    return this;
+  }
+
+  /**
+   * Gets the scope
+   */
+  public get scope(): string {
+    return this._scope;
+  }
+
+  /**
+   * Specify the claims parameter of the request
+   * @param claims The requested claims
+   * @returns The requestor builder
+   */
+  public useClaims(claims: any): RequestorBuilder {
+    this._claims = claims;
+    return this;
+  }
+
+  /**
+   * Gets the claims parameter, undefined if not specified
+   */
+  public get claims(): any {
+    return this._claims;
+  }
+
+  /**
+   * Specify the scheme of the client id, such as redirect_uri or did
+   * @param clientIdScheme The client id scheme
+   * @returns The requestor builder
+   */
+  public useClientIdScheme(clientIdScheme: string): RequestorBuilder {
+    this._clientIdScheme = clientIdScheme;
+    return this;
+  }
+
+  /**
+   * Gets the client id scheme, undefined if not specified
+   */
+  public get clientIdScheme(): string | undefined {
+    return this._clientIdScheme;
+  }
+
+  /**
+   * Add metadata to the registration of the requestor,
+   * such as vp_formats, subject_syntax_types_supported or id_token_signing_alg_values_supported
+   * @param metadata The registration metadata
+   * @returns The requestor builder
+   */
+  public useRegistration(metadata: { [metadata: string]: any }): RequestorBuilder {
+    this._registration = { ...this._registration, ...metadata };
+    return this;
+  }
+
+  /**
+   * Gets the additional registration metadata
+   */
+  public get registration(): { [metadata: string]: any } {
+    return this._registration;
+  }
+
   /**
    * Build the requestor
    */
@@ -0,0 +1,41 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { ClaimToken, IValidationResponse, ValidatorBuilder } from '../index';
+
+/**
+ * Defines what the validator does with a credentialStatus type for which no status checker is registered
+ */
+export enum UnknownStatusTypePolicy {
+  /**
+   * Reject the verifiable credential
+   */
+  fail = 'fail',
+
+  /**
+   * Accept the verifiable credential without status check
+   */
+  skip = 'skip',
+
+  /**
+   * Accept the verifiable credential and log a warning
+   */
+  warn = 'warn'
+}
+
+/**
+ * Interface to check the status of a verifiable credential.
+ * Status checkers are registered on the ValidatorBuilder for a credentialStatus type.
+ */
+export default interface IStatusChecker {
+  /**
+   * Check the status of the verifiable credential
+   * @param credentialStatus The credentialStatus entry of the verifiable credential
+   * @param verifiableCredential The verifiable credential
+   * @param verifiablePresentation The verifiable presentation with the verifiable credential
+   * @param builder The configuration of the validator
+   * @returns The status keyed by the id of the verifiable credential in validationResult.verifiablePresentationStatus
+   */
+  check(credentialStatus: any, verifiableCredential: ClaimToken, verifiablePresentation: ClaimToken, builder: ValidatorBuilder): Promise<IValidationResponse>;
+}
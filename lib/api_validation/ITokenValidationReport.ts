@@ -0,0 +1,41 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IResponse, TokenType } from '../index';
+
+/**
+ * Report of the validation of a token in diagnostic mode
+ */
+export default interface ITokenValidationReport {
+  /**
+   * The id of the token in the validation queue
+   */
+  id: string,
+
+  /**
+   * The type of the token
+   */
+  tokenType?: TokenType,
+
+  /**
+   * The Json Web Token Id of the token
+   */
+  tokenId?: string,
+
+  /**
+   * True if all checks on the token passed
+   */
+  result: boolean,
+
+  /**
+   * All checks on the token that failed
+   */
+  failures: IResponse[],
+
+  /**
+   * Reports of the tokens embedded in the token, keyed by their id in the validation queue
+   */
+  tokens: { [id: string]: ITokenValidationReport }
+}
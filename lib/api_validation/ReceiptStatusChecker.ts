@@ -0,0 +1,136 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { ClaimToken, IValidationResponse, ValidationErrorCode, TokenType, ValidatorBuilder, ValidationOptions, VerifiablePresentationStatusReceipt, IExpectedStatusReceipt, IVerifiablePresentationStatus } from '../index';
+import { KeyStoreOptions } from 'verifiablecredentials-crypto-sdk-typescript';
+import { v4 as uuid } from 'uuid';
+import IStatusChecker from './IStatusChecker';
+import StatusRequest from './StatusRequest';
+
+/**
+ * Status checker for the status receipt protocol.
+ * The verifiable presentation is posted to the status url of the issuer which returns signed status receipts.
+ */
+export default class ReceiptStatusChecker implements IStatusChecker {
+  /**
+   * The credentialStatus type of the status receipt protocol
+   */
+  public static readonly CREDENTIAL_STATUS_TYPE = 'PortableIdentityCardServiceCredentialStatus2020';
+
+  /**
+   * Check the status of the verifiable credential
+   * @param credentialStatus The credentialStatus entry of the verifiable credential
+   * @param verifiableCredential The verifiable credential
+   * @param verifiablePresentation The verifiable presentation with the verifiable credential
+   * @param builder The configuration of the validator
+   */
+  public async check(credentialStatus: any, verifiableCredential: ClaimToken, verifiablePresentation: ClaimToken, builder: ValidatorBuilder): Promise<IValidationResponse> {
+    const statusUrl = credentialStatus.id;
+    const vcIssuerDid = verifiableCredential.decodedToken.iss;
+    if (!statusUrl) {
+      return {
+        result: false,
+        status: 403,
+        detailedError: `The credentialStatus of type '${credentialStatus.type}' has no status url`,
+        code: ValidationErrorCode.statusCheckFailed,
+        claimPath: '$.vc.credentialStatus.id'
+      };
+    }
+
+    // use the cached status of the verifiable credential
+    const verifiableCredentialId = verifiableCredential.decodedToken.jti;
+    const cache = builder.statusCache;
+    if (cache && verifiableCredentialId) {
+      const cached = await cache.get(verifiableCredentialId, vcIssuerDid);
+      if (cached) {
+        builder.logger.debug('Verifiable presentation status from cache', { id: verifiableCredentialId, issuer: vcIssuerDid, status: cached.status });
+        if (!cached.passed) {
+          return VerifiablePresentationStatusReceipt.failedStatus(cached);
+        }
+
+        return {
+          result: true,
+          status: 200,
+          validationResult: { verifiablePresentationStatus: { [verifiableCredentialId]: cached } }
+        };
+      }
+    }
+
+    //construct payload, the status request is signed by the verifier
+    const crypto = builder.crypto;
+    const publicKey = await (await crypto.builder.keyStore.get(crypto.builder.signingKeyReference!, new KeyStoreOptions({ publicKeyOnly: true }))).getKey<JsonWebKey>();
+    const payload: any = {
+      did: crypto.builder.did,
+      kid: `${crypto.builder.did}#${crypto.builder.signingKeyReference!.keyReference}`,
+      vp: verifiablePresentation.rawToken,
+      sub_jwk: publicKey,
+      iss: 'https://self-issued.me',
+      jti: uuid()
+    };
+
+    // send the payload
+    payload.aud = statusUrl;
+    const serialized = await StatusRequest.exclusive(builder, async () => {
+      const siop = await crypto.signingProtocol('JOSE').sign(payload);
+      return siop.serialize();
+    });
+
+    builder.logger.debug('Verifiable presentation status check', { statusUrl, issuer: vcIssuerDid });
+    let response = await StatusRequest.fetch(statusUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/plain'
+      },
+      body: serialized
+    }, builder);
+    if (!response.ok) {
+      return {
+        result: false,
+        status: 403,
+        detailedError: `status check could not fetch response from ${statusUrl} with status ${response.status}. Message ${JSON.stringify(await response.json())}`,
+        code: ValidationErrorCode.statusCheckFailed,
+        claimPath: '$.vc.credentialStatus.id'
+      };
+    }
+
+    // Validate receipt
+    const receipt = await response.json();
+    const options = new ValidationOptions({ ...builder.validatorOptions, diagnosticMode: false }, TokenType.verifiablePresentationStatus);
+    const receiptValidator = new VerifiablePresentationStatusReceipt(receipt, builder, options, <IExpectedStatusReceipt>{ didIssuer: vcIssuerDid, didAudience: crypto.builder.did });
+    const receipts = await StatusRequest.exclusive(builder, () => receiptValidator.validate());
+    if (cache) {
+      await ReceiptStatusChecker.cacheStatus(builder, vcIssuerDid, receiptValidator.verifiablePresentationStatus);
+    }
+
+    if (!receipts.result) {
+      return {
+        result: false,
+        status: 403,
+        detailedError: receipts.detailedError,
+        code: receipts.code || ValidationErrorCode.invalidStatusReceipt,
+        tokenId: receipts.tokenId,
+        claimPath: receipts.claimPath
+      };
+    }
+
+    return receipts;
+  }
+
+  /**
+   * Cache the statuses of the validated receipts until the receipt expires, at most for the maximum staleness.
+   * Receipts without exp are not cached.
+   * @param builder The configuration of the validator with the status cache
+   * @param issuerDid The DID of the issuer of the verifiable credential
+   * @param statuses The statuses of the validated receipts
+   */
+  private static async cacheStatus(builder: ValidatorBuilder, issuerDid: string, statuses?: { [jti: string]: IVerifiablePresentationStatus }): Promise<void> {
+    const maxExpiry = Math.trunc(builder.clock.now() / 1000) + builder.statusCheckOptions.maxStalenessInSeconds!;
+    for (let jti in statuses) {
+      const exp = statuses[jti].token.decodedToken.exp;
+      if (typeof exp === 'number') {
+        await builder.statusCache!.set(jti, issuerDid, statuses[jti], Math.min(exp, maxExpiry));
+      }
+    }
+  }
+}
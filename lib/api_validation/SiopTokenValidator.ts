@@ -4,12 +4,14 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { TokenType, IExpectedSiop, ITokenValidator, ClaimToken } from '../index';
-import { IValidationResponse } from '../input_validation/IValidationResponse';
+import { IValidationResponse, ValidationErrorCode } from '../input_validation/IValidationResponse';
 import ValidationOptions from '../options/ValidationOptions';
 import IValidatorOptions from '../options/IValidatorOptions';
 import ValidationQueue from '../input_validation/ValidationQueue';
 import ValidationQueueItem from '../input_validation/ValidationQueueItem';
 import { SiopValidation } from '../input_validation/SiopValidation';
+import ValidationDiagnostics from '../input_validation/ValidationDiagnostics';
+import NoOpLogger from '../logging/NoOpLogger';
 import VerifiableCredentialConstants from '../verifiable_credential/VerifiableCredentialConstants';
 
 /**
@@ -38,30 +40,44 @@ export default class SiopTokenValidator implements ITokenValidator {
       validationResult = this.getTokens(validationResult, queue);
     }
 
-    validationResult = this.validateReplayProtection(validationResult);
+    if (validationResult.result) {
+      validationResult = this.validateReplayProtection(validationResult, options);
+    }
+
     return validationResult as IValidationResponse;
   }
 
   /**
    * Check state and nonce
    * @param validationResponse The response for the requestor
+   * @param options The validation options
    */
-  private validateReplayProtection(validationResponse: IValidationResponse): IValidationResponse {
+  private validateReplayProtection(validationResponse: IValidationResponse, options: ValidationOptions): IValidationResponse {
     if (this.expected.nonce) {
       if (this.expected.nonce !== validationResponse.payloadObject.nonce) {
-        return {
+        validationResponse = ValidationDiagnostics.record(options, validationResponse, {
           result: false,
           status: 403,
-          detailedError: `Expect nonce '${this.expected.nonce}' does not match '${validationResponse.payloadObject.nonce}'.`
+          detailedError: `Expect nonce '${this.expected.nonce}' does not match '${validationResponse.payloadObject.nonce}'.`,
+          code: ValidationErrorCode.nonceMismatch,
+          claimPath: '$.nonce'
+        });
+        if (!validationResponse.result) {
+          return validationResponse;
         }
       }
     }
     if (this.expected.state) {
       if (this.expected.state !== validationResponse.payloadObject.state) {
-        return {
+        validationResponse = ValidationDiagnostics.record(options, validationResponse, {
           result: false,
           status: 403,
-          detailedError: `Expect state '${this.expected.state}' does not match '${validationResponse.payloadObject.state}'.`
+          detailedError: `Expect state '${this.expected.state}' does not match '${validationResponse.payloadObject.state}'.`,
+          code: ValidationErrorCode.stateMismatch,
+          claimPath: '$.state'
+        });
+        if (!validationResponse.result) {
+          return validationResponse;
         }
       }
     }
@@ -75,6 +91,7 @@ export default class SiopTokenValidator implements ITokenValidator {
    * @param queue with tokens to validate
    */
   public getTokens(validationResponse: IValidationResponse, queue: ValidationQueue): IValidationResponse {
+    const logger = this.validatorOption.logger || new NoOpLogger();
 
     // Check type of SIOP
     let type: TokenType;
@@ -93,11 +110,13 @@ export default class SiopTokenValidator implements ITokenValidator {
           try {
             validationResponse.tokensToValidate = ClaimToken.getClaimTokensFromAttestations(attestations);
           } catch (err) {
-            console.error(err);
+            logger.error('Failing to get the tokens from the attestations', { error: err });
             return {
               result: false,
               status: 403,
-              detailedError: err.message
+              detailedError: err.message,
+              code: ValidationErrorCode.invalidClaim,
+              claimPath: `$.${VerifiableCredentialConstants.ATTESTATIONS}`
             };
           }
         }
@@ -108,13 +127,16 @@ export default class SiopTokenValidator implements ITokenValidator {
 
         // Decode tokens
         try {
-          validationResponse.tokensToValidate = ClaimToken.getClaimTokensFromPresentationExchange(validationResponse.payloadObject);
+          validationResponse.submittedCredentials = {};
+          validationResponse.tokensToValidate = ClaimToken.getClaimTokensFromPresentationExchange(validationResponse.payloadObject, logger, this.expected.presentationDefinition, validationResponse.submittedCredentials);
         } catch (err) {
-          console.error(err);
+          logger.error('Failing to get the tokens from the presentation submission', { error: err });
           return {
             result: false,
             status: 403,
-            detailedError: err.message
+            detailedError: err.message,
+            code: ValidationErrorCode.invalidPresentationSubmission,
+            claimPath: `$.${VerifiableCredentialConstants.PRESENTATION_SUBMISSION}`
           };
         }
         break;
@@ -0,0 +1,100 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { ValidatorBuilder } from '../index';
+
+/**
+ * Error thrown when a status request does not answer within the timeout
+ */
+export class StatusTimeoutError extends Error {
+  /**
+   * Create a new instance of <see @class StatusTimeoutError>
+   * @param url The url of the status request
+   * @param timeoutInMilliseconds The timeout of the request
+   */
+  constructor(public url: string, timeoutInMilliseconds: number) {
+    super(`The status request to ${url} timed out after ${timeoutInMilliseconds} ms`);
+    this.name = 'StatusTimeoutError';
+  }
+}
+
+/**
+ * Helper for the http requests of the status checkers.
+ * Each request is bounded by the timeout, server errors are retried with exponential backoff.
+ */
+export default class StatusRequest {
+  private static _queues: WeakMap<object, Promise<any>> = new WeakMap<object, Promise<any>>();
+
+  /**
+   * Run an operation on the crypto object of the validator after the operations queued before.
+   * The signing protocols of the crypto object keep the state of the token being signed or verified,
+   * so concurrent status checks cannot share them.
+   * @param builder The configuration of the validator with the crypto object
+   * @param operation The operation using the crypto object
+   */
+  public static exclusive<T>(builder: ValidatorBuilder, operation: () => Promise<T>): Promise<T> {
+    const previous = StatusRequest._queues.get(builder.crypto) || Promise.resolve();
+    const result = previous.then(operation, operation);
+    StatusRequest._queues.set(builder.crypto, result.catch(() => undefined));
+    return result;
+  }
+
+  /**
+   * Send a status request
+   * @param url The url of the request
+   * @param init The request options
+   * @param builder The configuration of the validator with the status check options
+   * @returns The response, the last response when all retries returned a server error
+   * @throws StatusTimeoutError when the request times out
+   */
+  public static async fetch(url: string, init: RequestInit, builder: ValidatorBuilder): Promise<Response> {
+    const options = builder.statusCheckOptions;
+    let delay = options.retryDelayInMilliseconds!;
+    for (let attempt = 0; ; attempt++) {
+      const response = await StatusRequest.fetchWithTimeout(url, init, options.timeoutInMilliseconds!);
+      if (response.status < 500 || attempt >= options.maxRetries!) {
+        return response;
+      }
+
+      builder.logger.warning('Status request failed, retrying', { url, status: response.status, attempt: attempt + 1 });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      delay *= 2;
+    }
+  }
+
+  /**
+   * Send a request which is aborted when the response and its body do not arrive in time.
+   * Runtimes without AbortController only stop waiting for the request.
+   * The body is read within the timeout, the returned response is buffered.
+   * @param url The url of the request
+   * @param init The request options
+   * @param timeoutInMilliseconds The timeout
+   */
+  private static async fetchWithTimeout(url: string, init: RequestInit, timeoutInMilliseconds: number): Promise<Response> {
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : undefined;
+    let timer: any;
+    const timeout = new Promise<Response>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        controller?.abort();
+        reject(new StatusTimeoutError(url, timeoutInMilliseconds));
+      }, timeoutInMilliseconds);
+    });
+
+    const request = async (): Promise<Response> => {
+      const response = await fetch(url, controller ? { ...init, signal: controller.signal } : init);
+      const body = await response.text();
+
+      // Copy the headers, the Headers of the fetch implementation are not always accepted by Response
+      const headers: { [name: string]: string } = {};
+      response.headers.forEach((value: string, name: string) => headers[name] = value);
+      return new Response(body || null, { status: response.status, statusText: response.statusText, headers });
+    };
+
+    try {
+      return await Promise.race([request(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
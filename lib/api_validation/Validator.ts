@@ -3,15 +3,20 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { IVerifiablePresentationStatus, ClaimToken, IDidResolver, ISiopValidationResponse, ITokenValidator, ValidatorBuilder, IValidatorOptions, IExpectedStatusReceipt, ValidationOptions, VerifiablePresentationStatusReceipt } from '../index';
-import { IValidationResponse } from '../input_validation/IValidationResponse';
+import { IVerifiablePresentationStatus, ClaimToken, IDidResolver, ISiopValidationResponse, ITokenValidator, ValidatorBuilder, IValidatorOptions } from '../index';
+import { IValidationResponse, ValidationErrorCode } from '../input_validation/IValidationResponse';
+import ValidationDiagnostics from '../input_validation/ValidationDiagnostics';
 import ValidationQueue from '../input_validation/ValidationQueue';
 import ValidationQueueItem from '../input_validation/ValidationQueueItem';
 import { TokenType } from '../verifiable_credential/ClaimToken';
 import IValidationResult from './IValidationResult';
-import { KeyStoreOptions } from 'verifiablecredentials-crypto-sdk-typescript';
+import ITokenValidationReport from './ITokenValidationReport';
 import { VerifiablePresentationValidationResponse } from '../input_validation/VerifiablePresentationValidationResponse';
-import { v4 as uuid } from 'uuid';
+import VerifiableCredentialConstants from '../verifiable_credential/VerifiableCredentialConstants';
+import { UnknownStatusTypePolicy } from './IStatusChecker';
+import { StatusTimeoutError } from './StatusRequest';
+import { StatusTimeoutPolicy } from '../options/IStatusCheckOptions';
+import PresentationDefinitionEvaluator from '../presentation_exchange/PresentationDefinitionEvaluator';
 
 /**
  * Class model the token validator
@@ -62,6 +67,7 @@ export default class Validator {
         return {
           status: 400,
           detailedError: exception.message,
+          code: ValidationErrorCode.tokenMalformed,
           result: false
         }
       }
@@ -71,32 +77,55 @@ export default class Validator {
       return {
         result: false,
         status: 500,
-        detailedError: 'Wrong token type. Expected string or ClaimToken'
+        detailedError: 'Wrong token type. Expected string or ClaimToken',
+        code: ValidationErrorCode.tokenMalformed
       }
     }
 
+    const diagnosticMode = this.builder.diagnosticMode;
+    const embeddedTokens = new Map<ValidationQueueItem, ValidationQueueItem[]>();
     queue.enqueueToken('siop', claimToken);
     let queueItem = queue.getNextToken();
     do {
       try {
         claimToken = Validator.getClaimToken(queueItem!);
       } catch (error) {
-        return {
+        response = {
           detailedError: error.message,
+          code: ValidationErrorCode.tokenMalformed,
           status: 400,
           result: false
         };
+        if (!diagnosticMode) {
+          return response;
+        }
+
+        queueItem!.setResult(response, queueItem!.tokenToValidate);
+        queueItem = queue.getNextToken();
+        continue;
       }
 
       const validator = this.tokenValidators[claimToken.type];
       if (!validator) {
-        return {
+        response = {
           detailedError: `${claimToken.type} does not has a TokenValidator`,
+          code: ValidationErrorCode.tokenTypeNotSupported,
           status: 500,
           result: false
         };
+        if (!diagnosticMode) {
+          return response;
+        }
+
+        Validator.setFailedToken(response, claimToken);
+        queueItem!.setResult(response, claimToken);
+        queueItem = queue.getNextToken();
+        continue;
       }
 
+      // Keep track of the tokens embedded in this token
+      const queueLength = queue.items.length;
+
       switch (claimToken.type) {
         case TokenType.idToken:
           response = await validator.validate(queue, queueItem!, '', siopContractId);
@@ -132,19 +161,36 @@ export default class Validator {
           response = await validator.validate(queue, queueItem!);
           break;
         default:
-          return {
+          response = {
             detailedError: `${claimToken.type} is not supported`,
+            code: ValidationErrorCode.tokenTypeNotSupported,
             status: 400,
             result: false
           };
+          if (!diagnosticMode) {
+            return response;
+          }
       }
+
+      embeddedTokens.set(queueItem!, queue.items.slice(queueLength));
+
       // Save result
+      if (diagnosticMode) {
+        response = ValidationDiagnostics.conclude(response);
+      }
+      if (!response.result) {
+        Validator.setFailedToken(response, claimToken);
+      }
       queueItem!.setResult(response, claimToken);
 
       // Get next token to validate
       queueItem = queue.getNextToken();
     } while (queueItem);
 
+    if (diagnosticMode) {
+      return this.diagnose(queue, embeddedTokens);
+    }
+
     // Set output
     response = queue.getResult();
     if (!response.result) {
@@ -158,21 +204,33 @@ export default class Validator {
       return response;
     }
 
+    // Check the submitted credentials against the presentation definition
+    response = this.evaluatePresentationDefinition(queue);
+    if (!response.result) {
+      return response;
+    }
+
     // Check status of VCs
     const statusResponse = await this.checkVcsStatus(validationResult);
     validationResult.verifiablePresentationStatus = statusResponse.validationResult?.verifiablePresentationStatus;
 
-    if (statusResponse.result) {
-      // set claims
-      return {
-        result: true,
-        status: 200,
-        validationResult
-      };
-    } else {
+    if (!statusResponse.result) {
       return statusResponse;
     }
 
+    // Mark the tokens as used once all checks passed
+    const replayResponse = await this.checkReplay(queue.items);
+    if (!replayResponse.result) {
+      return replayResponse;
+    }
+
+    // set claims
+    return {
+      result: true,
+      status: 200,
+      validationResult
+    };
+
     return response;
   }
 
@@ -185,6 +243,8 @@ export default class Validator {
         if (!presentedVc) {
           return {
             detailedError: `Verifiable credential '${vc}' is missing from the input request`,
+            code: ValidationErrorCode.missingCredential,
+            tokenType: TokenType.verifiableCredential,
             status: 403,
             result: false
           };
@@ -198,6 +258,8 @@ export default class Validator {
       if (!validationResult.idTokens) {
         return {
           detailedError: `The id token is missing from the input request`,
+          code: ValidationErrorCode.missingIdToken,
+          tokenType: TokenType.idToken,
           status: 403,
           result: false
         };
@@ -212,16 +274,66 @@ export default class Validator {
   }
 
   /**
-   * Validate status on verifiable presentation
+   * Evaluate the credentials submitted in a presentation exchange response against the presentation definition of the validator
+   * @param queue The validated tokens
    */
-  public async checkVcsStatus(validationResult: IValidationResult): Promise<IValidationResponse> {
-    if (!this.builder.featureVerifiedCredentialsStatusCheckEnabled) {
+  private evaluatePresentationDefinition(queue: ValidationQueue): IValidationResponse {
+    const definition = this.builder.presentationDefinition;
+    const siop = queue.items.find((item) => item.result && item.validatedToken?.type === TokenType.siopPresentationExchange);
+    if (!definition || !siop) {
       return {
         result: true,
         status: 200
       };
     }
 
+    // Only validated credentials are evaluated
+    const validated = queue.items
+      .filter((item) => item.result && item.validatedToken?.type === TokenType.verifiableCredential)
+      .map((item) => item.validatedToken!);
+    const submitted = siop.validationResponse.submittedCredentials || {};
+    const credentials: { [descriptorId: string]: ClaimToken } = {};
+    for (const descriptorId in submitted) {
+      const rawToken = JSON.stringify(submitted[descriptorId].rawToken);
+      const credential = validated.find((token) => JSON.stringify(token.rawToken) === rawToken);
+      if (!credential) {
+        return {
+          result: false,
+          status: 403,
+          detailedError: `The credential submitted for input descriptor '${descriptorId}' is not a validated verifiable credential`,
+          code: ValidationErrorCode.invalidPresentationSubmission,
+          tokenType: TokenType.siopPresentationExchange,
+          claimPath: `$.${VerifiableCredentialConstants.PRESENTATION_SUBMISSION}.descriptor_map`
+        };
+      }
+
+      credentials[descriptorId] = credential;
+    }
+
+    const evaluation = new PresentationDefinitionEvaluator(definition).evaluate(credentials);
+    if (!evaluation.result) {
+      this.builder.logger.info('The presentation definition is not satisfied', { satisfiedDescriptors: evaluation.satisfiedDescriptors, error: evaluation.detailedError });
+      return {
+        result: false,
+        status: evaluation.status,
+        detailedError: evaluation.detailedError,
+        code: evaluation.code,
+        tokenType: evaluation.tokenType,
+        tokenId: evaluation.tokenId,
+        claimPath: evaluation.claimPath
+      };
+    }
+
+    return {
+      result: true,
+      status: 200
+    };
+  }
+
+  /**
+   * Validate status on verifiable presentation
+   */
+  public async checkVcsStatus(validationResult: IValidationResult): Promise<IValidationResponse> {
     if (!validationResult.verifiablePresentations || !validationResult.verifiableCredentials) {
       return {
         result: true,
@@ -229,19 +341,18 @@ export default class Validator {
       };
     }
 
+    // The presentations are checked concurrently, the first failure in the order of the presentations is returned
+    const vps = Object.keys(validationResult.verifiablePresentations);
+    const responses = await Promise.all(vps.map((vp) => this.checkVpStatus(validationResult.verifiablePresentations![vp])));
     const receipts: { [key: string]: IVerifiablePresentationStatus } = {};
-    for (let vp in validationResult.verifiablePresentations) {
-      const response = await this.checkVpStatus(validationResult.verifiablePresentations[vp]);
+    for (let inx = 0; inx < vps.length; inx++) {
+      const response = responses[inx];
       if (!response.result) {
         return response;
       }
 
-      if (response.validationResult?.verifiablePresentationStatus) {
-        for (let id in response.validationResult.verifiablePresentationStatus) {
-          receipts[id] = response.validationResult.verifiablePresentationStatus[id];
-        }
-      }
-      console.log(`Status request for ${vp}, result: ${response.result} ===> ${validationResult.verifiablePresentations[vp]}`);
+      Validator.mergeStatus(receipts, response.validationResult?.verifiablePresentationStatus);
+      this.builder.logger.debug('Status request for verifiable presentation', { id: vps[inx], result: response.result });
     }
 
     return {
@@ -262,79 +373,419 @@ export default class Validator {
       validationResult: { verifiablePresentationStatus: <{ [key: string]: IVerifiablePresentationStatus }>{} }
     }
 
-    //construct payload
-    const publicKey = await (await this.builder.crypto.builder.keyStore.get(this.builder.crypto.builder.signingKeyReference!, new KeyStoreOptions({ publicKeyOnly: true }))).getKey<JsonWebKey>();
-    const payload: any = {
-      did: this.builder.crypto.builder.did,
-      kid: `${this.builder.crypto.builder.did}#${this.builder.crypto.builder.signingKeyReference!.keyReference}`,
-      vp: verifiablePresentationToken.rawToken,
-      sub_jwk: publicKey,
-      iss: 'https://self-issued.me',
-      jti: uuid()
-    };
-
-    // get vcs to obtain status url
+    // get vcs to obtain the credential status, the credentials are checked concurrently
     const vcs = verifiablePresentationToken.decodedToken.vp?.verifiableCredential;
     if (vcs) {
+      const checks: Promise<IValidationResponse>[] = [];
       for (let vc in vcs) {
-        const vcToValidate: any = ClaimToken.create(vcs[vc]);
-        const statusUrl = vcToValidate.decodedToken?.vc?.credentialStatus?.id;
-        const vcIssuerDid = vcToValidate.decodedToken.iss;
-
-        if (statusUrl) {
-          // send the payload
-          payload.aud = statusUrl;
-          const siop = await this.builder.crypto.signingProtocol('JOSE').sign(payload);
-          const serialized = await siop.serialize();
-
-          console.log(`verifiablePresentation status check on ${statusUrl} ====> ${serialized}`);
-          let response = await fetch(statusUrl, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'text/plain'
-            },
-            body: serialized
-          });
-          if (!response.ok) {
-            return {
-              result: false,
-              status: 403,
-              detailedError: `status check could not fetch response from ${statusUrl} with status ${response.status}. Message ${JSON.stringify(await response.json())}`
-            };
-          }
+        checks.push(this.checkVcStatus(ClaimToken.create(vcs[vc]), verifiablePresentationToken));
+      }
 
-          // Validate receipt
-          const receipt = await response.json();
-          const validatorOption: IValidatorOptions = this.setValidatorOptions();
-          const options = new ValidationOptions(validatorOption, TokenType.siopPresentationExchange);
-          const receiptValidator = new VerifiablePresentationStatusReceipt(receipt, this.builder, options, <IExpectedStatusReceipt>{ didIssuer: vcIssuerDid, didAudience: this.builder.crypto.builder.did });
-          const receipts = await receiptValidator.validate();
-          if (!receipts.result) {
-            validationResponse = {
-              result: false,
-              status: 403,
-              detailedError: receipts.detailedError
-            };
-            break;
-          }
+      for (const response of await Promise.all(checks)) {
+        if (!response.result) {
+          return response;
+        }
+
+        Validator.mergeStatus(validationResponse.validationResult!.verifiablePresentationStatus!, response.validationResult?.verifiablePresentationStatus);
+      }
+    }
+
+    return validationResponse;
+  }
+
+  /**
+   * Check the revocation and all credentialStatus entries of a verifiable credential
+   * @param verifiableCredential The verifiable credential
+   * @param verifiablePresentation The verifiable presentation with the verifiable credential
+   */
+  private async checkVcStatus(verifiableCredential: ClaimToken, verifiablePresentation: ClaimToken): Promise<IValidationResponse> {
+    const revocationResponse = await this.checkRevocation(verifiableCredential, verifiablePresentation);
+    if (!revocationResponse.result) {
+      return revocationResponse;
+    }
+
+    // The credentialStatus entries are only checked when the status check feature is enabled
+    const credentialStatus = verifiableCredential.decodedToken.vc ? verifiableCredential.decodedToken.vc.credentialStatus : verifiableCredential.decodedToken.credentialStatus;
+    if (!credentialStatus || !this.builder.featureVerifiedCredentialsStatusCheckEnabled) {
+      return revocationResponse;
+    }
+
+    const entries: any[] = Array.isArray(credentialStatus) ? credentialStatus : [credentialStatus];
+    const responses = await Promise.all(entries.map((entry) => this.checkCredentialStatus(entry, verifiableCredential, verifiablePresentation)));
+    const statuses: { [key: string]: IVerifiablePresentationStatus } = {};
+    for (const response of responses) {
+      if (!response.result) {
+        return response;
+      }
+
+      Validator.mergeStatus(statuses, response.validationResult?.verifiablePresentationStatus);
+    }
+
+    return {
+      result: true,
+      status: 200,
+      validationResult: { verifiablePresentationStatus: statuses }
+    };
+  }
+
+  /**
+   * Add statuses to the statuses of the presentation. A status which did not pass is kept.
+   * @param statuses The statuses of the presentation
+   * @param additions The statuses to add
+   */
+  private static mergeStatus(statuses: { [key: string]: IVerifiablePresentationStatus }, additions?: { [key: string]: IVerifiablePresentationStatus }): void {
+    for (let jti in additions) {
+      if (!statuses[jti] || statuses[jti].passed) {
+        statuses[jti] = additions[jti];
+      }
+    }
+  }
+
+  /**
+   * Check if the verifiable credential was revoked before the presentation in the revocation source
+   * @param verifiableCredential The verifiable credential
+   * @param verifiablePresentation The verifiable presentation with the verifiable credential
+   */
+  private async checkRevocation(verifiableCredential: ClaimToken, verifiablePresentation: ClaimToken): Promise<IValidationResponse> {
+    const isJwt = !!verifiableCredential.decodedToken.vc;
+    const tokenId = isJwt ? verifiableCredential.decodedToken.jti : verifiableCredential.decodedToken.id;
+    const issuer = isJwt ? verifiableCredential.decodedToken.iss : (verifiableCredential.decodedToken.issuer?.id || verifiableCredential.decodedToken.issuer);
+    const revocationSource = this.builder.revocationSource;
+    if (!revocationSource || !tokenId) {
+      return {
+        result: true,
+        status: 200
+      };
+    }
 
-          for (let jti in receipts.validationResult?.verifiablePresentationStatus) {
-            validationResponse.validationResult!.verifiablePresentationStatus![jti] = receipts.validationResult!.verifiablePresentationStatus[jti];
+    // The presentation time is the issuance of the presentation, the current time if not available.
+    // The holder controls the iat, so it is only trusted within the allowed age of the presentation.
+    const revokedCard = await revocationSource.getRevokedCard(tokenId, issuer);
+    const current = Math.trunc(this.builder.clock.now() / 1000);
+    const allowedAge = this.builder.tokenAge(TokenType.verifiablePresentationJwt).maxAgeInSeconds ?? this.builder.clockSkewInSeconds;
+    const iat = verifiablePresentation.decodedToken.iat;
+    const presentationTime = typeof iat === 'number' ? Math.min(current, Math.max(iat, current - allowedAge)) : current;
+    if (revokedCard && revokedCard.actionTimeInSeconds <= presentationTime) {
+      return {
+        result: false,
+        status: 403,
+        detailedError: `The verifiable credential '${tokenId}' is revoked by '${issuer}' since ${new Date(revokedCard.actionTimeInSeconds * 1000).toISOString()}.`,
+        code: ValidationErrorCode.credentialRevoked,
+        tokenType: TokenType.verifiableCredential,
+        tokenId,
+        claimPath: isJwt ? '$.jti' : '$.id'
+      };
+    }
+
+    return {
+      result: true,
+      status: 200
+    };
+  }
+
+  /**
+   * Check the status of a verifiable credential with the status checker registered for the credentialStatus type,
+   * the default status checker for other types with an id
+   * @param credentialStatus The credentialStatus entry of the verifiable credential
+   * @param verifiableCredential The verifiable credential
+   * @param verifiablePresentation The verifiable presentation with the verifiable credential
+   */
+  private async checkCredentialStatus(credentialStatus: any, verifiableCredential: ClaimToken, verifiablePresentation: ClaimToken): Promise<IValidationResponse> {
+    const tokenId = verifiableCredential.decodedToken.vc ? verifiableCredential.decodedToken.jti : verifiableCredential.decodedToken.id;
+    const statusChecker = this.builder.statusCheckers[credentialStatus.type] || (credentialStatus.id ? this.builder.defaultStatusChecker : undefined);
+    if (!statusChecker) {
+      const detailedError = `The credentialStatus type '${credentialStatus.type}' is not supported`;
+      switch (this.builder.unknownStatusTypePolicy) {
+        case UnknownStatusTypePolicy.skip:
+          this.builder.logger.debug(detailedError, { tokenId });
+          break;
+        case UnknownStatusTypePolicy.warn:
+          this.builder.logger.warning(detailedError, { tokenId });
+          break;
+        default:
+          return {
+            result: false,
+            status: 403,
+            detailedError,
+            code: ValidationErrorCode.statusTypeNotSupported,
+            tokenType: TokenType.verifiableCredential,
+            tokenId,
+            claimPath: verifiableCredential.decodedToken.vc ? '$.vc.credentialStatus.type' : '$.credentialStatus.type'
+          };
+      }
+
+      return {
+        result: true,
+        status: 200
+      };
+    }
+
+    let response: IValidationResponse;
+    try {
+      response = await statusChecker.check(credentialStatus, verifiableCredential, verifiablePresentation, this.builder);
+    } catch (exception) {
+      if (!(exception instanceof StatusTimeoutError)) {
+        throw exception;
+      }
+
+      return this.statusTimedOut(exception, verifiableCredential, tokenId);
+    }
+
+    if (!response.result) {
+      return {
+        ...response,
+        tokenType: response.tokenType || TokenType.verifiableCredential,
+        tokenId: response.tokenId || tokenId
+      };
+    }
+
+    return response;
+  }
+
+  /**
+   * Apply the timeout policy when a status request timed out
+   * @param error The timeout error
+   * @param verifiableCredential The verifiable credential
+   * @param tokenId The id of the verifiable credential
+   */
+  private statusTimedOut(error: StatusTimeoutError, verifiableCredential: ClaimToken, tokenId: string): IValidationResponse {
+    if (this.builder.statusCheckOptions.timeoutPolicy === StatusTimeoutPolicy.unknown) {
+      this.builder.logger.warning(error.message, { tokenId });
+      return {
+        result: true,
+        status: 200,
+        validationResult: {
+          verifiablePresentationStatus: {
+            [tokenId]: <IVerifiablePresentationStatus>{
+              id: tokenId,
+              status: 'unknown',
+              reason: error.message,
+              passed: false,
+              token: verifiableCredential
+            }
           }
         }
+      };
+    }
+
+    return {
+      result: false,
+      status: 403,
+      detailedError: error.message,
+      code: ValidationErrorCode.statusCheckTimedOut,
+      tokenType: TokenType.verifiableCredential,
+      tokenId,
+      claimPath: verifiableCredential.decodedToken.vc ? '$.vc.credentialStatus' : '$.credentialStatus'
+    };
+  }
+
+  /**
+   * Check that the jti and nonce of the SIOP and the jti of the verifiable presentations are not used before.
+   * The values of all tokens are registered at once so a replayed token does not use up the values of the other tokens.
+   * @param items The validated tokens
+   */
+  private async checkReplay(items: ValidationQueueItem[]): Promise<IValidationResponse> {
+    const replayCache = this.builder.replayCache;
+    if (!replayCache) {
+      return {
+        result: true,
+        status: 200
+      };
+    }
+
+    const values: { key: string, expiry: number, claimPath: string, tokenType: TokenType, tokenId?: string }[] = [];
+    for (const item of items) {
+      const tokenType = item.validatedToken?.type;
+      if (!tokenType) {
+        continue;
+      }
+
+      const validationResponse = item.validationResponse;
+      const expiry = this.getReplayExpiry(tokenType, validationResponse);
+      const tokenId = validationResponse.tokenId;
+      if (tokenType === TokenType.verifiablePresentationJwt || this.isSiopType(tokenType)) {
+        if (tokenId) {
+          values.push({ key: `${tokenType}:${validationResponse.did}:${tokenId}`, expiry, claimPath: '$.jti', tokenType, tokenId });
+        }
+      }
+
+      if (this.isSiopType(tokenType) && validationResponse.payloadObject?.nonce) {
+        values.push({ key: `nonce:${validationResponse.payloadObject.nonce}`, expiry, claimPath: '$.nonce', tokenType, tokenId });
       }
     }
 
-    return validationResponse;
+    if (values.length === 0) {
+      return {
+        result: true,
+        status: 200
+      };
+    }
+
+    let used: string[];
+    try {
+      used = await replayCache.register(values.map((value) => ({ key: value.key, expiry: value.expiry })));
+    } catch (error) {
+      this.builder.logger.error('Failing to register the use of the tokens', { error });
+      return {
+        result: false,
+        status: 503,
+        detailedError: 'The use of the presented tokens could not be registered',
+        code: ValidationErrorCode.replayCheckFailed,
+        tokenType: values[0].tokenType,
+        tokenId: values[0].tokenId
+      };
+    }
+
+    const replayed = values.find((value) => used.includes(value.key));
+    if (replayed) {
+      return {
+        result: false,
+        status: 403,
+        detailedError: `The ${replayed.tokenType} was already presented. ${replayed.claimPath} can only be used once.`,
+        code: ValidationErrorCode.tokenReplayed,
+        claimPath: replayed.claimPath,
+        tokenType: replayed.tokenType,
+        tokenId: replayed.tokenId
+      };
+    }
+
+    return {
+      result: true,
+      status: 200
+    };
+  }
+
+  /**
+   * Get the time until which the values of a token are remembered, as long as the token is accepted
+   * @param tokenType The type of the token
+   * @param validationResponse The validation response of the token
+   */
+  private getReplayExpiry(tokenType: TokenType, validationResponse: IValidationResponse): number {
+    const clockSkew = this.builder.clockSkewInSeconds;
+    if (validationResponse.expiration) {
+      return validationResponse.expiration + clockSkew;
+    }
+
+    // Tokens without exp are accepted until they exceed the maximum age
+    const expiry = Math.trunc(this.builder.clock.now() / 1000) + VerifiableCredentialConstants.DEFAULT_REPLAY_EXPIRY_IN_SECONDS;
+    const maxAge = this.builder.tokenAge(tokenType).maxAgeInSeconds;
+    const iat = validationResponse.payloadObject?.iat;
+    if (maxAge === undefined || typeof iat !== 'number') {
+      return expiry;
+    }
+
+    return Math.max(iat + maxAge + clockSkew, expiry);
   }
 
   /**
    * Set the validator options
    */
   private setValidatorOptions(): IValidatorOptions {
+    return this.builder.validatorOptions;
+  }
+
+  /**
+   * Run the checks on the validated tokens and report all failures for each token
+   * @param queue The validated tokens
+   * @param embeddedTokens The tokens embedded in each token
+   */
+  private async diagnose(queue: ValidationQueue, embeddedTokens: Map<ValidationQueueItem, ValidationQueueItem[]>): Promise<IValidationResponse> {
+    // Build the report tree from the root token
+    const reports = new Map<ValidationQueueItem, ITokenValidationReport>();
+    const createReport = (item: ValidationQueueItem): ITokenValidationReport => {
+      const failures = ValidationDiagnostics.getFailures(item.validationResponse);
+      const report: ITokenValidationReport = {
+        id: item.id,
+        tokenType: item.validationResponse.tokenType || item.tokenToValidate.type,
+        tokenId: item.validationResponse.tokenId,
+        result: failures.length === 0,
+        failures,
+        tokens: {}
+      };
+      reports.set(item, report);
+      for (const embedded of embeddedTokens.get(item) || []) {
+        report.tokens[embedded.id] = createReport(embedded);
+      }
+
+      return report;
+    };
+
+    const root = queue.items[0];
+    const rootReport = createReport(root);
+    const addFailure = (report: ITokenValidationReport, failure: IValidationResponse) => {
+      report.failures.push(...ValidationDiagnostics.getFailures(failure));
+      report.result = false;
+    };
+
+    // Check if inputs are available
+    const validationResult = this.setValidationResult(queue);
+    const inputResponse = this.validateAllRequiredInputs(validationResult);
+    if (!inputResponse.result) {
+      addFailure(rootReport, inputResponse);
+    }
+
+    const definitionResponse = this.evaluatePresentationDefinition(queue);
+    if (!definitionResponse.result) {
+      addFailure(rootReport, definitionResponse);
+    }
+
+    // Check status of VCs for each presentation
+    const receipts: { [jti: string]: IVerifiablePresentationStatus } = {};
+    for (let vp in validationResult.verifiablePresentations) {
+      const statusResponse = await this.checkVcsStatus({
+        verifiablePresentations: { [vp]: validationResult.verifiablePresentations[vp] },
+        verifiableCredentials: validationResult.verifiableCredentials
+      });
+      if (!statusResponse.result) {
+        const vpItem = queue.items.find((item) => item.id === vp && item.tokenToValidate.type === TokenType.verifiablePresentationJwt);
+        addFailure((vpItem && reports.get(vpItem)) || rootReport, statusResponse);
+      }
+
+      for (let jti in statusResponse.validationResult?.verifiablePresentationStatus) {
+        receipts[jti] = statusResponse.validationResult!.verifiablePresentationStatus![jti];
+      }
+    }
+    validationResult.verifiablePresentationStatus = receipts;
+
+    // Mark the tokens as used once all checks passed, a failed request can be corrected and presented again
+    if (queue.items.every((item) => reports.get(item)!.result)) {
+      const replayResponse = await this.checkReplay(queue.items);
+      if (!replayResponse.result) {
+        const replayedItem = queue.items.find((item) => item.validatedToken?.type === replayResponse.tokenType && item.validationResponse.tokenId === replayResponse.tokenId);
+        addFailure((replayedItem && reports.get(replayedItem)) || rootReport, replayResponse);
+      }
+    }
+
+    const report = { [root.id]: rootReport };
+    const failed = queue.items.map((item) => reports.get(item)!).filter((itemReport) => !itemReport.result);
+    if (failed.length > 0) {
+      return {
+        ...failed[0].failures[0],
+        result: false,
+        tokenType: failed[0].tokenType,
+        tokenId: failed[0].tokenId,
+        validationResult,
+        report
+      };
+    }
+
     return {
-      resolver: this.builder.resolver,
-      crypto: this.builder.crypto
+      result: true,
+      status: 200,
+      validationResult,
+      report
+    };
+  }
+
+  /**
+   * Add the token which failed validation to the response
+   * @param response The failed validation response
+   * @param token The token which failed validation
+   */
+  private static setFailedToken(response: IValidationResponse, token: ClaimToken): void {
+    response.tokenType = response.tokenType || token.type;
+    if (!response.tokenId) {
+      response.tokenId = token.decodedToken?.jti || token.decodedToken?.id;
     }
   }
 
@@ -342,6 +793,10 @@ export default class Validator {
     return type === TokenType.siopIssuance || type === TokenType.siopPresentationAttestation
   }
 
+  private isSiopType(type: TokenType | undefined) {
+    return type === TokenType.siop || type === TokenType.siopIssuance || type === TokenType.siopPresentationAttestation || type === TokenType.siopPresentationExchange;
+  }
+
   private setValidationResult(queue: ValidationQueue): IValidationResult {
     // get user DID from SIOP or VC
     let did = queue.items.filter((item) => this.isSiop(item.validatedToken?.type)).map((siop) => {
@@ -355,7 +810,7 @@ export default class Validator {
 
     // Set the contract
     const contract = queue.items.filter((item) => this.isSiop(item.validatedToken?.type)).map((siop) => {
-      return (siop.validationResponse as ISiopValidationResponse).payloadObject.contract;
+      return (siop.validationResponse as ISiopValidationResponse).payloadObject?.contract;
     })[0];
 
     // Set the jti
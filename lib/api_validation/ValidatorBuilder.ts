@@ -3,17 +3,32 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { ITokenValidator, Validator, IDidResolver, ManagedHttpResolver, VerifiablePresentationTokenValidator, VerifiableCredentialTokenValidator, IdTokenTokenValidator, SiopTokenValidator, SelfIssuedTokenValidator, TokenType, IValidatorOptions, IRequestor, Requestor } from '../index';
+import { ITokenValidator, Validator, IDidResolver, CompositeResolver, VerifiablePresentationTokenValidator, VerifiableCredentialTokenValidator, IdTokenTokenValidator, SiopTokenValidator, SelfIssuedTokenValidator, TokenType, IValidatorOptions, IRequestor, Requestor, IRequestorPresentationExchange, PresentationDefinitionModel } from '../index';
 import VerifiableCredentialConstants from '../verifiable_credential/VerifiableCredentialConstants';
 import { Crypto } from '../index';
-import { IExpectedIdToken, IExpectedSelfIssued, IExpectedVerifiableCredential, IExpectedVerifiablePresentation, IExpectedSiop, IssuerMap } from '../options/IExpected';
+import ILogger from '../logging/ILogger';
+import NoOpLogger from '../logging/NoOpLogger';
+import RedactingLogger from '../logging/RedactingLogger';
+import IClock from '../options/IClock';
+import SystemClock from '../options/SystemClock';
+import IReplayCache from '../replay/IReplayCache';
+import IRevocationSource from '../revocation/IRevocationSource';
+import IStatusCache from '../status_cache/IStatusCache';
+import IStatusCheckOptions, { StatusTimeoutPolicy } from '../options/IStatusCheckOptions';
+import IDocumentLoader from '../linked_data/IDocumentLoader';
+import AlgorithmPolicy from '../input_validation/AlgorithmPolicy';
+import BundledDocumentLoader from '../linked_data/BundledDocumentLoader';
+import IStatusChecker, { UnknownStatusTypePolicy } from './IStatusChecker';
+import ReceiptStatusChecker from './ReceiptStatusChecker';
+import VerifiableCredentialStatusList from './VerifiableCredentialStatusList';
+import { IExpectedIdToken, IExpectedSelfIssued, IExpectedVerifiableCredential, IExpectedVerifiablePresentation, IExpectedSiop, IExpectedTokenAge, IExpectedLinkedDataProof, IssuerMap } from '../options/IExpected';
 
 /**
  * Class to build a token validator
  */
 export default class ValidatorBuilder {
   private _tokenValidators: ({ [type: string]: ITokenValidator }) | undefined;
-  private _resolver: IDidResolver = new ManagedHttpResolver(VerifiableCredentialConstants.UNIVERSAL_RESOLVER_URL);
+  private _resolver: IDidResolver = CompositeResolver.withLocalMethods(VerifiableCredentialConstants.UNIVERSAL_RESOLVER_URL);
   
   private _trustedIssuersForVerifiableCredentials:  {[credentialType: string]: string[]} | undefined;
   private _trustedIssuerConfigurationsForIdTokens: IssuerMap | undefined;
@@ -21,6 +36,30 @@ export default class ValidatorBuilder {
   private _requestor: Requestor | undefined;
   private _state: string | undefined;
   private _nonce: string | undefined;
+  private _longFormDidUpdateCheck = false;
+  private _diagnosticMode = false;
+  private _legacyPublicKeyDocuments = true;
+  private _allowedAlgorithms: { [tokenType: string]: string[] } = {};
+  private _logger: ILogger = new NoOpLogger();
+  private _clock: IClock | undefined;
+  private _clockSkewInSeconds: number | undefined;
+  private _replayCache: IReplayCache | undefined;
+  private _revocationSource: IRevocationSource | undefined;
+  private _statusCache: IStatusCache | undefined;
+  private _presentationDefinition: PresentationDefinitionModel | undefined;
+  private _documentLoader: IDocumentLoader = new BundledDocumentLoader();
+  private _linkedDataProof: IExpectedLinkedDataProof = {};
+  private _statusCheckers: { [credentialStatusType: string]: IStatusChecker } = ValidatorBuilder.defaultStatusCheckers();
+  private _defaultStatusChecker: IStatusChecker | undefined = new ReceiptStatusChecker();
+  private _unknownStatusTypePolicy = UnknownStatusTypePolicy.fail;
+  private _statusCheckOptions: IStatusCheckOptions = {};
+  private _tokenAges: { [tokenType: string]: IExpectedTokenAge } = {};
+  private _defaultValidators: WeakSet<ITokenValidator> = new WeakSet<ITokenValidator>();
+
+  /**
+   * The token types with an expected lifetime
+   */
+  private static readonly TOKEN_AGE_TYPES = [TokenType.idToken, TokenType.verifiablePresentationJwt, TokenType.siop, TokenType.siopIssuance, TokenType.siopPresentationAttestation, TokenType.siopPresentationExchange];
 
   /**
    * Create a new instance of ValidatorBuilder
@@ -85,6 +124,9 @@ export default class ValidatorBuilder {
     this._requestor = requestor;
     this._audienceUrl = requestor.audienceUrl();
     this._trustedIssuersForVerifiableCredentials = requestor.trustedIssuersForVerifiableCredentials();
+    if (!this._presentationDefinition && requestor.isPresentationExchange()) {
+      this._presentationDefinition = (<IRequestorPresentationExchange>requestor.builder.requestor).presentationDefinition;
+    }
 
     if (!this._state && requestor.builder.state) {
       this._state = requestor.builder.state;
@@ -93,8 +135,16 @@ export default class ValidatorBuilder {
     if (!this._nonce && requestor.builder.nonce) {
       this._nonce = requestor.builder.nonce;
     }
+
+    if (!this._clock && requestor.builder.clock) {
+      this._clock = requestor.builder.clock;
+    }
+
+    if (this._clockSkewInSeconds === undefined && requestor.builder.clockSkewInSeconds !== undefined) {
+      this._clockSkewInSeconds = requestor.builder.clockSkewInSeconds;
+    }
     
-    return this;
+    return this.updateDefaultValidators();
   }
 
   /**
@@ -104,6 +154,27 @@ export default class ValidatorBuilder {
     return this._requestor;
   }
 
+  /**
+   * Gets the presentation definition the presentation submission is checked against
+   */
+  public get presentationDefinition(): PresentationDefinitionModel | undefined {
+    return this._presentationDefinition;
+  }
+
+  /**
+   * Specify the presentation definition of the request.
+   * The definition_id and the descriptor ids of the presentation submission must match the definition.
+   * @param presentationDefinition The presentation definition
+   */
+  public usePresentationDefinition(presentationDefinition: PresentationDefinitionModel): ValidatorBuilder {
+    this._presentationDefinition = presentationDefinition;
+    if (this._tokenValidators && this._tokenValidators[TokenType.siopPresentationExchange]) {
+      // Make sure existing expected gets updated
+      this._tokenValidators[TokenType.siopPresentationExchange] = this.createDefaultValidator(TokenType.siopPresentationExchange, this.validatorOptions);
+    }
+    return this;
+  }
+
   /**
    * Sets the token validator
    * @param validator The token validator
@@ -130,26 +201,121 @@ export default class ValidatorBuilder {
   public get tokenValidators(): { [type: string]: ITokenValidator } {
     // check if default validators need to be instantiated
     if (!this._tokenValidators) {
-      const validatorOptions: IValidatorOptions = {
-        resolver: this.resolver,
-        crypto: this._crypto
-      };
-
-      this._tokenValidators = {
-        selfIssued: new SelfIssuedTokenValidator(validatorOptions, <IExpectedSelfIssued> {type: TokenType.selfIssued}),
-        idToken: new IdTokenTokenValidator(validatorOptions, <IExpectedIdToken> {type: TokenType.idToken, configuration: this._trustedIssuerConfigurationsForIdTokens}),
-        verifiableCredential: new VerifiableCredentialTokenValidator(validatorOptions, <IExpectedVerifiableCredential> {type: TokenType.verifiableCredential, contractIssuers: this._trustedIssuersForVerifiableCredentials}),
-        verifiablePresentationJwt: new VerifiablePresentationTokenValidator(validatorOptions, this.crypto, <IExpectedVerifiablePresentation> {type: TokenType.verifiablePresentationJwt, didAudience: this.crypto.builder.did}),
-        siopPresentationAttestation: new SiopTokenValidator(validatorOptions, <IExpectedSiop> {type: TokenType.siopPresentationAttestation, audience: this._audienceUrl}),
-        siop: new SiopTokenValidator(validatorOptions, <IExpectedSiop> {type: TokenType.siop, audience: this._audienceUrl}),
-        siopPresentationExchange: new SiopTokenValidator(validatorOptions, <IExpectedSiop> {type: TokenType.siopPresentationExchange, audience: this._audienceUrl}),
-        siopIssuance: new SiopTokenValidator(validatorOptions, <IExpectedSiop> {type: TokenType.siopIssuance, audience: this._audienceUrl})
-      };
+      const validatorOptions = this.validatorOptions;
+
+      this._tokenValidators = {};
+      for (const tokenType of [TokenType.selfIssued, TokenType.idToken, TokenType.verifiableCredential, TokenType.verifiablePresentationJwt, TokenType.siopPresentationAttestation, TokenType.siop, TokenType.siopPresentationExchange, TokenType.siopIssuance]) {
+        this._tokenValidators[tokenType] = this.createDefaultValidator(tokenType, validatorOptions);
+      }
     }
 
     return this._tokenValidators;
   }
 
+  /**
+   * Create the default token validator with the expected values of the builder
+   * @param tokenType The token type
+   * @param validatorOptions The validator options
+   */
+  private createDefaultValidator(tokenType: TokenType, validatorOptions: IValidatorOptions): ITokenValidator {
+    const age = this.tokenAge(tokenType);
+    let validator: ITokenValidator;
+    switch (tokenType) {
+      case TokenType.selfIssued:
+        validator = new SelfIssuedTokenValidator(validatorOptions, <IExpectedSelfIssued> {type: TokenType.selfIssued});
+        break;
+      case TokenType.idToken:
+        validator = new IdTokenTokenValidator(validatorOptions, <IExpectedIdToken> {type: TokenType.idToken, configuration: this._trustedIssuerConfigurationsForIdTokens, ...age});
+        break;
+      case TokenType.verifiableCredential:
+        validator = new VerifiableCredentialTokenValidator(validatorOptions, <IExpectedVerifiableCredential> {type: TokenType.verifiableCredential, contractIssuers: this._trustedIssuersForVerifiableCredentials, ...this._linkedDataProof});
+        break;
+      case TokenType.verifiablePresentationJwt:
+        validator = new VerifiablePresentationTokenValidator(validatorOptions, this.crypto, <IExpectedVerifiablePresentation> {type: TokenType.verifiablePresentationJwt, didAudience: this.crypto.builder.did, ...age});
+        break;
+      case TokenType.siopPresentationExchange:
+        validator = new SiopTokenValidator(validatorOptions, <IExpectedSiop> {type: TokenType.siopPresentationExchange, audience: this._audienceUrl, presentationDefinition: this._presentationDefinition, ...age});
+        break;
+      default:
+        validator = new SiopTokenValidator(validatorOptions, <IExpectedSiop> {type: tokenType, audience: this._audienceUrl, ...age});
+    }
+
+    this._defaultValidators.add(validator);
+    return validator;
+  }
+
+  /**
+   * Rebuild the default token validators already created, they copy the validator options when they are created.
+   * Token validators passed to useValidators are kept.
+   */
+  private updateDefaultValidators(): ValidatorBuilder {
+    if (this._tokenValidators) {
+      const validatorOptions = this.validatorOptions;
+      for (const tokenType in this._tokenValidators) {
+        if (this._defaultValidators.has(this._tokenValidators[tokenType])) {
+          this._tokenValidators[tokenType] = this.createDefaultValidator(<TokenType>tokenType, validatorOptions);
+        }
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Gets the expected lifetime of a token type
+   * @param tokenType The token type
+   */
+  public tokenAge(tokenType: TokenType): IExpectedTokenAge {
+    return this._tokenAges[tokenType] || {};
+  }
+
+  /**
+   * Limit the age of tokens based on their iat claim. Tokens without iat are rejected.
+   * @param seconds The maximum age in seconds
+   * @param tokenTypes The SIOP, verifiable presentation or id token types. Defaults to all of them.
+   */
+  public useMaxTokenAge(seconds: number, ...tokenTypes: TokenType[]): ValidatorBuilder {
+    return this.updateTokenAge({ maxAgeInSeconds: seconds }, tokenTypes);
+  }
+
+  /**
+   * Reject tokens without exp claim
+   * @param tokenTypes The SIOP, verifiable presentation or id token types. Defaults to all of them.
+   */
+  public useRequireExpiration(...tokenTypes: TokenType[]): ValidatorBuilder {
+    return this.updateTokenAge({ requireExpiration: true }, tokenTypes);
+  }
+
+  /**
+   * Reject tokens without iat claim
+   * @param tokenTypes The SIOP, verifiable presentation or id token types. Defaults to all of them.
+   */
+  public useRequireIssuedAt(...tokenTypes: TokenType[]): ValidatorBuilder {
+    return this.updateTokenAge({ requireIssuedAt: true }, tokenTypes);
+  }
+
+  /**
+   * Update the expected lifetime of token types and the default validators already created for them
+   * @param age The expected lifetime to merge
+   * @param tokenTypes The token types, all supported token types if empty
+   */
+  private updateTokenAge(age: IExpectedTokenAge, tokenTypes: TokenType[]): ValidatorBuilder {
+    const unsupported = tokenTypes.filter((tokenType) => !ValidatorBuilder.TOKEN_AGE_TYPES.includes(tokenType));
+    if (unsupported.length > 0) {
+      throw new Error(`The token types '${unsupported.join(', ')}' do not support a token age policy`);
+    }
+
+    for (const tokenType of tokenTypes.length > 0 ? tokenTypes : ValidatorBuilder.TOKEN_AGE_TYPES) {
+      this._tokenAges[tokenType] = { ...this._tokenAges[tokenType], ...age };
+      if (this._tokenValidators && this._tokenValidators[tokenType]) {
+        // Make sure existing expected gets updated
+        this._tokenValidators[tokenType] = this.createDefaultValidator(tokenType, this.validatorOptions);
+      }
+    }
+
+    return this;
+  }
+
   /**
    * Gets the resolver
    */
@@ -163,9 +329,241 @@ export default class ValidatorBuilder {
    */
   public useResolver(resolver: IDidResolver): ValidatorBuilder {
     this._resolver = resolver;
+    return this.updateDefaultValidators();
+  }
+
+  /**
+   * Gets true if the network is checked for updates of long-form DIDs
+   */
+  public get longFormDidUpdateCheck(): boolean {
+    return this._longFormDidUpdateCheck;
+  }
+
+  /**
+   * Long-form DIDs are resolved from their initial state.
+   * Enable to also check the resolver for later updates of published long-form DIDs.
+   * @param enable True to check for updates
+   */
+  public useLongFormDidUpdateCheck(enable: boolean): ValidatorBuilder {
+    this._longFormDidUpdateCheck = enable;
+    return this.updateDefaultValidators();
+  }
+
+  /**
+   * Gets true if keys of DID documents without verification relationships are accepted
+   */
+  public get legacyPublicKeyDocuments(): boolean {
+    return this._legacyPublicKeyDocuments;
+  }
+
+  /**
+   * Keys must be listed under assertionMethod to sign verifiable credentials and status receipts,
+   * and under authentication to sign SIOPs and verifiable presentations.
+   * Older DID documents only have publicKey. Disable to reject these documents.
+   * @param enable True to accept the keys of DID documents without verification relationships
+   */
+  public useLegacyPublicKeyDocuments(enable: boolean): ValidatorBuilder {
+    this._legacyPublicKeyDocuments = enable;
+    return this.updateDefaultValidators();
+  }
+
+  /**
+   * Gets the JOSE algorithms allowed for each token type.
+   * Token types without allow-list accept all asymmetric algorithms.
+   */
+  public get allowedAlgorithms(): { [tokenType: string]: string[] } {
+    return this._allowedAlgorithms;
+  }
+
+  /**
+   * Restrict the JOSE algorithms of signed tokens.
+   * none and the HMAC algorithms are always rejected.
+   * @param algorithms The allowed algorithms, e.g. ['ES256K', 'EdDSA']
+   * @param tokenTypes The token types for the allow-list. Defaults to all token types.
+   */
+  public useAllowedAlgorithms(algorithms: string[], ...tokenTypes: TokenType[]): ValidatorBuilder {
+    const unsupported = algorithms.filter((alg) => !AlgorithmPolicy.algorithms[alg]);
+    if (unsupported.length > 0) {
+      throw new Error(`The algorithms '${unsupported.join(', ')}' cannot be used to verify signed tokens`);
+    }
+
+    for (const tokenType of tokenTypes.length > 0 ? tokenTypes : Object.values(TokenType)) {
+      this._allowedAlgorithms[tokenType] = algorithms;
+    }
+
     return this;
   }
 
+  /**
+   * Gets true if the validator reports all failures
+   */
+  public get diagnosticMode(): boolean {
+    return this._diagnosticMode;
+  }
+
+  /**
+   * Keep validating all tokens and all checks after a failure.
+   * The response contains a report of all failures for each token.
+   * Use for troubleshooting, not in production.
+   * @param enable True to enable diagnostic mode
+   */
+  public useDiagnosticMode(enable: boolean): ValidatorBuilder {
+    this._diagnosticMode = enable;
+    return this.updateDefaultValidators();
+  }
+
+  /**
+   * Gets the logger
+   */
+  public get logger(): ILogger {
+    return this._logger;
+  }
+
+  /**
+   * Specify the logger of the validator.
+   * Token bodies are redacted before the entries are passed to the logger.
+   * @param logger The logger
+   */
+  public useLogger(logger: ILogger): ValidatorBuilder {
+    this._logger = new RedactingLogger(logger);
+    return this.updateDefaultValidators();
+  }
+
+  /**
+   * Gets the clock used for the time checks
+   */
+  public get clock(): IClock {
+    return this._clock || new SystemClock();
+  }
+
+  /**
+   * Specify the clock used for the time checks
+   * @param clock The source of the current time
+   */
+  public useClock(clock: IClock): ValidatorBuilder {
+    this._clock = clock;
+    return this.updateDefaultValidators();
+  }
+
+  /**
+   * Gets the tolerance for clock drifts in seconds
+   */
+  public get clockSkewInSeconds(): number {
+    return this._clockSkewInSeconds ?? VerifiableCredentialConstants.DEFAULT_CLOCK_SKEW_IN_SECONDS;
+  }
+
+  /**
+   * Specify the tolerance for clock drifts used by all time checks
+   * @param seconds The tolerance in seconds
+   */
+  public useClockSkew(seconds: number): ValidatorBuilder {
+    this._clockSkewInSeconds = seconds;
+    return this.updateDefaultValidators();
+  }
+
+  /**
+   * Gets the replay cache, undefined if replays are not checked
+   */
+  public get replayCache(): IReplayCache | undefined {
+    return this._replayCache;
+  }
+
+  /**
+   * Specify the replay cache. The jti of the SIOP and of the verifiable presentations
+   * and the nonce can only be used once.
+   * Values of tokens without exp or maximum age are only remembered for a day, see useRequireExpiration and useMaxTokenAge.
+   * @param replayCache The store of used values
+   */
+  public useReplayCache(replayCache: IReplayCache): ValidatorBuilder {
+    this._replayCache = replayCache;
+    return this;
+  }
+
+  /**
+   * Gets the source of revoked verifiable credentials, undefined if not configured
+   */
+  public get revocationSource(): IRevocationSource | undefined {
+    return this._revocationSource;
+  }
+
+  /**
+   * Specify the source of revoked verifiable credentials.
+   * Verifiable credentials revoked before the presentation are rejected.
+   * @param revocationSource The revocation source
+   */
+  public useRevocationSource(revocationSource: IRevocationSource): ValidatorBuilder {
+    this._revocationSource = revocationSource;
+    return this;
+  }
+
+  /**
+   * Gets the cache of the statuses in status receipts, undefined if statuses are not cached
+   */
+  public get statusCache(): IStatusCache | undefined {
+    return this._statusCache;
+  }
+
+  /**
+   * Specify the cache of the statuses in status receipts.
+   * A status is used until the receipt expires, at most for maxStalenessInSeconds of the status check options.
+   * @param statusCache The status cache
+   */
+  public useStatusCache(statusCache: IStatusCache): ValidatorBuilder {
+    this._statusCache = statusCache;
+    return this;
+  }
+
+  /**
+   * Gets the loader for the JSON-LD contexts used to verify Linked Data proofs
+   */
+  public get documentLoader(): IDocumentLoader {
+    return this._documentLoader;
+  }
+
+  /**
+   * Specify the loader for the JSON-LD contexts. Defaults to the bundled W3C contexts without network access.
+   * @param documentLoader The document loader
+   */
+  public useDocumentLoader(documentLoader: IDocumentLoader): ValidatorBuilder {
+    this._documentLoader = documentLoader;
+    return this.updateDefaultValidators();
+  }
+
+  /**
+   * Gets the expected options of the Linked Data proof on JSON-LD credentials
+   */
+  public get linkedDataProof(): IExpectedLinkedDataProof {
+    return this._linkedDataProof;
+  }
+
+  /**
+   * Specify the expected proof purpose, domain and challenge of the Linked Data proof on JSON-LD credentials.
+   * Options which are not set are not checked.
+   * @param linkedDataProof The expected proof options
+   */
+  public useLinkedDataProof(linkedDataProof: IExpectedLinkedDataProof): ValidatorBuilder {
+    this._linkedDataProof = linkedDataProof;
+    return this.updateDefaultValidators();
+  }
+
+  /**
+   * Gets the options passed to the validations
+   */
+  public get validatorOptions(): IValidatorOptions {
+    return {
+      resolver: this.resolver,
+      crypto: this._crypto,
+      longFormDidUpdateCheck: this._longFormDidUpdateCheck,
+      diagnosticMode: this._diagnosticMode,
+      logger: this._logger,
+      clock: this.clock,
+      clockSkewInSeconds: this.clockSkewInSeconds,
+      documentLoader: this._documentLoader,
+      legacyPublicKeyDocuments: this._legacyPublicKeyDocuments,
+      allowedAlgorithms: this._allowedAlgorithms
+    };
+  }
+
   /**
    * Specify the trusted issuer for the verifiable credentialsrush rebuild
    * 
@@ -177,12 +575,7 @@ export default class ValidatorBuilder {
       // Make sure existing expected gets updated
       const vcValidator = this._tokenValidators[TokenType.verifiableCredential];
       if (vcValidator) {
-        const validatorOptions: IValidatorOptions = {
-          resolver: this.resolver,
-          crypto: this._crypto
-        };
-        const expected: IExpectedVerifiableCredential = {type: TokenType.verifiableCredential, contractIssuers: issuers};
-        this._tokenValidators[TokenType.verifiableCredential] = new VerifiableCredentialTokenValidator(validatorOptions, expected);
+        this._tokenValidators[TokenType.verifiableCredential] = this.createDefaultValidator(TokenType.verifiableCredential, this.validatorOptions);
       }
     }
     return this;
@@ -206,12 +599,7 @@ export default class ValidatorBuilder {
       // Make sure existing expected gets updated
       const idtokenValidator = this._tokenValidators[TokenType.idToken];
       if (idtokenValidator) {
-        const validatorOptions: IValidatorOptions = {
-          resolver: this.resolver,
-          crypto: this._crypto
-        };
-        const expected: IExpectedIdToken = {type: TokenType.idToken, configuration: issuers};
-        this._tokenValidators[TokenType.idToken] = new IdTokenTokenValidator(validatorOptions, expected);
+        this._tokenValidators[TokenType.idToken] = this.createDefaultValidator(TokenType.idToken, this.validatorOptions);
       }
     }
     return this;
@@ -242,12 +630,108 @@ export default class ValidatorBuilder {
     return this._audienceUrl;
   }
 
+  /**
+   * Gets the status checkers keyed by the credentialStatus type they check
+   */
+  public get statusCheckers(): { [credentialStatusType: string]: IStatusChecker } {
+    return this._statusCheckers;
+  }
+
+  /**
+   * Register the status checker for a credentialStatus type.
+   * Replaces the status checker of the type, including the status receipt and status list checkers.
+   * @param credentialStatusType The type of the credentialStatus of the verifiable credentials
+   * @param statusChecker The status checker
+   */
+  public useStatusChecker(credentialStatusType: string, statusChecker: IStatusChecker): ValidatorBuilder {
+    this._statusCheckers[credentialStatusType] = statusChecker;
+    return this;
+  }
+
+  /**
+   * Gets the status checker for the credentialStatus entries with an id and a type without registered status checker
+   */
+  public get defaultStatusChecker(): IStatusChecker | undefined {
+    return this._defaultStatusChecker;
+  }
+
+  /**
+   * Specify the status checker for the credentialStatus entries with an id and a type without registered status checker.
+   * The status receipt checker is used by default, undefined applies the unknown status type policy to these entries.
+   * @param statusChecker The status checker
+   */
+  public useDefaultStatusChecker(statusChecker: IStatusChecker | undefined): ValidatorBuilder {
+    this._defaultStatusChecker = statusChecker;
+    return this;
+  }
+
+  /**
+   * Gets the policy for credentialStatus types without status checker
+   */
+  public get unknownStatusTypePolicy(): UnknownStatusTypePolicy {
+    return this._unknownStatusTypePolicy;
+  }
+
+  /**
+   * Specify the policy for credentialStatus types without status checker nor default status checker. Verifiable credentials fail by default.
+   * @param policy The policy
+   */
+  public useUnknownStatusTypePolicy(policy: UnknownStatusTypePolicy): ValidatorBuilder {
+    this._unknownStatusTypePolicy = policy;
+    return this;
+  }
+
+  /**
+   * Gets the options of the status requests, completed with the defaults
+   */
+  public get statusCheckOptions(): IStatusCheckOptions {
+    return {
+      timeoutInMilliseconds: this._statusCheckOptions.timeoutInMilliseconds ?? VerifiableCredentialConstants.DEFAULT_STATUS_TIMEOUT_IN_MILLISECONDS,
+      maxRetries: this._statusCheckOptions.maxRetries ?? VerifiableCredentialConstants.DEFAULT_STATUS_MAX_RETRIES,
+      retryDelayInMilliseconds: this._statusCheckOptions.retryDelayInMilliseconds ?? VerifiableCredentialConstants.DEFAULT_STATUS_RETRY_DELAY_IN_MILLISECONDS,
+      timeoutPolicy: this._statusCheckOptions.timeoutPolicy ?? StatusTimeoutPolicy.fail,
+      maxStalenessInSeconds: this._statusCheckOptions.maxStalenessInSeconds ?? VerifiableCredentialConstants.DEFAULT_STATUS_MAX_STALENESS_IN_SECONDS
+    };
+  }
+
+  /**
+   * Specify the timeout, the retries and the timeout policy of the status requests
+   * @param options The options, unspecified options keep their default
+   */
+  public useStatusCheckOptions(options: IStatusCheckOptions): ValidatorBuilder {
+    this._statusCheckOptions = options;
+    return this;
+  }
+
+  /**
+   * The status checkers registered on a new builder
+   */
+  private static defaultStatusCheckers(): { [credentialStatusType: string]: IStatusChecker } {
+    const statusList = new VerifiableCredentialStatusList();
+    const statusCheckers: { [credentialStatusType: string]: IStatusChecker } = {
+      [ReceiptStatusChecker.CREDENTIAL_STATUS_TYPE]: new ReceiptStatusChecker()
+    };
+    for (const entryType in VerifiableCredentialStatusList.ENTRY_TYPES) {
+      statusCheckers[entryType] = statusList;
+    }
+
+    return statusCheckers;
+  }
+
   // Feature flags. Used temporary to introduce a new feature
   private _enableVerifiedCredentialsStatusCheck = true;
+
+  /**
+   * @deprecated Status checks are configured with useStatusChecker and useUnknownStatusTypePolicy
+   */
   public get featureVerifiedCredentialsStatusCheckEnabled(): boolean {
     return this._enableVerifiedCredentialsStatusCheck;
   }
 
+  /**
+   * Enable or disable the credentialStatus checks. The revocation source is checked in both cases.
+   * @deprecated Status checks are configured with useStatusChecker and useUnknownStatusTypePolicy
+   */
   public enableFeatureVerifiedCredentialsStatusCheck(enable: boolean): ValidatorBuilder {
     this._enableVerifiedCredentialsStatusCheck = enable;
     return this;
@@ -0,0 +1,242 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { IValidationResponse, TokenType, ClaimToken, ValidationErrorCode, IExpectedVerifiableCredential, IVerifiablePresentationStatus, ValidationOptions, ValidatorBuilder } from '../index';
+import { VerifiableCredentialValidation } from '../input_validation/VerifiableCredentialValidation';
+import base64url from 'base64url';
+import { gunzipSync, ZlibOptions } from 'zlib';
+import IStatusChecker from './IStatusChecker';
+import StatusRequest from './StatusRequest';
+
+/**
+ * Class to check the status of a verifiable credential in a status list credential.
+ * The status list credential is fetched, validated as a verifiable credential of the same issuer,
+ * and the bits at the index of the status entry give the status of the credential.
+ */
+export default class VerifiableCredentialStatusList implements IStatusChecker {
+  /**
+   * The supported status entry types with the type of their status list
+   */
+  public static readonly ENTRY_TYPES: { [entryType: string]: string } = {
+    StatusList2021Entry: 'StatusList2021',
+    BitstringStatusListEntry: 'BitstringStatusList'
+  };
+
+  /**
+   * Maximum size in bytes of a decompressed status list, the lists are at least 16 KB
+   */
+  public static readonly MAX_LIST_SIZE_IN_BYTES = 16 * 1024 * 1024;
+
+  /**
+   * Check the status list entry of the verifiable credential
+   * @param credentialStatus The status list entry
+   * @param verifiableCredential The verifiable credential
+   * @param _verifiablePresentation The verifiable presentation with the verifiable credential
+   * @param builder The configuration of the validator
+   * @returns The status of the verifiable credential keyed by its id
+   */
+  public async check(credentialStatus: any, verifiableCredential: ClaimToken, _verifiablePresentation: ClaimToken, builder: ValidatorBuilder): Promise<IValidationResponse> {
+    const isJwt = !!verifiableCredential.decodedToken.vc;
+    const tokenId = isJwt ? verifiableCredential.decodedToken.jti : verifiableCredential.decodedToken.id;
+    const issuer = VerifiableCredentialStatusList.getIssuer(isJwt ? verifiableCredential.decodedToken.iss : verifiableCredential.decodedToken.issuer);
+    const claimPath = isJwt ? '$.vc.credentialStatus' : '$.credentialStatus';
+    return this.validateEntry(builder, credentialStatus, issuer, tokenId, claimPath);
+  }
+
+  /**
+   * Check the status of a single status list entry
+   * @param builder The configuration of the validator
+   * @param entry The status list entry
+   * @param issuer The issuer of the verifiable credential
+   * @param tokenId The id of the verifiable credential
+   * @param claimPath The path of the credentialStatus in the verifiable credential
+   */
+  private async validateEntry(builder: ValidatorBuilder, entry: any, issuer: string, tokenId: string, claimPath: string): Promise<IValidationResponse> {
+    const options = new ValidationOptions({ ...builder.validatorOptions, diagnosticMode: false }, TokenType.verifiableCredential);
+    const statusListType = VerifiableCredentialStatusList.ENTRY_TYPES[entry.type];
+    const index = Number(entry.statusListIndex);
+    const size = entry.statusSize === undefined ? 1 : Number(entry.statusSize);
+    if (typeof entry.statusListCredential !== 'string' || !entry.statusPurpose || !Number.isInteger(index) || index < 0 || !Number.isInteger(size) || size < 1) {
+      return {
+        result: false,
+        status: 403,
+        detailedError: `The ${entry.type} needs a statusPurpose, a statusListCredential and a non negative statusListIndex`,
+        code: ValidationErrorCode.statusCheckFailed,
+        claimPath
+      };
+    }
+
+    const statusListUrl: string = entry.statusListCredential;
+    options.logger.debug('Verifiable credential status list check', { statusListUrl, issuer });
+    const response = await StatusRequest.fetch(statusListUrl, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/vc+ld+json, application/vc+jwt, application/json'
+      }
+    }, builder);
+    if (!response.ok) {
+      return {
+        result: false,
+        status: 403,
+        detailedError: `status check could not fetch the status list credential from ${statusListUrl} with status ${response.status}`,
+        code: ValidationErrorCode.statusCheckFailed,
+        claimPath: `${claimPath}.statusListCredential`
+      };
+    }
+
+    // The status list credential is a JWT or a JSON-LD credential
+    const body = (await response.text()).trim();
+    let statusListCredential: string | object;
+    let statusListToken: ClaimToken;
+    try {
+      statusListCredential = body.startsWith('{') ? JSON.parse(body) : body;
+      statusListToken = ClaimToken.create(statusListCredential);
+    } catch (exception) {
+      return this.invalidStatusList(`The status list credential from ${statusListUrl} could not be parsed`, claimPath);
+    }
+
+    // Validate as the presented credentials, status lists are not bound to a presenter so their own subject is expected
+    const statusListPayload = statusListToken.decodedToken.vc || statusListToken.decodedToken;
+    const subject = statusListToken.decodedToken.sub || statusListPayload?.credentialSubject?.id;
+    const validation = new VerifiableCredentialValidation(options, <IExpectedVerifiableCredential>{ type: TokenType.verifiableCredential });
+    const validationResponse = await StatusRequest.exclusive(builder, () => validation.validate(statusListCredential, subject));
+    if (!validationResponse.result) {
+      return this.invalidStatusList(`The status list credential from ${statusListUrl} is invalid: ${validationResponse.detailedError}`, claimPath, validationResponse.innerError);
+    }
+
+    const statusListIssuer = VerifiableCredentialStatusList.getIssuer(validationResponse.issuer);
+    if (statusListIssuer !== issuer) {
+      return this.invalidStatusList(`The status list credential from ${statusListUrl} is issued by '${statusListIssuer}'. Expected '${issuer}'`, claimPath);
+    }
+
+    const statusList = validationResponse.payloadObject;
+    const types: string[] = Array.isArray(statusList.type) ? statusList.type : [statusList.type];
+    const purposes: string[] = Array.isArray(statusList.credentialSubject?.statusPurpose) ? statusList.credentialSubject.statusPurpose : [statusList.credentialSubject?.statusPurpose];
+    if (!types.includes(`${statusListType}Credential`) || statusList.credentialSubject.type !== statusListType) {
+      return this.invalidStatusList(`The status list credential from ${statusListUrl} is not a ${statusListType}Credential`, claimPath);
+    }
+
+    if (!purposes.includes(entry.statusPurpose)) {
+      return this.invalidStatusList(`The status list credential from ${statusListUrl} has statusPurpose '${purposes}'. Expected '${entry.statusPurpose}'`, claimPath);
+    }
+
+    let bitstring: Buffer;
+    try {
+      bitstring = VerifiableCredentialStatusList.decodeList(statusList.credentialSubject.encodedList, statusListType);
+    } catch (exception) {
+      return this.invalidStatusList(`The encodedList of the status list credential from ${statusListUrl} could not be decoded`, claimPath);
+    }
+
+    if ((index + 1) * size > bitstring.length * 8) {
+      return this.invalidStatusList(`The statusListIndex ${index} is out of range of the status list credential from ${statusListUrl}`, claimPath);
+    }
+
+    const value = VerifiableCredentialStatusList.getStatus(bitstring, index, size);
+    const status = VerifiableCredentialStatusList.toStatus(entry, value);
+    const message = (entry.statusMessage || []).find((statusMessage: any) => parseInt(statusMessage.status, 16) === value);
+    const verifiablePresentationStatus = <IVerifiablePresentationStatus>{
+      id: tokenId,
+      status,
+      reason: message?.message,
+      passed: status !== 'revoked' && status !== 'suspended',
+      token: statusListToken
+    };
+
+    if (!verifiablePresentationStatus.passed) {
+      return {
+        result: false,
+        status: 403,
+        detailedError: `The status list check for '${tokenId}' failed with status ${status}.`,
+        code: status === 'revoked' ? ValidationErrorCode.credentialRevoked : ValidationErrorCode.credentialSuspended,
+        claimPath: `${claimPath}.statusListIndex`,
+        validationResult: { verifiablePresentationStatus: { [tokenId]: verifiablePresentationStatus } }
+      };
+    }
+
+    return {
+      result: true,
+      status: 200,
+      validationResult: { verifiablePresentationStatus: { [tokenId]: verifiablePresentationStatus } }
+    };
+  }
+
+  /**
+   * Decode and decompress the encoded list of a status list.
+   * StatusList2021 uses base64url, BitstringStatusList a base64url multibase value.
+   * @param encodedList The GZIP compressed bitstring
+   * @param statusListType The type of the status list
+   */
+  public static decodeList(encodedList: string, statusListType: string): Buffer {
+    if (statusListType === 'BitstringStatusList') {
+      if (!encodedList.startsWith('u')) {
+        throw new Error('The encodedList is not a base64url multibase value');
+      }
+
+      encodedList = encodedList.substring(1);
+    }
+
+    // Limit the output of lists decompressing to a huge size, the Node.js typings of the repo lack maxOutputLength
+    return gunzipSync(base64url.toBuffer(encodedList), <ZlibOptions>{ maxOutputLength: VerifiableCredentialStatusList.MAX_LIST_SIZE_IN_BYTES });
+  }
+
+  /**
+   * Get the status at the index in the bitstring. The first index is the left most bit of the first byte.
+   * @param bitstring The decoded bitstring
+   * @param index The index of the status
+   * @param size The number of bits of a status
+   */
+  public static getStatus(bitstring: Buffer, index: number, size: number = 1): number {
+    let value = 0;
+    for (let bit = index * size; bit < (index + 1) * size; bit++) {
+      value = (value << 1) | ((bitstring[Math.floor(bit / 8)] >> (7 - (bit % 8))) & 1);
+    }
+
+    return value;
+  }
+
+  /**
+   * Get the status of the credential from the value in the status list
+   * @param entry The status list entry
+   * @param value The value in the status list
+   */
+  private static toStatus(entry: any, value: number): string {
+    if (value === 0) {
+      return 'valid';
+    }
+
+    switch (entry.statusPurpose) {
+      case 'revocation':
+        return 'revoked';
+      case 'suspension':
+        return 'suspended';
+      default:
+        return `0x${value.toString(16)}`;
+    }
+  }
+
+  /**
+   * Get the id of the issuer, the issuer of a JSON-LD credential can be an object
+   * @param issuer The issuer claim
+   */
+  private static getIssuer(issuer: any): string {
+    return typeof issuer === 'object' ? issuer?.id : issuer;
+  }
+
+  /**
+   * Create the failed response for an invalid status list credential
+   * @param detailedError The error
+   * @param claimPath The path of the credentialStatus in the verifiable credential
+   * @param innerError The error of the status list credential validation
+   */
+  private invalidStatusList(detailedError: string, claimPath: string, innerError?: any): IValidationResponse {
+    return {
+      result: false,
+      status: 403,
+      detailedError,
+      code: ValidationErrorCode.invalidStatusList,
+      innerError,
+      claimPath: `${claimPath}.statusListCredential`
+    };
+  }
+}
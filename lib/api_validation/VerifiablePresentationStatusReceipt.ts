@@ -2,7 +2,7 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import { IValidationResponse, IValidationOptions, TokenType, ValidatorBuilder, DidValidation, IExpectedStatusReceipt, ClaimToken } from '../index';
+import { IValidationResponse, IValidationOptions, TokenType, ValidatorBuilder, DidValidation, IExpectedStatusReceipt, ClaimToken, ValidationErrorCode } from '../index';
 
 export interface IVerifiablePresentationStatus {
     id: string;
@@ -32,7 +32,9 @@ export default class VerifiablePresentationStatusReceipt {
             return {
                 result: false,
                 status: 403,
-                detailedError: 'The status receipt is missing receipt'
+                detailedError: 'The status receipt is missing receipt',
+                code: ValidationErrorCode.invalidStatusReceipt,
+                claimPath: '$.receipt'
             }
         }
 
@@ -51,7 +53,9 @@ export default class VerifiablePresentationStatusReceipt {
                 return {
                     result: false,
                     status: 403,
-                    detailedError: `The status receipt aud '${receiptResponse.payloadObject.aud}' is wrong. Expected '${this.expected.didAudience}'`
+                    detailedError: `The status receipt aud '${receiptResponse.payloadObject.aud}' is wrong. Expected '${this.expected.didAudience}'`,
+                    code: ValidationErrorCode.invalidStatusReceipt,
+                    claimPath: '$.aud'
                 }
             }
 
@@ -60,7 +64,9 @@ export default class VerifiablePresentationStatusReceipt {
                 return {
                     result: false,
                     status: 403,
-                    detailedError: `The status receipt iss '${receiptResponse.issuer}' is wrong. Expected '${this.expected.didIssuer}'`
+                    detailedError: `The status receipt iss '${receiptResponse.issuer}' is wrong. Expected '${this.expected.didIssuer}'`,
+                    code: ValidationErrorCode.invalidStatusReceipt,
+                    claimPath: '$.iss'
                 }
             }
 
@@ -73,11 +79,7 @@ export default class VerifiablePresentationStatusReceipt {
             };
 
             if (!this.verifiablePresentationStatus![jti].passed) {
-                return {
-                    result: false,
-                    status: 403,
-                    detailedError: `The status receipt for jti '${jti}' failed with status ${this.verifiablePresentationStatus![jti].status}.`
-                }
+                return VerifiablePresentationStatusReceipt.failedStatus(this.verifiablePresentationStatus![jti]);
             }
         }
 
@@ -87,4 +89,20 @@ export default class VerifiablePresentationStatusReceipt {
             validationResult: { verifiablePresentationStatus: this.verifiablePresentationStatus }
         };
     }
+
+    /**
+     * Create the validation response for a status which did not pass
+     * @param status The status of the verifiable credential
+     */
+    public static failedStatus(status: IVerifiablePresentationStatus): IValidationResponse {
+        return {
+            result: false,
+            status: 403,
+            detailedError: `The status receipt for jti '${status.id}' failed with status ${status.status}.`,
+            code: ValidationErrorCode.credentialRevoked,
+            tokenType: TokenType.verifiableCredential,
+            tokenId: status.id,
+            claimPath: '$.credentialStatus.status'
+        };
+    }
 }
\ No newline at end of file
@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { TokenType, IExpectedVerifiablePresentation, ITokenValidator, ClaimToken, VerifiableCredentialValidation } from '../index';
-import { IValidationResponse } from '../input_validation/IValidationResponse';
+import { IValidationResponse, ValidationErrorCode } from '../input_validation/IValidationResponse';
 import ValidationOptions from '../options/ValidationOptions';
 import { VerifiablePresentationValidation } from '../input_validation/VerifiablePresentationValidation';
 import IValidatorOptions from '../options/IValidatorOptions';
@@ -53,7 +53,9 @@ export default class VerifiablePresentationTokenValidator implements ITokenValid
       return {
         result: false,
         status: 403,
-        detailedError: 'No verifiable credential'
+        detailedError: 'No verifiable credential',
+        code: ValidationErrorCode.missingClaim,
+        claimPath: '$.vp.verifiableCredential'
       };
     }
 
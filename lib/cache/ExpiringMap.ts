@@ -0,0 +1,101 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import IClock from '../options/IClock';
+import SystemClock from '../options/SystemClock';
+
+/**
+ * Bounded map keeping its values until they expire.
+ * Values are never evicted before they expire, new values are refused while the map is full.
+ * @class
+ */
+export default class ExpiringMap<T> {
+  private readonly _clock: IClock;
+  private _entries: Map<string, { value: T, expiry: number }> = new Map<string, { value: T, expiry: number }>();
+
+  /**
+   * Create a new instance of <see @class ExpiringMap>
+   * @param _maxEntries Maximum number of values kept in the map
+   * @param clock The source of the current time for the expiry of the values
+   */
+  constructor(private readonly _maxEntries: number, clock?: IClock) {
+    this._clock = clock || new SystemClock();
+  }
+
+  /**
+   * Gets the number of values in the map, including expired values which are not purged yet
+   */
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Gets the current epoch time in seconds
+   */
+  public current(): number {
+    return Math.trunc(this._clock.now() / 1000);
+  }
+
+  /**
+   * Get a value which is not expired
+   * @param key The key of the value
+   * @returns The value, undefined if unknown or expired
+   */
+  public get(key: string): T | undefined {
+    const entry = this._entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiry <= this.current()) {
+      this._entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  /**
+   * Get a value which is not expired and remove it from the map
+   * @param key The key of the value
+   * @returns The value, undefined if unknown or expired
+   */
+  public take(key: string): T | undefined {
+    const value = this.get(key);
+    this._entries.delete(key);
+    return value;
+  }
+
+  /**
+   * Set a value, replacing the value of the same key
+   * @param key The key of the value
+   * @param value The value
+   * @param expiry Epoch time in seconds after which the value is removed
+   * @returns False if the map is full with values which are not expired
+   */
+  public set(key: string, value: T, expiry: number): boolean {
+    // The value of an existing key is replaced in its own slot
+    if (!this._entries.has(key) && this._entries.size >= this._maxEntries) {
+      this.purge();
+      if (this._entries.size >= this._maxEntries) {
+        return false;
+      }
+    }
+
+    this._entries.set(key, { value, expiry });
+    return true;
+  }
+
+  /**
+   * Remove the expired values
+   */
+  private purge(): void {
+    const current = this.current();
+    for (const [key, entry] of this._entries) {
+      if (entry.expiry <= current) {
+        this._entries.delete(key);
+      }
+    }
+  }
+}
@@ -5,11 +5,23 @@
 
 export { DidDocument, IDidDocument, IDidDocumentPublicKey, IDidDocumentServiceDescriptor, IDidResolver, IDidResolveResult } from '@decentralized-identity/did-common-typescript';
 
-import {IExpectedStatusReceipt, IExpectedBase, IExpectedSiop, IExpectedVerifiablePresentation, IExpectedVerifiableCredential, IExpectedSelfIssued, IExpectedIdToken, IExpectedOpenIdToken, IExpectedAudience, IssuerMap} from './options/IExpected';
-export { IExpectedStatusReceipt, IExpectedBase, IExpectedSiop, IExpectedVerifiablePresentation, IExpectedVerifiableCredential, IExpectedSelfIssued, IExpectedIdToken, IExpectedOpenIdToken, IExpectedAudience, IssuerMap };
+import {IExpectedStatusReceipt, IExpectedTokenAge, IExpectedLinkedDataProof, IExpectedBase, IExpectedSiop, IExpectedVerifiablePresentation, IExpectedVerifiableCredential, IExpectedSelfIssued, IExpectedIdToken, IExpectedOpenIdToken, IExpectedAudience, IssuerMap} from './options/IExpected';
+export { IExpectedStatusReceipt, IExpectedTokenAge, IExpectedLinkedDataProof, IExpectedBase, IExpectedSiop, IExpectedVerifiablePresentation, IExpectedVerifiableCredential, IExpectedSelfIssued, IExpectedIdToken, IExpectedOpenIdToken, IExpectedAudience, IssuerMap };
 
-import ManagedHttpResolver from './resolver/ManagedHttpResolver';
-export { ManagedHttpResolver };
+import ManagedHttpResolver, { DidNotFoundError } from './resolver/ManagedHttpResolver';
+import CachingResolver, { ICachingResolverOptions, IDidResolveResultWithCacheHints, IResolverCacheHints } from './resolver/CachingResolver';
+import DidKeyResolver from './resolver/DidKeyResolver';
+import DidJwkResolver from './resolver/DidJwkResolver';
+import DidWebResolver from './resolver/DidWebResolver';
+import LongFormIonResolver from './resolver/LongFormIonResolver';
+import CompositeResolver from './resolver/CompositeResolver';
+export { ManagedHttpResolver, DidNotFoundError, CachingResolver, ICachingResolverOptions, IDidResolveResultWithCacheHints, IResolverCacheHints, DidKeyResolver, DidJwkResolver, DidWebResolver, LongFormIonResolver, CompositeResolver };
+
+import ILogger, { ILogFields, LogLevel } from './logging/ILogger';
+import NoOpLogger from './logging/NoOpLogger';
+import ConsoleLogger from './logging/ConsoleLogger';
+import RedactingLogger from './logging/RedactingLogger';
+export { ILogger, ILogFields, LogLevel, NoOpLogger, ConsoleLogger, RedactingLogger };
 
 import ClaimToken, { TokenType } from './verifiable_credential/ClaimToken';
 export { TokenType, ClaimToken };
@@ -20,16 +32,29 @@ import VerifiableCredentialTokenValidator from './api_validation/VerifiableCrede
 import VerifiablePresentationTokenValidator from './api_validation/VerifiablePresentationTokenValidator';
 import Validator from './api_validation/Validator';
 import IValidationResult from './api_validation/IValidationResult';
+import ITokenValidationReport from './api_validation/ITokenValidationReport';
 import ValidatorBuilder from './api_validation/ValidatorBuilder';
 import SelfIssuedTokenValidator from './api_validation/SelfIssuedTokenValidator';
 import SiopTokenValidator from './api_validation/SiopTokenValidator';
-export { IValidationResult, SelfIssuedTokenValidator, SiopTokenValidator, VerifiablePresentationTokenValidator, VerifiableCredentialTokenValidator, IdTokenTokenValidator, Validator, ValidatorBuilder, ITokenValidator };
+export { IValidationResult, ITokenValidationReport, SelfIssuedTokenValidator, SiopTokenValidator, VerifiablePresentationTokenValidator, VerifiableCredentialTokenValidator, IdTokenTokenValidator, Validator, ValidatorBuilder, ITokenValidator };
 
 import { IValidationOptions } from './options/IValidationOptions';
 import IValidatorOptions from './options/IValidatorOptions';
 import ValidationOptions from './options/ValidationOptions';
 import BasicValidatorOptions from './options/BasicValidatorOptions';
-export { ValidationOptions, IValidationOptions, IValidatorOptions, BasicValidatorOptions };
+import IClock from './options/IClock';
+import SystemClock from './options/SystemClock';
+import IStatusCheckOptions, { StatusTimeoutPolicy } from './options/IStatusCheckOptions';
+export { ValidationOptions, IValidationOptions, IValidatorOptions, BasicValidatorOptions, IClock, SystemClock, IStatusCheckOptions, StatusTimeoutPolicy };
+
+import IReplayCache, { IReplayValue } from './replay/IReplayCache';
+import InMemoryReplayCache, { IInMemoryReplayCacheOptions } from './replay/InMemoryReplayCache';
+export { IReplayCache, IReplayValue, InMemoryReplayCache, IInMemoryReplayCacheOptions };
+
+import IDocumentLoader, { IRemoteDocument } from './linked_data/IDocumentLoader';
+import BundledDocumentLoader from './linked_data/BundledDocumentLoader';
+import LinkedDataProofVerifier from './linked_data/LinkedDataProofVerifier';
+export { IDocumentLoader, IRemoteDocument, BundledDocumentLoader, LinkedDataProofVerifier };
 
 import TestSetup from '../tests/TestSetup';
 import { IssuanceHelpers } from '../tests/IssuanceHelpers';
@@ -39,7 +64,7 @@ import { IssuanceHelpers } from '../tests/IssuanceHelpers';
 export { TestSetup, IssuanceHelpers }
 
 import { IdTokenValidationResponse } from './input_validation/IdTokenValidationResponse';
-import { IValidationResponse } from './input_validation/IValidationResponse';
+import { IValidationResponse, ValidationErrorCode } from './input_validation/IValidationResponse';
 import { ISiopValidationResponse } from './input_validation/SiopValidationResponse';
 import { IdTokenValidation } from './input_validation/IdTokenValidation';
 import { BaseIdTokenValidation } from './input_validation/BaseIdTokenValidation';
@@ -49,18 +74,37 @@ import { DidValidation } from './input_validation/DidValidation'
 import { SiopValidation } from './input_validation/SiopValidation'
 import { VerifiableCredentialValidation } from './input_validation/VerifiableCredentialValidation';
 import VerifiablePresentationStatusReceipt, { IVerifiablePresentationStatus }  from './api_validation/VerifiablePresentationStatusReceipt';
-export { VerifiablePresentationStatusReceipt, IVerifiablePresentationStatus, IValidationResponse, IdTokenValidationResponse, ISiopValidationResponse, IdTokenValidation, VerifiablePresentationValidation, DidValidation, SiopValidation, VerifiableCredentialValidation, BaseIdTokenValidation, OpenIdTokenValidation };
+import VerifiableCredentialStatusList from './api_validation/VerifiableCredentialStatusList';
+import IStatusChecker, { UnknownStatusTypePolicy } from './api_validation/IStatusChecker';
+import ReceiptStatusChecker from './api_validation/ReceiptStatusChecker';
+import StatusRequest, { StatusTimeoutError } from './api_validation/StatusRequest';
+export { VerifiablePresentationStatusReceipt, VerifiableCredentialStatusList, IStatusChecker, UnknownStatusTypePolicy, ReceiptStatusChecker, StatusRequest, StatusTimeoutError, IVerifiablePresentationStatus, IValidationResponse, ValidationErrorCode, IdTokenValidationResponse, ISiopValidationResponse, IdTokenValidation, VerifiablePresentationValidation, DidValidation, SiopValidation, VerifiableCredentialValidation, BaseIdTokenValidation, OpenIdTokenValidation };
 
 import IRevocedCard from './revocation/IRevokedCard';
-export { IRevocedCard };
+import IRevocationSource from './revocation/IRevocationSource';
+import InMemoryRevocationSource from './revocation/InMemoryRevocationSource';
+export { IRevocedCard, IRevocationSource, InMemoryRevocationSource };
+
+import IStatusCache from './status_cache/IStatusCache';
+import InMemoryStatusCache, { IInMemoryStatusCacheOptions } from './status_cache/InMemoryStatusCache';
+export { IStatusCache, InMemoryStatusCache, IInMemoryStatusCacheOptions };
+
+import IRequestStore from './request_store/IRequestStore';
+import InMemoryRequestStore, { IInMemoryRequestStoreOptions } from './request_store/InMemoryRequestStore';
+export { IRequestStore, InMemoryRequestStore, IInMemoryRequestStoreOptions };
+
+import PresentationDefinitionEvaluator, { IPresentationDefinitionEvaluation, IDescriptorEvaluation } from './presentation_exchange/PresentationDefinitionEvaluator';
+import JsonSchemaFilter from './presentation_exchange/JsonSchemaFilter';
+export { PresentationDefinitionEvaluator, IPresentationDefinitionEvaluation, IDescriptorEvaluation, JsonSchemaFilter };
 
 import { IResponse } from './input_validation/IValidationResponse';
-import RequestorBuilder, { PresentationProtocol } from './api_oidc_request/RequestorBuilder';
+import RequestorBuilder, { PresentationProtocol, ResponseMode, ResponseType } from './api_oidc_request/RequestorBuilder';
+import PresentationDefinitionBuilder, { InputDescriptorBuilder, SubmissionRequirement } from './api_oidc_request/PresentationDefinitionBuilder';
 import Requestor from './api_oidc_request/Requestor';
 import IRequestor from './api_oidc_request/IRequestor';
 import IRequestorAttestation from './api_oidc_request/IRequestorAttestation';
 import IRequestorPresentationExchange from './api_oidc_request/IRequestorPresentationExchange';
-export { PresentationProtocol, IResponse, RequestorBuilder, Requestor, IRequestor, IRequestorAttestation, IRequestorPresentationExchange };
+export { PresentationProtocol, ResponseMode, ResponseType, IResponse, RequestorBuilder, PresentationDefinitionBuilder, InputDescriptorBuilder, SubmissionRequirement, Requestor, IRequestor, IRequestorAttestation, IRequestorPresentationExchange };
 
 export { KeyStoreFactory, SubtleCryptoNode, CryptoFactoryManager, CryptographicKey, KeyType, KeyUse, JoseBuilder, IPayloadProtectionSigning, LongFormDid, Subtle, Crypto, CryptoBuilder, IKeyContainer, IKeyStore, KeyReference, CryptoFactory } from 'verifiablecredentials-crypto-sdk-typescript';
 
@@ -84,12 +128,16 @@ import { PresentationExchangeInputDescriptorModel } from './rules_model/presenta
 import { PresentationExchangeSchemaModel } from './rules_model/presentation_exchange/PresentationExchangeSchemaModel'; 
 import { PresentationExchangeIssuanceModel } from './rules_model/presentation_exchange/PresentationExchangeIssuanceModel'; 
 import { PresentationExchangeConstraintsModel } from './rules_model/presentation_exchange/PresentationExchangeConstraintsModel'; 
+import { PresentationExchangeFieldModel } from './rules_model/presentation_exchange/PresentationExchangeFieldModel';
+import { PresentationExchangeSubmissionRequirementModel } from './rules_model/presentation_exchange/PresentationExchangeSubmissionRequirementModel';
 export {
   PresentationDefinitionModel,
   PresentationExchangeInputDescriptorModel,
   PresentationExchangeSchemaModel,
   PresentationExchangeIssuanceModel,
   PresentationExchangeConstraintsModel,
+  PresentationExchangeFieldModel,
+  PresentationExchangeSubmissionRequirementModel,
   TransformModel,
   VerifiableCredentialModel,
   RefreshConfigurationModel,
@@ -0,0 +1,72 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * The key type and curves a JOSE algorithm can be used with
+ */
+interface IAlgorithmKey {
+  /**
+   * The JWK key type
+   */
+  kty: string;
+
+  /**
+   * The JWK curves, undefined for RSA
+   */
+  crv?: string[];
+}
+
+/**
+ * Policy for the JOSE algorithms of signed tokens.
+ * Only asymmetric algorithms can be used, the algorithm must be allowed for the token type and match the key.
+ */
+export default class AlgorithmPolicy {
+  /**
+   * The asymmetric algorithms with their key type and curves. Curves are compared case insensitive.
+   */
+  public static readonly algorithms: { [alg: string]: IAlgorithmKey } = {
+    ES256K: { kty: 'EC', crv: ['secp256k1', 'P-256K'] },
+    ES256: { kty: 'EC', crv: ['P-256'] },
+    ES384: { kty: 'EC', crv: ['P-384'] },
+    ES512: { kty: 'EC', crv: ['P-521'] },
+    EdDSA: { kty: 'OKP', crv: ['Ed25519'] },
+    RS256: { kty: 'RSA' },
+    RS384: { kty: 'RSA' },
+    RS512: { kty: 'RSA' },
+    PS256: { kty: 'RSA' },
+    PS384: { kty: 'RSA' },
+    PS512: { kty: 'RSA' }
+  };
+
+  /**
+   * The algorithms allowed when no allow-list is configured for the token type
+   */
+  public static readonly DEFAULT_ALLOWED_ALGORITHMS = Object.keys(AlgorithmPolicy.algorithms);
+
+  /**
+   * Check the algorithm of a signed token
+   * @param alg The algorithm in the header of the token. Tokens without algorithm fail the signature verification.
+   * @param key The public key in JWK format
+   * @param allowedAlgorithms The algorithms allowed for the token type
+   * @returns The reason why the algorithm is refused, undefined if the algorithm can be used
+   */
+  public static check(alg: string, key: any, allowedAlgorithms?: string[]): string | undefined {
+    // none and the symmetric algorithms can never verify a token signed with a public key
+    const algorithmKey = AlgorithmPolicy.algorithms[alg];
+    if (!algorithmKey) {
+      return `uses the algorithm '${alg}' which is not supported`;
+    }
+
+    if (!(allowedAlgorithms || AlgorithmPolicy.DEFAULT_ALLOWED_ALGORITHMS).includes(alg)) {
+      return `uses the algorithm '${alg}' which is not allowed`;
+    }
+
+    if (!key || key.kty !== algorithmKey.kty || (algorithmKey.crv && !algorithmKey.crv.some((crv) => crv.toLowerCase() === `${key.crv}`.toLowerCase()))) {
+      return `uses the algorithm '${alg}' which does not match the key type '${key?.kty}'${key?.crv ? ` with curve '${key.crv}'` : ''}`;
+    }
+
+    return undefined;
+  }
+}
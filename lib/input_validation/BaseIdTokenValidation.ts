@@ -2,9 +2,10 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import { IExpectedIdToken, IExpectedAudience } from '../options/IExpected';
+import { IExpectedIdToken, IExpectedAudience, IExpectedTokenAge } from '../options/IExpected';
 import { IValidationOptions } from '../options/IValidationOptions';
 import { IdTokenValidationResponse, IIdTokenValidation } from './IdTokenValidationResponse';
+import ValidationDiagnostics from './ValidationDiagnostics';
 
 /**
  * Class for id token validation
@@ -15,7 +16,7 @@ export abstract class BaseIdTokenValidation implements IIdTokenValidation {
    * @param options Options to steer the validation process
    * @param expectedAudience IExpectedAudience instance
    */
-  constructor(protected options: IValidationOptions, private expectedAudience: IExpectedAudience) {
+  constructor(protected options: IValidationOptions, private expectedAudience: IExpectedAudience & IExpectedTokenAge) {
   }
 
   /**
@@ -43,14 +44,14 @@ export abstract class BaseIdTokenValidation implements IIdTokenValidation {
     }
 
     // Check token time validity
-    validationResponse = await this.options.checkTimeValidityOnTokenDelegate(validationResponse);
+    validationResponse = ValidationDiagnostics.record(this.options, validationResponse, await this.options.checkTimeValidityOnTokenDelegate(validationResponse, undefined, this.expectedAudience));
 
     if (!validationResponse.result) {
       return validationResponse;
     }
 
     // Check token scope (aud and iss)
-    validationResponse = await this.options.checkScopeValidityOnIdTokenDelegate(validationResponse, this.expectedAudience);
+    validationResponse = ValidationDiagnostics.record(this.options, validationResponse, await this.options.checkScopeValidityOnIdTokenDelegate(validationResponse, this.expectedAudience));
 
     if (!validationResponse.result) {
       return validationResponse;
@@ -6,7 +6,10 @@
 import { IPayloadProtectionSigning } from 'verifiablecredentials-crypto-sdk-typescript';
 import { IDidValidation, IDidValidationResponse } from './DidValidationResponse';
 import { IValidationOptions } from '../options/IValidationOptions';
-import { IExpectedBase } from '../index';
+import NoOpLogger from '../logging/NoOpLogger';
+import { IExpectedBase, IExpectedTokenAge } from '../index';
+import { ValidationErrorCode } from './IValidationResponse';
+import ValidationDiagnostics from './ValidationDiagnostics';
 
 /**
  * Class for input validation of a token signed with DID key
@@ -18,7 +21,7 @@ export class DidValidation implements IDidValidation {
  * @param options Options to steer the validation process
  * @param expectedSchema Expected schema of the verifiable credential
  */
-  constructor (private options: IValidationOptions, private expected: IExpectedBase) {
+  constructor (private options: IValidationOptions, private expected: IExpectedBase & IExpectedTokenAge) {
   }
 
   /**
@@ -44,6 +47,7 @@ export class DidValidation implements IDidValidation {
        return {
          result: false,
          detailedError: `The kid in the protected header does not contain the DID. Required format for kid is <did>#kid`,
+         code: ValidationErrorCode.invalidKid,
          status: 403
        };
      }
@@ -53,24 +57,27 @@ export class DidValidation implements IDidValidation {
       return validationResponse = {
           result: false,
           detailedError: 'The kid does not contain the DID',
+          code: ValidationErrorCode.invalidKid,
           status: 403
         };
     }
 
    // Resolve DID, get document and retrieve public key
-   validationResponse = await this.options.resolveDidAndGetKeysDelegate(validationResponse);
+   validationResponse = ValidationDiagnostics.record(this.options, validationResponse, await this.options.resolveDidAndGetKeysDelegate(validationResponse));
    if (!validationResponse.result) {
      return validationResponse;
    }
     
-   // Validate DID signature
-   validationResponse = await this.options.validateDidSignatureDelegate(validationResponse, validationResponse.didSignature as IPayloadProtectionSigning );
-   if (!validationResponse.result) {
-     return validationResponse;
+   // Validate DID signature, in diagnostic mode there is no key when resolution failed
+   if (validationResponse.didSigningPublicKey) {
+     validationResponse = ValidationDiagnostics.record(this.options, validationResponse, await this.options.validateDidSignatureDelegate(validationResponse, validationResponse.didSignature as IPayloadProtectionSigning));
+     if (!validationResponse.result) {
+       return validationResponse;
+     }
    }
 
    // Check token time validity
-   validationResponse = await this.options.checkTimeValidityOnTokenDelegate(validationResponse);
+   validationResponse = ValidationDiagnostics.record(this.options, validationResponse, await this.options.checkTimeValidityOnTokenDelegate(validationResponse, undefined, this.expected));
    if (!validationResponse.result) {
      return validationResponse;
    }
@@ -78,7 +85,7 @@ export class DidValidation implements IDidValidation {
    // once the token is validated, we can trust the jti
    validationResponse.tokenId = validationResponse.payloadObject.jti || validationResponse.payloadObject.id;
 
-   console.log(`The signature is verified with DID ${validationResponse.did}`);
+   (this.options.logger || new NoOpLogger()).debug('The signature is verified', { did: validationResponse.did, tokenType: this.expected.type });
    return validationResponse;
   }
 }
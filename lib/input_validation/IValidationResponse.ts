@@ -4,7 +4,202 @@
  *--------------------------------------------------------------------------------------------*/
 import { IPayloadProtectionSigning } from 'verifiablecredentials-crypto-sdk-typescript';
 import { DidDocument } from '@decentralized-identity/did-common-typescript';
-import { IValidationResult, ClaimToken } from '../index';
+import { IValidationResult, ClaimToken, TokenType, ITokenValidationReport } from '../index';
+
+/**
+ * Stable codes for validation failures. Use these instead of parsing detailedError.
+ */
+export enum ValidationErrorCode {
+  /**
+   * The token could not be parsed
+   */
+  tokenMalformed = 'tokenMalformed',
+
+  /**
+   * The token type is not supported by the validator
+   */
+  tokenTypeNotSupported = 'tokenTypeNotSupported',
+
+  /**
+   * The token was never validated
+   */
+  tokenNotValidated = 'tokenNotValidated',
+
+  /**
+   * The kid is missing or does not reference the DID
+   */
+  invalidKid = 'invalidKid',
+
+  /**
+   * The json ld proof is missing or incomplete
+   */
+  invalidProof = 'invalidProof',
+
+  /**
+   * The DID could not be resolved
+   */
+  didResolutionFailed = 'didResolutionFailed',
+
+  /**
+   * The DID document has no usable public key for the kid
+   */
+  publicKeyNotFound = 'publicKeyNotFound',
+
+  /**
+   * The key is not listed under the verification relationship required for the token, e.g. assertionMethod
+   */
+  invalidVerificationRelationship = 'invalidVerificationRelationship',
+
+  /**
+   * The signature on the token is invalid
+   */
+  invalidSignature = 'invalidSignature',
+
+  /**
+   * The algorithm of the token is not allowed or does not match the key
+   */
+  invalidAlgorithm = 'invalidAlgorithm',
+
+  /**
+   * The token configuration or keys of the issuer could not be fetched
+   */
+  configurationFetchFailed = 'configurationFetchFailed',
+
+  /**
+   * The token is expired
+   */
+  tokenExpired = 'tokenExpired',
+
+  /**
+   * The token is not yet valid
+   */
+  tokenNotYetValid = 'tokenNotYetValid',
+
+  /**
+   * The issuer of the token is missing or wrong
+   */
+  invalidIssuer = 'invalidIssuer',
+
+  /**
+   * The audience of the token is missing or wrong
+   */
+  invalidAudience = 'invalidAudience',
+
+  /**
+   * The subject of the token is missing or wrong
+   */
+  invalidSubject = 'invalidSubject',
+
+  /**
+   * The nonce does not match the request
+   */
+  nonceMismatch = 'nonceMismatch',
+
+  /**
+   * The state does not match the request
+   */
+  stateMismatch = 'stateMismatch',
+
+  /**
+   * The token or nonce was already used
+   */
+  tokenReplayed = 'tokenReplayed',
+
+  /**
+   * The use of the token or nonce could not be registered
+   */
+  replayCheckFailed = 'replayCheckFailed',
+
+  /**
+   * A required claim is missing
+   */
+  missingClaim = 'missingClaim',
+
+  /**
+   * A claim has an invalid value
+   */
+  invalidClaim = 'invalidClaim',
+
+  /**
+   * The token is presented by another DID than its subject
+   */
+  presenterMismatch = 'presenterMismatch',
+
+  /**
+   * The verifiable credential type is not requested
+   */
+  unexpectedCredentialType = 'unexpectedCredentialType',
+
+  /**
+   * The verifiable credential is not issued by a trusted issuer
+   */
+  untrustedIssuer = 'untrustedIssuer',
+
+  /**
+   * A required verifiable credential is not presented
+   */
+  missingCredential = 'missingCredential',
+
+  /**
+   * A required id token is not presented
+   */
+  missingIdToken = 'missingIdToken',
+
+  /**
+   * The presentation submission does not resolve to the presented tokens
+   */
+  invalidPresentationSubmission = 'invalidPresentationSubmission',
+
+  /**
+   * The submitted verifiable credentials do not satisfy the presentation definition
+   */
+  presentationDefinitionNotSatisfied = 'presentationDefinitionNotSatisfied',
+
+  /**
+   * The status of the verifiable credential could not be checked
+   */
+  statusCheckFailed = 'statusCheckFailed',
+
+  /**
+   * The status of the verifiable credential could not be checked in time
+   */
+  statusCheckTimedOut = 'statusCheckTimedOut',
+
+  /**
+   * No status checker is registered for the credentialStatus type of the verifiable credential
+   */
+  statusTypeNotSupported = 'statusTypeNotSupported',
+
+  /**
+   * The status receipt is invalid
+   */
+  invalidStatusReceipt = 'invalidStatusReceipt',
+
+  /**
+   * The verifiable credential is revoked
+   */
+  credentialRevoked = 'credentialRevoked',
+
+  /**
+   * The verifiable credential is suspended
+   */
+  credentialSuspended = 'credentialSuspended',
+
+  /**
+   * The status list credential is invalid
+   */
+  invalidStatusList = 'invalidStatusList',
+
+  /**
+   * The revocation snapshot is invalid
+   */
+  invalidRevocationSnapshot = 'invalidRevocationSnapshot',
+
+  /**
+   * The validator is not configured to validate the token
+   */
+  invalidConfiguration = 'invalidConfiguration'
+}
 
 /**
  * The response interface
@@ -29,6 +224,26 @@ export interface IResponse {
    * Additional error object
    */
   innerError?: any;
+
+  /**
+   * Output if false. Code of the failure
+   */
+  code?: ValidationErrorCode;
+
+  /**
+   * The type of the token that failed
+   */
+  tokenType?: TokenType;
+
+  /**
+   * the Json Web Token Id of the incoming token
+   */
+  tokenId?: string;
+
+  /**
+   * Output if false. JSON path of the offending claim
+   */
+  claimPath?: string;
 }
 
 export interface IValidationResponse extends IResponse {
@@ -68,14 +283,14 @@ export interface IValidationResponse extends IResponse {
   tokensToValidate?: { [key: string]: ClaimToken };
 
   /**
-   * All claims found in input tokens
+   * The credentials submitted for the input descriptors of a presentation exchange response
    */
-  validationResult?: IValidationResult;
+  submittedCredentials?: { [descriptorId: string]: ClaimToken };
 
   /**
-   * the Json Web Token Id of the incoming token
+   * All claims found in input tokens
    */
-  tokenId?: string;
+  validationResult?: IValidationResult;
 
   /**
    * The used payload protection protocol
@@ -91,4 +306,14 @@ export interface IValidationResponse extends IResponse {
    * The epoch expiration time
    */
   expiration?: number;
+
+  /**
+   * Diagnostic mode. The failed checks of the token
+   */
+  failures?: IResponse[];
+
+  /**
+   * Diagnostic mode. The validation reports of all tokens, keyed by their id in the validation queue
+   */
+  report?: { [id: string]: ITokenValidationReport };
 }
@@ -5,8 +5,10 @@
 import { IExpectedIdToken } from '../options/IExpected';
 import { IdTokenValidationResponse } from './IdTokenValidationResponse';
 import { IValidationOptions } from '../options/IValidationOptions';
+import NoOpLogger from '../logging/NoOpLogger';
 import ClaimToken, { TokenType } from '../verifiable_credential/ClaimToken';
 import { BaseIdTokenValidation } from './BaseIdTokenValidation';
+import { ValidationErrorCode } from './IValidationResponse';
 
 /**
  * Class for id token validation for the Verifiable Credential attestation scenario
@@ -32,7 +34,8 @@ export class IdTokenValidation extends BaseIdTokenValidation {
       return {
         result: false,
         status: 500,
-        detailedError: `Expected should have configuration issuers set for idToken`
+        detailedError: `Expected should have configuration issuers set for idToken`,
+        code: ValidationErrorCode.invalidConfiguration
       };
     }
 
@@ -44,7 +47,8 @@ export class IdTokenValidation extends BaseIdTokenValidation {
         return {
           result: false,
           status: 500,
-          detailedError: `Expected should have configuration issuers set for idToken. Empty array presented.`
+          detailedError: `Expected should have configuration issuers set for idToken. Empty array presented.`,
+          code: ValidationErrorCode.invalidConfiguration
         };
       }
       issuers = <string[]>this.expected.configuration;
@@ -53,7 +57,8 @@ export class IdTokenValidation extends BaseIdTokenValidation {
         return {
           result: false,
           status: 500,
-          detailedError: `The siopContract needs to be specified to validate the idTokens.`
+          detailedError: `The siopContract needs to be specified to validate the idTokens.`,
+          code: ValidationErrorCode.invalidConfiguration
         };
       }
 
@@ -62,7 +67,8 @@ export class IdTokenValidation extends BaseIdTokenValidation {
         return {
           result: false,
           status: 500,
-          detailedError: `Expected should have configuration issuers set for idToken. Missing configuration for '${this.siopContract}'.`
+          detailedError: `Expected should have configuration issuers set for idToken. Missing configuration for '${this.siopContract}'.`,
+          code: ValidationErrorCode.invalidConfiguration
         };
       }
       issuers = <string[]>this.expected.configuration[this.siopContract]
@@ -80,7 +86,7 @@ export class IdTokenValidation extends BaseIdTokenValidation {
     const arr = <string[]>issuers;
     let idTokenValidated = false;
     for (let inx = 0; inx < arr.length; inx++) {
-      console.log(`Checking id token for configuration ${arr[inx]}`);
+      (this.options.logger || new NoOpLogger()).debug('Checking id token', { configuration: arr[inx] });
       validationResponse = await this.options.fetchKeyAndValidateSignatureOnIdTokenDelegate(validationResponse, new ClaimToken(TokenType.idToken, idToken, arr[inx]));
       
       if (validationResponse.result) {
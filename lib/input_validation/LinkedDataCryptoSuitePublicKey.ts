@@ -3,6 +3,7 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 import base64url from 'base64url';
+import DidKeyResolver from '../resolver/DidKeyResolver';
 const bs58 = require('bs58')
 
 /**
@@ -14,23 +15,19 @@ export default class LinkedDataCryptoSuitePublicKey {
    * Set of supported suites
    */
   public static suites: { [suite: string]: any } = {
-    WorkEd25519VerificationKey2020: (rawPublicKey: any): object => {
+    Ed25519VerificationKey2020: (rawPublicKey: any): object => {
       let publicKey = LinkedDataCryptoSuitePublicKey.parsePublicKey(rawPublicKey);
-      if (!publicKey) {
-        throw new Error(`${JSON.stringify(rawPublicKey)} public key type is not supported.`);
-      }
-
       if (typeof publicKey === 'string') {
-        return {
+        publicKey = {
           kty: 'OKP',
           use: 'sig',
           alg: 'EdDSA',
-          crv: 'ed25519',
+          crv: 'Ed25519',
           x: publicKey
         };
       }
 
-      return publicKey;
+      return LinkedDataCryptoSuitePublicKey.checkCurve(rawPublicKey, publicKey, 'OKP', ['Ed25519', 'ed25519']);
     },
     Ed25519VerificationKey2018: (rawPublicKey: any): object => {
       let publicKey = LinkedDataCryptoSuitePublicKey.parsePublicKey(rawPublicKey);
@@ -74,6 +71,34 @@ export default class LinkedDataCryptoSuitePublicKey {
 
       return publicKey;
     },
+    EcdsaSecp256r1VerificationKey2019: (rawPublicKey: any): object => {
+      const publicKey = LinkedDataCryptoSuitePublicKey.parsePublicKey(rawPublicKey);
+      return LinkedDataCryptoSuitePublicKey.checkCurve(rawPublicKey, publicKey, 'EC', ['P-256']);
+    },
+    EcdsaSecp384r1VerificationKey2019: (rawPublicKey: any): object => {
+      const publicKey = LinkedDataCryptoSuitePublicKey.parsePublicKey(rawPublicKey);
+      return LinkedDataCryptoSuitePublicKey.checkCurve(rawPublicKey, publicKey, 'EC', ['P-384']);
+    },
+    JsonWebKey2020: (rawPublicKey: any): object => {
+      if (!rawPublicKey.publicKeyJwk) {
+        throw new Error(`${JSON.stringify(rawPublicKey)} public key type is not supported.`);
+      }
+
+      return rawPublicKey.publicKeyJwk;
+    },
+    Multikey: (rawPublicKey: any): object => {
+      if (!rawPublicKey.publicKeyMultibase) {
+        throw new Error(`${JSON.stringify(rawPublicKey)} public key type is not supported.`);
+      }
+
+      // The multicodec header gives the key type
+      const publicKey = LinkedDataCryptoSuitePublicKey.parsePublicKey(rawPublicKey);
+      if (typeof publicKey === 'string') {
+        throw new Error(`${JSON.stringify(rawPublicKey)} public key type is not supported.`);
+      }
+
+      return publicKey;
+    },
     RsaVerificationKey2018: (rawPublicKey: any): object => {
       let publicKey = LinkedDataCryptoSuitePublicKey.parsePublicKey(rawPublicKey);
       if (!publicKey) {
@@ -123,6 +148,8 @@ export default class LinkedDataCryptoSuitePublicKey {
       publicKey = LinkedDataCryptoSuitePublicKey.decodeBase58To64Url(rawPublicKey.publicKeyBase58);
     } else if (rawPublicKey.publicKeyHex) {
       publicKey = base64url.encode(Buffer.from((rawPublicKey.publicKeyHex), 'hex'));
+    } else if (rawPublicKey.publicKeyMultibase) {
+      publicKey = LinkedDataCryptoSuitePublicKey.decodeMultibase(rawPublicKey);
     }
     if (!publicKey) {
       throw new Error(`${JSON.stringify(rawPublicKey)} public key type is not supported.`);
@@ -131,6 +158,50 @@ export default class LinkedDataCryptoSuitePublicKey {
     return publicKey;
   }
 
+  /**
+   * Decode a base58btc multibase key. Keys with a multicodec header are returned as JWK.
+   * Early Ed25519VerificationKey2020 keys have no header, these are returned as base64 url.
+   * @param rawPublicKey Public key object from the DID document
+   */
+  private static decodeMultibase(rawPublicKey: any): any {
+    const multibase: string = rawPublicKey.publicKeyMultibase;
+    if (typeof multibase !== 'string' || !multibase.startsWith('z')) {
+      throw new Error(`${JSON.stringify(rawPublicKey)} public key is not base58btc multibase encoded.`);
+    }
+
+    let decoded: Buffer;
+    try {
+      decoded = bs58.decode(multibase.substring(1));
+    } catch (exception) {
+      throw new Error(`${JSON.stringify(rawPublicKey)} public key is not base58btc multibase encoded.`);
+    }
+
+    if (rawPublicKey.type === 'Ed25519VerificationKey2020' && decoded.length === 32) {
+      return base64url.encode(decoded);
+    }
+
+    try {
+      return DidKeyResolver.getPublicKeyJwk(multibase);
+    } catch (exception) {
+      throw new Error(`${JSON.stringify(rawPublicKey)} public key type is not supported.`);
+    }
+  }
+
+  /**
+   * Check the key type and curve of the public key against the suite
+   * @param rawPublicKey Public key object from the DID document
+   * @param publicKey The public key in JWK format
+   * @param kty The key type of the suite
+   * @param crvs The curves of the suite
+   */
+  private static checkCurve(rawPublicKey: any, publicKey: any, kty: string, crvs: string[]): object {
+    if (typeof publicKey !== 'object' || publicKey.kty !== kty || !crvs.includes(publicKey.crv)) {
+      throw new Error(`${JSON.stringify(rawPublicKey)} public key does not match the curve of the suite ${rawPublicKey.type}.`);
+    }
+
+    return publicKey;
+  }
+
   /**
    * Convert base58 to base64 url.
    * @param data to convert.
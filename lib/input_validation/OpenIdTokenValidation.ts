@@ -5,6 +5,7 @@
 import { IExpectedOpenIdToken } from '../options/IExpected';
 import { IdTokenValidationResponse } from './IdTokenValidationResponse';
 import { IValidationOptions } from '../options/IValidationOptions';
+import NoOpLogger from '../logging/NoOpLogger';
 import ClaimToken, { TokenType } from '../verifiable_credential/ClaimToken';
 import { BaseIdTokenValidation } from './BaseIdTokenValidation';
 
@@ -23,7 +24,7 @@ export class OpenIdTokenValidation extends BaseIdTokenValidation {
   }
 
   protected async downloadConfigurationAndValidate(validationResponse: IdTokenValidationResponse, idToken: string): Promise<IdTokenValidationResponse> {
-    console.log(`Checking id token for configuration ${this.expected.configuration}`);
+    (this.options.logger || new NoOpLogger()).debug('Checking id token', { configuration: this.expected.configuration });
     return await this.options.fetchKeyAndValidateSignatureOnIdTokenDelegate(validationResponse, new ClaimToken(TokenType.idToken, idToken, this.expected.configuration));
   }
 }
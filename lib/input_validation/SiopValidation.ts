@@ -6,7 +6,9 @@
 import { ISiopValidation, ISiopValidationResponse } from './SiopValidationResponse';
 import { DidValidation } from './DidValidation';
 import { IValidationOptions } from '../options/IValidationOptions';
+import NoOpLogger from '../logging/NoOpLogger';
 import { IExpectedSiop } from '../index';
+import ValidationDiagnostics from './ValidationDiagnostics';
 
 /**
  * Class for siop validation
@@ -40,12 +42,12 @@ export class SiopValidation implements ISiopValidation {
     }
 
     // Check token scope (aud and iss)
-    validationResponse = await this.options.checkScopeValidityOnSiopTokenDelegate(validationResponse, this.expected);
+    validationResponse = ValidationDiagnostics.record(this.options, validationResponse, await this.options.checkScopeValidityOnSiopTokenDelegate(validationResponse, this.expected));
     if (!validationResponse.result) {
       return validationResponse;
     }
     
-    console.log(`The SIOP signature is verified with DID ${validationResponse.did}`);
+    (this.options.logger || new NoOpLogger()).debug('The SIOP signature is verified', { did: validationResponse.did });
     return validationResponse;
   }
 }
@@ -0,0 +1,83 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { IValidationOptions } from '../options/IValidationOptions';
+import { IResponse, IValidationResponse } from './IValidationResponse';
+
+/**
+ * Helpers to keep validating a token after a failed check when the validator runs in diagnostic mode
+ */
+export default class ValidationDiagnostics {
+  /**
+   * Record the outcome of a check.
+   * In diagnostic mode a failed check is added to the failures and validation continues with the response before the check.
+   * @param options The validation options
+   * @param validationResponse The response before the check
+   * @param checkResponse The response of the check
+   * @returns The response to continue with. Validation stops when its result is false.
+   */
+  public static record<T extends IValidationResponse>(options: IValidationOptions, validationResponse: T, checkResponse: T): T {
+    if (checkResponse.result || !options.validatorOptions.diagnosticMode) {
+      return checkResponse;
+    }
+
+    validationResponse.failures = [...(validationResponse.failures || []), ValidationDiagnostics.toFailure(checkResponse)];
+    return validationResponse;
+  }
+
+  /**
+   * Turn a response with recorded failures into a failed response.
+   * The first failure is used as error of the response.
+   * @param validationResponse The response of the token validation
+   */
+  public static conclude(validationResponse: IValidationResponse): IValidationResponse {
+    const failures = ValidationDiagnostics.getFailures(validationResponse);
+    if (failures.length === 0) {
+      return validationResponse;
+    }
+
+    return {
+      ...validationResponse,
+      ...failures[0],
+      result: false,
+      failures
+    };
+  }
+
+  /**
+   * Get all failures of a response, including the failure which stopped the validation
+   * @param validationResponse The response of the token validation
+   */
+  public static getFailures(validationResponse: IValidationResponse): IResponse[] {
+    const failures = [...(validationResponse.failures || [])];
+    if (!validationResponse.result && !failures.some((failure) => failure.detailedError === validationResponse.detailedError && failure.code === validationResponse.code)) {
+      failures.push(ValidationDiagnostics.toFailure(validationResponse));
+    }
+
+    return failures;
+  }
+
+  /**
+   * Keep the error properties of a response
+   * @param response The failed response
+   */
+  private static toFailure(response: IResponse): IResponse {
+    const failure: IResponse = {
+      result: false,
+      status: response.status,
+      detailedError: response.detailedError,
+      code: response.code
+    };
+
+    if (response.claimPath) {
+      failure.claimPath = response.claimPath;
+    }
+
+    if (response.innerError) {
+      failure.innerError = response.innerError;
+    }
+
+    return failure;
+  }
+}
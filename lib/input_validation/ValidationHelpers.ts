@@ -2,17 +2,22 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import { DidDocument, IDidResolveResult } from '@decentralized-identity/did-common-typescript';
+import { DidDocument, IDidResolver, IDidResolveResult } from '@decentralized-identity/did-common-typescript';
 import { IPayloadProtectionSigning, JoseBuilder } from 'verifiablecredentials-crypto-sdk-typescript';
 import { IValidationOptions } from '../options/IValidationOptions';
 import IValidatorOptions from '../options/IValidatorOptions';
 import ValidationOptions from '../options/ValidationOptions';
+import SystemClock from '../options/SystemClock';
 import ClaimToken, { TokenType } from '../verifiable_credential/ClaimToken';
 import VerifiableCredentialConstants from '../verifiable_credential/VerifiableCredentialConstants';
 import { IdTokenValidationResponse } from './IdTokenValidationResponse';
-import { IValidationResponse } from './IValidationResponse';
-import { IExpectedVerifiablePresentation, IExpectedVerifiableCredential, IExpectedSiop, IExpectedAudience } from '../options/IExpected';
+import { IValidationResponse, ValidationErrorCode } from './IValidationResponse';
+import { IExpectedVerifiablePresentation, IExpectedVerifiableCredential, IExpectedSiop, IExpectedAudience, IExpectedTokenAge } from '../options/IExpected';
 import LinkedDataCryptoSuitePublicKey from './LinkedDataCryptoSuitePublicKey';
+import LongFormIonResolver from '../resolver/LongFormIonResolver';
+import LinkedDataProofVerifier from '../linked_data/LinkedDataProofVerifier';
+import BundledDocumentLoader from '../linked_data/BundledDocumentLoader';
+import AlgorithmPolicy from './AlgorithmPolicy';
 const jp = require('jsonpath');
 
 require('es6-promise').polyfill();
@@ -22,6 +27,23 @@ require('isomorphic-fetch');
  * Helper Class for validation
  */
 export class ValidationHelpers {
+  /**
+   * The verification relationship required for the keys signing a token type
+   */
+  private static readonly verificationRelationships: { [tokenType: string]: string } = {
+    [TokenType.verifiableCredential]: 'assertionMethod',
+    [TokenType.verifiablePresentationStatus]: 'assertionMethod',
+    [TokenType.verifiablePresentationJwt]: 'authentication',
+    [TokenType.siop]: 'authentication',
+    [TokenType.siopIssuance]: 'authentication',
+    [TokenType.siopPresentationAttestation]: 'authentication',
+    [TokenType.siopPresentationExchange]: 'authentication'
+  };
+
+  /**
+   * The verification relationships of a DID document
+   */
+  private static readonly allVerificationRelationships = ['authentication', 'assertionMethod', 'keyAgreement', 'capabilityInvocation', 'capabilityDelegation'];
 
   /**
  * Create new instance of <see @class ValidationHelpers>
@@ -46,18 +68,22 @@ export class ValidationHelpers {
   public async getTokenObject(validationResponse: IValidationResponse, token: string | object): Promise<IValidationResponse> {
     const self: any = this;
     validationResponse.didSignature = undefined;
+    validationResponse.payloadProtectionProtocol = undefined;
     // check for json ld proofs
-    if (typeof token === 'object') {
+    if (typeof token === 'object' && LinkedDataProofVerifier.isSupported(token)) {
+      // Data Integrity proofs are verified on the payload in validateDidSignature
+      validationResponse.payloadProtectionProtocol = JoseBuilder.JSONLDProofs;
+    } else if (typeof token === 'object') {
       try {
         // instantiate IPayloadProtectionSigning
         validationResponse.didSignature = await (self as ValidationOptions).validatorOptions.crypto.signingProtocol(JoseBuilder.JSONLDProofs).deserialize(JSON.stringify(token));
         validationResponse.payloadProtectionProtocol = JoseBuilder.JSONLDProofs;
       } catch (exception) {
-        console.log('Failing to decode json ld proof');
+        (self as ValidationOptions).logger.debug('Failing to decode json ld proof', { error: exception });
       }
     }
 
-    if (!validationResponse.didSignature) {
+    if (!validationResponse.payloadProtectionProtocol) {
       // check for compact JWT tokens
       try {
         // instantiate IPayloadProtectionSigning
@@ -67,15 +93,17 @@ export class ValidationHelpers {
         return {
           result: false,
           detailedError: `The ${(self as ValidationOptions).tokenType} could not be deserialized`,
+          code: ValidationErrorCode.tokenMalformed,
           status: 400
         };
       }
     }
 
-    if (!validationResponse.didSignature) {
+    if (!validationResponse.didSignature && validationResponse.payloadProtectionProtocol === JoseBuilder.JWT) {
       return {
         result: false,
         detailedError: `The signature in the ${(self as ValidationOptions).tokenType} has an invalid format`,
+        code: ValidationErrorCode.tokenMalformed,
         status: 403
       };
     }
@@ -86,6 +114,7 @@ export class ValidationHelpers {
         return {
           result: false,
           detailedError: `The payload in the ${(self as ValidationOptions).tokenType} is undefined`,
+          code: ValidationErrorCode.tokenMalformed,
           status: 403
         };
       }
@@ -93,19 +122,21 @@ export class ValidationHelpers {
       try {
         validationResponse.payloadObject = JSON.parse(payload.toString());
       } catch (err) {
-        console.error(err);
+        (self as ValidationOptions).logger.error('Failing to parse the token payload', { error: err });
         return {
           result: false,
           detailedError: `The payload in the ${(self as ValidationOptions).tokenType} is no valid JSON`,
+          code: ValidationErrorCode.tokenMalformed,
           status: 400
         };
       }
       
-      validationResponse.didKid = validationResponse.didSignature.signatureProtectedHeader?.kid;
+      validationResponse.didKid = validationResponse.didSignature!.signatureProtectedHeader?.kid;
       if (!validationResponse.didKid) {
         return {
           result: false,
           detailedError: `The protected header in the ${(self as ValidationOptions).tokenType} does not contain the kid`,
+          code: ValidationErrorCode.invalidKid,
           status: 403
         };
       }
@@ -117,8 +148,9 @@ export class ValidationHelpers {
       validationResponse.issuer = validationResponse.payloadObject.issuer;
       const expiration: string = validationResponse.payloadObject.expirationDate;
       if (expiration && typeof expiration === 'string') {
+        // expiration is in seconds like the exp claim
         const exp = Date.parse(expiration);
-        validationResponse.expiration = exp;
+        validationResponse.expiration = Math.trunc(exp / 1000);
       }
 
       const proof = validationResponse.payloadObject.proof;
@@ -126,6 +158,8 @@ export class ValidationHelpers {
         return {
           result: false,
           detailedError: `The proof is not available in the json ld payload`,
+          code: ValidationErrorCode.invalidProof,
+          claimPath: '$.proof',
           status: 403
         };
       }
@@ -133,6 +167,8 @@ export class ValidationHelpers {
         return {
           result: false,
           detailedError: `The proof does not contain the verificationMethod in the json ld payload`,
+          code: ValidationErrorCode.invalidProof,
+          claimPath: '$.proof.verificationMethod',
           status: 403
         };      
       }
@@ -154,21 +190,30 @@ export class ValidationHelpers {
   public async resolveDidAndGetKeys(validationResponse: IValidationResponse): Promise<IValidationResponse> {
     const self: any = this;
     try {
-      const resolveResult: IDidResolveResult = await (self as ValidationOptions).validatorOptions.resolver.resolve(validationResponse.did as string);
+      const validatorOptions = (self as ValidationOptions).validatorOptions;
+      let resolver: IDidResolver = validatorOptions.resolver;
+      if (LongFormIonResolver.isLongForm(validationResponse.did as string)) {
+        // Long-form DIDs carry their initial state, no need for a resolver round trip
+        resolver = new LongFormIonResolver(resolver, validatorOptions.longFormDidUpdateCheck);
+      }
+
+      const resolveResult: IDidResolveResult = await resolver.resolve(validationResponse.did as string);
       if (!resolveResult || !resolveResult.didDocument) {
         return validationResponse = {
           result: false,
           detailedError: `Could not retrieve DID document '${validationResponse.did}'`,
+          code: ValidationErrorCode.didResolutionFailed,
           status: 403
         }
       }
       validationResponse.didDocument = resolveResult.didDocument;
 
     } catch (err) {
-      console.error(err);
+      (self as ValidationOptions).logger.error('Failing to resolve the DID', { did: validationResponse.did, error: err });
       return {
         result: false,
         detailedError: `Could not resolve DID '${validationResponse.did}'`,
+        code: ValidationErrorCode.didResolutionFailed,
         status: 403
       };
     }
@@ -178,6 +223,18 @@ export class ValidationHelpers {
       return {
         result: false,
         detailedError: `The kid is not referenced in the request`,
+        code: ValidationErrorCode.invalidKid,
+        status: 403
+      };
+    }
+
+    // Check the key is authorized for the purpose of the token
+    const relationship = ValidationHelpers.verificationRelationships[(self as ValidationOptions).tokenType];
+    if (relationship && !ValidationHelpers.hasVerificationRelationship(validationResponse, relationship, (self as ValidationOptions).validatorOptions.legacyPublicKeyDocuments !== false)) {
+      return {
+        result: false,
+        detailedError: `The key '${validationResponse.didKid}' is not authorized for ${relationship} in the DID document of '${validationResponse.did}'`,
+        code: ValidationErrorCode.invalidVerificationRelationship,
         status: 403
       };
     }
@@ -189,6 +246,7 @@ export class ValidationHelpers {
       return {
         result: false,
         detailedError: exception.message,
+        code: ValidationErrorCode.publicKeyNotFound,
         status: 403
       };
     }
@@ -197,12 +255,54 @@ export class ValidationHelpers {
     return validationResponse;
   }
 
+  /**
+   * Check if the key is listed under the verification relationship in the DID document
+   * @param validationResponse The response for the requestor
+   * @param relationship The required verification relationship
+   * @param legacyPublicKeyDocuments True if documents without verification relationships are accepted
+   */
+  private static hasVerificationRelationship(validationResponse: IValidationResponse, relationship: string, legacyPublicKeyDocuments: boolean): boolean {
+    const rawDocument: any = validationResponse.didDocument!.rawDocument;
+    const declared = ValidationHelpers.allVerificationRelationships.some((name) => rawDocument[name] !== undefined);
+    if (!declared) {
+      return legacyPublicKeyDocuments;
+    }
+
+    return !!ValidationHelpers.findVerificationMethod(rawDocument[relationship], validationResponse.did!, validationResponse.didKid!);
+  }
+
+  /**
+   * Find the verification method for the kid in a verification relationship.
+   * Entries are references to a key or embedded keys. References can be relative to the DID.
+   * @param entries The entries of the verification relationship
+   * @param did The DID of the document
+   * @param kid The kid of the key
+   */
+  private static findVerificationMethod(entries: any[] | undefined, did: string, kid: string): any {
+    return (entries || []).find((entry: any) => {
+      const id: string = typeof entry === 'string' ? entry : entry?.id;
+      if (!id) {
+        return false;
+      }
+
+      return id === kid || (id.startsWith('#') && `${did}${id}` === kid);
+    });
+  }
+
   /**
    * Retireve public key from did document
    * @param validationResponse The response for the requestor
    */
   private static getPublicKeyFromDidDocument(validationResponse: IValidationResponse): any {
-    const publicKey = validationResponse.didDocument!.getPublicKey(validationResponse.didKid!);
+    let publicKey = validationResponse.didDocument!.getPublicKey(validationResponse.didKid!);
+    if (!publicKey) {
+      // Keys can be embedded in a verification relationship
+      const rawDocument: any = validationResponse.didDocument!.rawDocument;
+      publicKey = ValidationHelpers.allVerificationRelationships
+        .map((name) => ValidationHelpers.findVerificationMethod(rawDocument[name], validationResponse.did!, validationResponse.didKid!))
+        .find((entry) => typeof entry === 'object');
+    }
+
     let signingKey: any;
     if (publicKey) {
       signingKey = LinkedDataCryptoSuitePublicKey.getPublicKey(publicKey);
@@ -219,12 +319,39 @@ export class ValidationHelpers {
   /**
    * Check the time validity of the token
    * @param validationResponse The response for the requestor
-   * @param clockSkewToleranceSeconds Drift used to extend time checks in seconds. Covers for clock drifts
+   * @param clockSkewToleranceSeconds Drift used to extend time checks in seconds. Covers for clock drifts. Defaults to the skew of the validator.
+   * @param expected Expected lifetime of the token
    * @returns validationResponse.result, validationResponse.status, validationResponse.detailedError
    */
-  public checkTimeValidityOnToken(validationResponse: IValidationResponse, clockSkewToleranceSeconds: number = 300): IValidationResponse {
+  public checkTimeValidityOnToken(validationResponse: IValidationResponse, clockSkewToleranceSeconds?: number, expected?: IExpectedTokenAge): IValidationResponse {
     const self: any = this;
-    const current = Math.trunc(Date.now() / 1000);
+    const validatorOptions = (self as ValidationOptions).validatorOptions;
+    const clock = validatorOptions.clock || new SystemClock();
+    if (clockSkewToleranceSeconds === undefined) {
+      clockSkewToleranceSeconds = validatorOptions.clockSkewInSeconds ?? VerifiableCredentialConstants.DEFAULT_CLOCK_SKEW_IN_SECONDS;
+    }
+
+    const current = Math.trunc(clock.now() / 1000);
+
+    if (expected?.requireExpiration && !validationResponse.expiration) {
+      return {
+        result: false,
+        detailedError: `The presented ${(self as ValidationOptions).tokenType} has no expiration`,
+        code: ValidationErrorCode.missingClaim,
+        claimPath: '$.exp',
+        status: 403
+      };
+    }
+
+    if ((expected?.requireIssuedAt || expected?.maxAgeInSeconds !== undefined) && !validationResponse.payloadObject.iat) {
+      return {
+        result: false,
+        detailedError: `The presented ${(self as ValidationOptions).tokenType} has no iat`,
+        code: ValidationErrorCode.missingClaim,
+        claimPath: '$.iat',
+        status: 403
+      };
+    }
 
     if (validationResponse.expiration) {
       // initialize in utc time
@@ -237,13 +364,19 @@ export class ValidationHelpers {
         return {
           result: false,
           detailedError: `The presented ${(self as ValidationOptions).tokenType} is expired ${exp}, now ${current as number}`,
+          code: ValidationErrorCode.tokenExpired,
+          claimPath: validationResponse.payloadProtectionProtocol === JoseBuilder.JSONLDProofs ? '$.expirationDate' : '$.exp',
           status: 403
         };
       }
     }
-    if (validationResponse.payloadObject.nbf) {
+    // JSON-LD credentials have no nbf, they are valid from their issuanceDate
+    const isJsonLd = validationResponse.payloadProtectionProtocol === JoseBuilder.JSONLDProofs;
+    const issuanceDate = isJsonLd && typeof validationResponse.payloadObject.issuanceDate === 'string' ? Date.parse(validationResponse.payloadObject.issuanceDate) : NaN;
+    const notBefore = isJsonLd ? (isNaN(issuanceDate) ? undefined : Math.trunc(issuanceDate / 1000)) : validationResponse.payloadObject.nbf;
+    if (notBefore) {
       // initialize in utc time
-      const nbf = (validationResponse.payloadObject.nbf - clockSkewToleranceSeconds);
+      const nbf = (notBefore - clockSkewToleranceSeconds);
 
       /**
        * JWT spec says: The processing of the "nbf" claim requires that the current date/time MUST be after or equal to the not-before date/time listed in the "nbf" claim
@@ -252,9 +385,41 @@ export class ValidationHelpers {
         return {
           result: false,
           detailedError: `The presented ${(self as ValidationOptions).tokenType} is not yet valid ${nbf}`,
+          code: ValidationErrorCode.tokenNotYetValid,
+          claimPath: isJsonLd ? '$.issuanceDate' : '$.nbf',
+          status: 403
+        };
+      }
+    }
+    if (validationResponse.payloadObject.iat) {
+      // initialize in utc time
+      const iat = (validationResponse.payloadObject.iat - clockSkewToleranceSeconds);
+
+      // A token cannot be issued in the future
+      if (current < iat) {
+        return {
+          result: false,
+          detailedError: `The presented ${(self as ValidationOptions).tokenType} is issued in the future ${iat}, now ${current as number}`,
+          code: ValidationErrorCode.tokenNotYetValid,
+          claimPath: '$.iat',
           status: 403
         };
       }
+
+      if (expected?.maxAgeInSeconds !== undefined) {
+        const maxIat = (validationResponse.payloadObject.iat + expected.maxAgeInSeconds + clockSkewToleranceSeconds);
+
+        // Limits the replay window of tokens without or with a long expiration
+        if (current >= maxIat) {
+          return {
+            result: false,
+            detailedError: `The presented ${(self as ValidationOptions).tokenType} is older than ${expected.maxAgeInSeconds} seconds, issued at ${validationResponse.payloadObject.iat}, now ${current as number}`,
+            code: ValidationErrorCode.tokenExpired,
+            claimPath: '$.iat',
+            status: 403
+          };
+        }
+      }
     }
 
     return validationResponse;
@@ -274,6 +439,7 @@ export class ValidationHelpers {
       return {
         result: false,
         detailedError: `The issuer in configuration was not found`,
+        code: ValidationErrorCode.configurationFetchFailed,
         status: 403
       };
     }
@@ -282,6 +448,8 @@ export class ValidationHelpers {
       return {
         result: false,
         detailedError: `Missing iss property in idToken. Expected '${JSON.stringify(issuer)}'`,
+        code: ValidationErrorCode.invalidIssuer,
+        claimPath: '$.iss',
         status: 403
       };
     }
@@ -290,6 +458,8 @@ export class ValidationHelpers {
       return {
         result: false,
         detailedError: `The issuer in configuration '${issuer}' does not correspond with the issuer in the payload ${validationResponse.issuer}`,
+        code: ValidationErrorCode.invalidIssuer,
+        claimPath: '$.iss',
         status: 403
       };
     }
@@ -299,7 +469,9 @@ export class ValidationHelpers {
       return {
         result: false,
         status: 401,
-        detailedError: `The audience ${validationResponse.payloadObject.aud} is invalid`
+        detailedError: `The audience ${validationResponse.payloadObject.aud} is invalid`,
+        code: ValidationErrorCode.invalidAudience,
+        claimPath: '$.aud'
       };
     }
 
@@ -321,6 +493,8 @@ export class ValidationHelpers {
       return {
         result: false,
         detailedError: `Missing iss property in verifiablePresentation. Expected '${siopDid}'`,
+        code: ValidationErrorCode.invalidIssuer,
+        claimPath: '$.iss',
         status: 403
       };
     }
@@ -329,6 +503,8 @@ export class ValidationHelpers {
       return <IValidationResponse>{
         result: false,
         detailedError: `Wrong iss property in verifiablePresentation. Expected '${siopDid}'`,
+        code: ValidationErrorCode.invalidIssuer,
+        claimPath: '$.iss',
         status: 403
       };
     }
@@ -339,6 +515,8 @@ export class ValidationHelpers {
         return {
           result: false,
           detailedError: `Missing aud property in verifiablePresentation. Expected '${expected.didAudience}'`,
+          code: ValidationErrorCode.invalidAudience,
+          claimPath: '$.aud',
           status: 403
         };
       }
@@ -347,6 +525,8 @@ export class ValidationHelpers {
         return {
           result: false,
           detailedError: `Wrong aud property in verifiablePresentation. Expected '${expected.didAudience}'. Found '${validationResponse.payloadObject.aud}'`,
+          code: ValidationErrorCode.invalidAudience,
+          claimPath: '$.aud',
           status: 403
         };
       }
@@ -370,6 +550,8 @@ export class ValidationHelpers {
       return {
         result: false,
         detailedError: `Missing sub property in verifiableCredential. Expected '${siopDid}'`,
+        code: ValidationErrorCode.invalidSubject,
+        claimPath: '$.sub',
         status: 403
       };
     }
@@ -379,6 +561,8 @@ export class ValidationHelpers {
       return {
         result: false,
         detailedError: `Wrong sub property in verifiableCredential. Expected '${siopDid}'`,
+        code: ValidationErrorCode.invalidSubject,
+        claimPath: '$.sub',
         status: 403
       };
     }
@@ -411,6 +595,8 @@ export class ValidationHelpers {
       return validationResponse = {
         result: false,
         detailedError: `Missing iss property in siop. Expected '${VerifiableCredentialConstants.TOKEN_SI_ISS}'`,
+        code: ValidationErrorCode.invalidIssuer,
+        claimPath: '$.iss',
         status: 403
       };
     }
@@ -419,6 +605,8 @@ export class ValidationHelpers {
       return validationResponse = {
         result: false,
         detailedError: `Wrong iss property in siop. Expected '${VerifiableCredentialConstants.TOKEN_SI_ISS}'`,
+        code: ValidationErrorCode.invalidIssuer,
+        claimPath: '$.iss',
         status: 403
       };
     }
@@ -428,6 +616,8 @@ export class ValidationHelpers {
       return validationResponse = {
         result: false,
         detailedError: `Missing aud property in siop`,
+        code: ValidationErrorCode.invalidAudience,
+        claimPath: '$.aud',
         status: 403
       };
     }
@@ -437,6 +627,8 @@ export class ValidationHelpers {
         return validationResponse = {
           result: false,
           detailedError: `Wrong aud property in siop. Expected '${expected.audience}'`,
+          code: ValidationErrorCode.invalidAudience,
+          claimPath: '$.aud',
           status: 403
         };
       }
@@ -454,21 +646,35 @@ export class ValidationHelpers {
   public async validateDidSignature(validationResponse: IValidationResponse, token: IPayloadProtectionSigning): Promise<IValidationResponse> {
     const self: any = this;
     try {
-      // show header
-      //console.log(`Validate DID signature with kid '${kid}', key kid '${validationResponse.didSigningPublicKey?.kid}'`);
-      const validation = await token.verify([validationResponse.didSigningPublicKey]);
+      (self as ValidationOptions).logger.debug('Validate DID signature', { kid: validationResponse.didSigningPublicKey?.kid });
+      const algorithmResponse = ValidationHelpers.checkAlgorithm(self, ValidationHelpers.getAlgorithm(validationResponse), validationResponse.didSigningPublicKey);
+      if (!algorithmResponse.result) {
+        return algorithmResponse;
+      }
+
+      let validation: boolean;
+      if (validationResponse.payloadProtectionProtocol === JoseBuilder.JSONLDProofs && LinkedDataProofVerifier.isSupported(validationResponse.payloadObject)) {
+        const validatorOptions = (self as ValidationOptions).validatorOptions;
+        const verifier = new LinkedDataProofVerifier(validatorOptions.crypto, validatorOptions.documentLoader || new BundledDocumentLoader());
+        validation = await verifier.verify(validationResponse.payloadObject, validationResponse.didSigningPublicKey);
+      } else {
+        validation = await token.verify([validationResponse.didSigningPublicKey]);
+      }
+
       if (!validation) {
         return validationResponse = {
           result: false,
           detailedError: `The signature on the payload in the ${(self as ValidationOptions).tokenType} is invalid`,
+          code: ValidationErrorCode.invalidSignature,
           status: 403
         };
       }
     } catch (err) {
-      console.error(err);
+      (self as ValidationOptions).logger.error('Failing to validate the DID signature', { did: validationResponse.did, error: err });
       return validationResponse = {
         result: false,
         detailedError: `Failed to validate signature`,
+        code: ValidationErrorCode.invalidSignature,
         status: 403
       };
     }
@@ -489,13 +695,14 @@ export class ValidationHelpers {
     let keys: any;
     try {
       if (token.type === TokenType.idToken) {
-        console.log(`Id token configuration token '${token.id}'`);
+        (self as ValidationOptions).logger.debug('Fetch id token configuration', { configuration: token.id });
         let response = await fetch(token.id);
         if (!response.ok) {
           return {
             result: false,
             status: 403,
-            detailedError: `Could not fetch token configuration needed to validate token`
+            detailedError: `Could not fetch token configuration needed to validate token`,
+            code: ValidationErrorCode.configurationFetchFailed
           };
         }
         const config = await response.json();
@@ -504,16 +711,18 @@ export class ValidationHelpers {
           return {
             result: false,
             status: 403,
-            detailedError: `No reference to jwks found in token configuration`
+            detailedError: `No reference to jwks found in token configuration`,
+            code: ValidationErrorCode.configurationFetchFailed
           };
         }
-        console.log(`Fetch metadata from '${keysUrl}'`);
+        (self as ValidationOptions).logger.debug('Fetch id token keys', { keysUrl });
         response = await fetch(keysUrl);
         if (!response.ok) {
           return {
             result: false,
             status: 403,
-            detailedError: `Could not fetch keys needed to validate token on '${keysUrl}'`
+            detailedError: `Could not fetch keys needed to validate token on '${keysUrl}'`,
+            code: ValidationErrorCode.configurationFetchFailed
           };
         }
         keys = await response.json();
@@ -521,7 +730,8 @@ export class ValidationHelpers {
           return {
             result: false,
             status: 403,
-            detailedError: `No or bad jwks keys found in token configuration`
+            detailedError: `No or bad jwks keys found in token configuration`,
+            code: ValidationErrorCode.configurationFetchFailed
           };
         }
         keys = keys.keys;
@@ -532,16 +742,18 @@ export class ValidationHelpers {
           return {
             result: false,
             status: 403,
-            detailedError: `No issuer found in token configuration`
+            detailedError: `No issuer found in token configuration`,
+            code: ValidationErrorCode.configurationFetchFailed
           };
         }
       }
     } catch (err) {
-      console.error(err);
+      (self as ValidationOptions).logger.error('Failing to fetch the id token configuration', { error: err });
       return {
         result: false,
         status: 403,
-        detailedError: `Could not fetch token configuration`
+        detailedError: `Could not fetch token configuration`,
+        code: ValidationErrorCode.configurationFetchFailed
       };
     }
 
@@ -579,7 +791,8 @@ export class ValidationHelpers {
           return {
             result: false,
             status: 403,
-            detailedError: `Could not validate token signature`
+            detailedError: `Could not validate token signature`,
+            code: ValidationErrorCode.invalidSignature
           };
         }
       }
@@ -590,11 +803,12 @@ export class ValidationHelpers {
       validationResponse.validationResult = { idTokens: <any>token };
       return validationResponse;
     } catch (err) {
-      console.error(err);
+      (self as ValidationOptions).logger.error('Failing to validate the id token signature', { error: err });
       return {
         result: false,
         status: 403,
-        detailedError: `Could not validate signature on id token`
+        detailedError: `Could not validate signature on id token`,
+        code: ValidationErrorCode.invalidSignature
       };
     }
   }
@@ -611,11 +825,17 @@ export class ValidationHelpers {
     try {
       // Get token and check signature
       validationResponse = await (self as IValidationOptions).getTokenObjectDelegate(validationResponse, <string>token.rawToken);
+      const algorithmResponse = ValidationHelpers.checkAlgorithm(self, validationResponse.didSignature?.signatureProtectedHeader?.alg, key);
+      if (!algorithmResponse.result) {
+        return algorithmResponse;
+      }
+
       const validation = await (self as ValidationOptions).validatorOptions.crypto.signingProtocol(validationResponse.payloadProtectionProtocol!).verify([key]);
       if (!validation) {
         return {
           result: false,
           detailedError: `The presented ${(self as ValidationOptions).tokenType} is has an invalid signature`,
+          code: ValidationErrorCode.invalidSignature,
           status: 403
         };
       }
@@ -624,12 +844,56 @@ export class ValidationHelpers {
       validationResponse.detailedError = '';
       return validationResponse;
     } catch (err) {
-      console.error(err);
+      (self as ValidationOptions).logger.error('Failing to validate the token signature', { error: err });
       return {
         result: false,
         detailedError: `Failed to verify token signature`,
+        code: ValidationErrorCode.invalidSignature,
+        status: 403
+      };
+    }
+  }
+
+  /**
+   * Get the JOSE algorithm of the token
+   * @param validationResponse The response with the deserialized token
+   */
+  private static getAlgorithm(validationResponse: IValidationResponse): string | undefined {
+    if (validationResponse.payloadProtectionProtocol !== JoseBuilder.JSONLDProofs) {
+      return validationResponse.didSignature?.signatureProtectedHeader?.alg;
+    }
+
+    if (LinkedDataProofVerifier.isSupported(validationResponse.payloadObject)) {
+      return LinkedDataProofVerifier.getAlgorithm(validationResponse.payloadObject);
+    }
+
+    // The proof suites of the crypto SDK sign with EdDSA
+    return 'EdDSA';
+  }
+
+  /**
+   * Check the algorithm of the token against the allow-list of the token type and the key
+   * @param options The validation options
+   * @param alg The algorithm of the token
+   * @param key The public key in JWK format
+   */
+  private static checkAlgorithm(options: ValidationOptions, alg: string | undefined, key: any): IValidationResponse {
+    // Without alg the signature verification fails
+    const allowedAlgorithms = options.validatorOptions.allowedAlgorithms?.[options.tokenType];
+    const refused = alg ? AlgorithmPolicy.check(alg, key, allowedAlgorithms) : undefined;
+    if (refused) {
+      options.logger.warning('Refusing the token algorithm', { tokenType: options.tokenType, alg, reason: refused });
+      return {
+        result: false,
+        detailedError: `The ${options.tokenType} ${refused}`,
+        code: ValidationErrorCode.invalidAlgorithm,
         status: 403
       };
     }
+
+    return {
+      result: true,
+      status: 200
+    };
   }
 }
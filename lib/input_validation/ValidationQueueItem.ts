@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { ClaimToken } from '../index';
-import { IValidationResponse } from './IValidationResponse';
+import { IValidationResponse, ValidationErrorCode } from './IValidationResponse';
 
 export enum ValidationStatus {
   /**
@@ -33,7 +33,8 @@ export default class ValidationQueueItem {
     this._validationResult = {
       result: false,
       status: 500,
-      detailedError: 'Token not validated'
+      detailedError: 'Token not validated',
+      code: ValidationErrorCode.tokenNotValidated
     };
   }
 
@@ -3,10 +3,13 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 import { IValidationOptions } from '../options/IValidationOptions';
+import NoOpLogger from '../logging/NoOpLogger';
 import { IVerifiableCredentialValidation, VerifiableCredentialValidationResponse } from './VerifiableCredentialValidationResponse';
 import { DidValidation } from './DidValidation';
 import { IExpectedVerifiableCredential, ClaimToken } from '../index';
 import VerifiableCredentialConstants from '../verifiable_credential/VerifiableCredentialConstants';
+import { ValidationErrorCode } from './IValidationResponse';
+import ValidationDiagnostics from './ValidationDiagnostics';
 
 /**
  * Class for verifiable credential validation
@@ -41,6 +44,7 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
     }
 
     const isJwt = typeof verifiableCredential === 'string';
+    const claimRoot = isJwt ? '$.vc' : '$';
     let sub: string | undefined;
     if (isJwt) {
       sub = validationResponse.payloadObject.sub;
@@ -48,6 +52,8 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
         return {
           result: false,
           detailedError: `The verifiable credential vc property does not exist`,
+          code: ValidationErrorCode.missingClaim,
+          claimPath: '$.vc',
           status: 403
         };
       }
@@ -59,6 +65,8 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
       return {
         result: false,
         detailedError: `The verifiable credential vc property does not contain ${VerifiableCredentialConstants.CLAIM_CONTEXT}`,
+        code: ValidationErrorCode.missingClaim,
+        claimPath: `${claimRoot}.${VerifiableCredentialConstants.CLAIM_CONTEXT}`,
         status: 403
       };
     }
@@ -67,6 +75,8 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
       return {
         result: false,
         detailedError: `The verifiable credential context first element should be ${VerifiableCredentialConstants.DEFAULT_VERIFIABLECREDENTIAL_CONTEXT}`,
+        code: ValidationErrorCode.invalidClaim,
+        claimPath: `${claimRoot}.${VerifiableCredentialConstants.CLAIM_CONTEXT}`,
         status: 403
       };
     }
@@ -76,10 +86,12 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
     try {
       credentialType = VerifiableCredentialValidation.getVerifiableCredentialType(validationResponse.payloadObject);
     } catch (exception) {
-      console.error(exception.message);
+      (this.options.logger || new NoOpLogger()).error('Failing to get the verifiable credential type', { error: exception });
       return {
         result: false,
         detailedError: exception.message,
+        code: ValidationErrorCode.invalidClaim,
+        claimPath: `${claimRoot}.type`,
         status: 403
       };
     }
@@ -89,6 +101,8 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
       return {
         result: false,
         detailedError: `The verifiable credential with type '${credentialType}' does not has a credentialSubject property`,
+        code: ValidationErrorCode.missingClaim,
+        claimPath: `${claimRoot}.credentialSubject`,
         status: 403
       };
     }
@@ -96,20 +110,30 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
     if (isJwt) {
       // Check token sub
       if (!sub) {
-        return {
+        validationResponse = ValidationDiagnostics.record(this.options, validationResponse, {
           result: false,
           detailedError: `Missing sub property in verifiableCredential. Expected '${siopDid}'`,
+          code: ValidationErrorCode.invalidSubject,
+          claimPath: '$.sub',
           status: 403
-        };
+        });
+        if (!validationResponse.result) {
+          return validationResponse;
+        }
       }
 
       // check sub value
       if (siopDid && sub !== siopDid) {
-        return {
+        validationResponse = ValidationDiagnostics.record(this.options, validationResponse, {
           result: false,
           detailedError: `Wrong sub property in verifiableCredential. Expected '${siopDid}'`,
+          code: ValidationErrorCode.invalidSubject,
+          claimPath: '$.sub',
           status: 403
-        };
+        });
+        if (!validationResponse.result) {
+          return validationResponse;
+        }
       }
     } else {
       let subjects = [];
@@ -119,11 +143,16 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
         subjects = validationResponse.payloadObject.credentialSubject.map((subject: any) => subject.id);
       }
       if (!subjects.includes(siopDid)) {
-        return {
+        validationResponse = ValidationDiagnostics.record(this.options, validationResponse, {
           result: false,
           detailedError: `The verifiable credential with type '${credentialType}', the id in the credentialSubject property does not match the presenter DID: ${siopDid}`,
+          code: ValidationErrorCode.presenterMismatch,
+          claimPath: `${claimRoot}.credentialSubject.id`,
           status: 403
-        };
+        });
+        if (!validationResponse.result) {
+          return validationResponse;
+        }
       }
     }
 
@@ -133,24 +162,37 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
       const contractIssuers = VerifiableCredentialValidation.getIssuersFromExpected(this.expected, credentialType);
       if (!(contractIssuers instanceof Array)) {
         // Error in issuers
-        return <VerifiableCredentialValidationResponse>contractIssuers;
-      }
-
-      // Check if the we found a matching contract.
-      if (!contractIssuers) {
-        return {
-          result: false,
-          detailedError: `The verifiable credential with type '${credentialType}' is not expected in '${JSON.stringify(this.expected.contractIssuers)}'`,
-          status: 403
-        };
-      }
+        validationResponse = ValidationDiagnostics.record(this.options, validationResponse, <VerifiableCredentialValidationResponse>contractIssuers);
+        if (!validationResponse.result) {
+          return validationResponse;
+        }
+      } else {
+        // Check if the we found a matching contract.
+        if (!contractIssuers) {
+          validationResponse = ValidationDiagnostics.record(this.options, validationResponse, {
+            result: false,
+            detailedError: `The verifiable credential with type '${credentialType}' is not expected in '${JSON.stringify(this.expected.contractIssuers)}'`,
+            code: ValidationErrorCode.unexpectedCredentialType,
+            claimPath: `${claimRoot}.type`,
+            status: 403
+          });
+          if (!validationResponse.result) {
+            return validationResponse;
+          }
+        }
 
-      if (!contractIssuers.includes(validationResponse.issuer!)) {
-        return {
-          result: false,
-          detailedError: `The verifiable credential with type '${credentialType}' is not from a trusted issuer '${JSON.stringify(this.expected.contractIssuers)}'`,
-          status: 403
-        };
+        if (!contractIssuers.includes(validationResponse.issuer!)) {
+          validationResponse = ValidationDiagnostics.record(this.options, validationResponse, {
+            result: false,
+            detailedError: `The verifiable credential with type '${credentialType}' is not from a trusted issuer '${JSON.stringify(this.expected.contractIssuers)}'`,
+            code: ValidationErrorCode.untrustedIssuer,
+            claimPath: isJwt ? '$.iss' : '$.issuer',
+            status: 403
+          });
+          if (!validationResponse.result) {
+            return validationResponse;
+          }
+        }
       }
     }
     validationResponse.validationResult = { verifiableCredentials: <any>ClaimToken.create(verifiableCredential, credentialType) };
@@ -190,7 +232,8 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
       return {
         result: false,
         status: 500,
-        detailedError: `Expected should have contractIssuers set for verifyableCredential`
+        detailedError: `Expected should have contractIssuers set for verifyableCredential`,
+        code: ValidationErrorCode.invalidConfiguration
       };
     }
 
@@ -202,7 +245,8 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
         return {
           result: false,
           status: 500,
-          detailedError: `Expected should have contractIssuers set for verifiableCredential. Empty array presented.`
+          detailedError: `Expected should have contractIssuers set for verifiableCredential. Empty array presented.`,
+          code: ValidationErrorCode.invalidConfiguration
         };
       }
       issuers = <string[]>expected.contractIssuers;
@@ -211,7 +255,8 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
         return {
           result: false,
           status: 500,
-          detailedError: `The credentialType needs to be specified to validate the verifiableCredential.`
+          detailedError: `The credentialType needs to be specified to validate the verifiableCredential.`,
+          code: ValidationErrorCode.invalidConfiguration
         };
       }
 
@@ -220,7 +265,8 @@ export class VerifiableCredentialValidation implements IVerifiableCredentialVali
         return {
           result: false,
           status: 403,
-          detailedError: `Expected should have contractIssuers set for verifiableCredential. Missing contractIssuers for '${credentialType}'.`
+          detailedError: `Expected should have contractIssuers set for verifiableCredential. Missing contractIssuers for '${credentialType}'.`,
+          code: ValidationErrorCode.unexpectedCredentialType
         };
       }
       issuers = <string[]>expected.contractIssuers[credentialType]
@@ -3,10 +3,15 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 import { IValidationOptions } from '../options/IValidationOptions';
+import NoOpLogger from '../logging/NoOpLogger';
 import { IVerifiableCredentialValidation, VerifiableCredentialValidationResponse } from './VerifiableCredentialValidationResponse';
 import { DidValidation } from './DidValidation';
 import { IExpectedVerifiableCredential, ClaimToken, VerifiableCredentialValidation } from '../index';
 import VerifiableCredentialConstants from '../verifiable_credential/VerifiableCredentialConstants';
+import { ValidationErrorCode } from './IValidationResponse';
+import ValidationDiagnostics from './ValidationDiagnostics';
+import LinkedDataProofVerifier from '../linked_data/LinkedDataProofVerifier';
+import SystemClock from '../options/SystemClock';
 import { isContext } from 'vm';
 
 /**
@@ -42,8 +47,15 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
     }
 
     const isJwt = typeof verifiableCredential === 'string';
+    const claimRoot = isJwt ? '$.vc' : '$';
     if (isJwt) {
       validationResponse.payloadObject = validationResponse.payloadObject.vc;
+    } else if (LinkedDataProofVerifier.isSupported(validationResponse.payloadObject)) {
+      // Check the options of the Linked Data proof
+      validationResponse = ValidationDiagnostics.record(this.options, validationResponse, this.validateProofOptions(validationResponse));
+      if (!validationResponse.result) {
+        return validationResponse;
+      }
     }
 
     const context: string[] = validationResponse.payloadObject[VerifiableCredentialConstants.CLAIM_CONTEXT];
@@ -51,6 +63,8 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
       return {
         result: false,
         detailedError: `The verifiable credential vc property does not contain ${VerifiableCredentialConstants.CLAIM_CONTEXT}`,
+        code: ValidationErrorCode.missingClaim,
+        claimPath: `${claimRoot}.${VerifiableCredentialConstants.CLAIM_CONTEXT}`,
         status: 403
       };
     }
@@ -59,6 +73,8 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
       return {
         result: false,
         detailedError: `The verifiable credential context first element should be ${VerifiableCredentialConstants.DEFAULT_VERIFIABLECREDENTIAL_CONTEXT}`,
+        code: ValidationErrorCode.invalidClaim,
+        claimPath: `${claimRoot}.${VerifiableCredentialConstants.CLAIM_CONTEXT}`,
         status: 403
       };
     }
@@ -68,10 +84,12 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
     try {
       credentialType = VerifiableCredentialValidation.getVerifiableCredentialType(validationResponse.payloadObject);
     } catch (exception) {
-      console.error(exception.message);
+      (this.options.logger || new NoOpLogger()).error('Failing to get the verifiable credential type', { error: exception });
       return {
         result: false,
         detailedError: exception.message,
+        code: ValidationErrorCode.invalidClaim,
+        claimPath: `${claimRoot}.type`,
         status: 403
       };
     }
@@ -81,13 +99,15 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
       return {
         result: false,
         detailedError: `The verifiable credential with type '${credentialType}' does not has a credentialSubject property`,
+        code: ValidationErrorCode.missingClaim,
+        claimPath: `${claimRoot}.credentialSubject`,
         status: 403
       };
     }
 
     if (isJwt) {
       // Check token sub
-      validationResponse = await this.options.checkScopeValidityOnVcTokenDelegate(validationResponse, this.expected, siopDid);
+      validationResponse = ValidationDiagnostics.record(this.options, validationResponse, await this.options.checkScopeValidityOnVcTokenDelegate(validationResponse, this.expected, siopDid));
       if (!validationResponse.result) {
         return validationResponse;
       }
@@ -99,11 +119,16 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
         subjects = validationResponse.payloadObject.credentialSubject.map((subject: any) => subject.id);
       }
       if (!subjects.includes(siopDid)) {
-        return {
+        validationResponse = ValidationDiagnostics.record(this.options, validationResponse, {
           result: false,
           detailedError: `The verifiable credential with type '${credentialType}', the id in the credentialSubject property does not match the presenter DID: ${siopDid}`,
+          code: ValidationErrorCode.presenterMismatch,
+          claimPath: '$.credentialSubject.id',
           status: 403
-        };
+        });
+        if (!validationResponse.result) {
+          return validationResponse;
+        }
       }
     }
 
@@ -113,27 +138,120 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
       const contractIssuers = VerifiableCredentialValidation.getIssuersFromExpected(this.expected, credentialType);
       if (!(contractIssuers instanceof Array)) {
         // Error in issuers
-        return <VerifiableCredentialValidationResponse>contractIssuers;
-      }
+        validationResponse = ValidationDiagnostics.record(this.options, validationResponse, <VerifiableCredentialValidationResponse>contractIssuers);
+        if (!validationResponse.result) {
+          return validationResponse;
+        }
+      } else {
+        // Check if the we found a matching contract.
+        if (!contractIssuers) {
+          validationResponse = ValidationDiagnostics.record(this.options, validationResponse, {
+            result: false,
+            detailedError: `The verifiable credential with type '${credentialType}' is not expected in '${JSON.stringify(this.expected.contractIssuers)}'`,
+            code: ValidationErrorCode.unexpectedCredentialType,
+            claimPath: `${claimRoot}.type`,
+            status: 403
+          });
+          if (!validationResponse.result) {
+            return validationResponse;
+          }
+        }
 
-      // Check if the we found a matching contract.
-      if (!contractIssuers) {
-        return {
-          result: false,
-          detailedError: `The verifiable credential with type '${credentialType}' is not expected in '${JSON.stringify(this.expected.contractIssuers)}'`,
-          status: 403
-        };
+        if (!contractIssuers.includes(validationResponse.issuer!)) {
+          validationResponse = ValidationDiagnostics.record(this.options, validationResponse, {
+            result: false,
+            detailedError: `The verifiable credential with type '${credentialType}' is not from a trusted issuer '${JSON.stringify(this.expected.contractIssuers)}'`,
+            code: ValidationErrorCode.untrustedIssuer,
+            claimPath: isJwt ? '$.iss' : '$.issuer',
+            status: 403
+          });
+          if (!validationResponse.result) {
+            return validationResponse;
+          }
+        }
       }
+    }
+    validationResponse.validationResult = { verifiableCredentials: <any>ClaimToken.create(verifiableCredential, credentialType) };
+    return validationResponse;
+  }
+
+  /**
+   * Check the verificationMethod, proofPurpose, created, domain and challenge of the Linked Data proof
+   * @param validationResponse The response with the payload of the verifiable credential
+   */
+  private validateProofOptions(validationResponse: VerifiableCredentialValidationResponse): VerifiableCredentialValidationResponse {
+    // The credential must be signed by a key of the issuer
+    const issuer = validationResponse.payloadObject.issuer;
+    const issuerDid = issuer && typeof issuer === 'object' ? issuer.id : issuer;
+    if (issuerDid !== validationResponse.did) {
+      return {
+        result: false,
+        detailedError: `The proof is signed by '${validationResponse.did}' instead of the issuer '${issuerDid}'`,
+        code: ValidationErrorCode.invalidIssuer,
+        claimPath: '$.issuer',
+        status: 403
+      };
+    }
 
-      if (!contractIssuers.includes(validationResponse.issuer!)) {
+    const proof = validationResponse.payloadObject.proof;
+    const proofPurpose = this.expected.proofPurpose || VerifiableCredentialConstants.DEFAULT_CREDENTIAL_PROOF_PURPOSE;
+    if (proof.proofPurpose !== proofPurpose) {
+      return {
+        result: false,
+        detailedError: `The proof has proofPurpose '${proof.proofPurpose}', expected '${proofPurpose}'`,
+        code: ValidationErrorCode.invalidProof,
+        claimPath: '$.proof.proofPurpose',
+        status: 403
+      };
+    }
+
+    const created = Date.parse(proof.created);
+    if (isNaN(created)) {
+      return {
+        result: false,
+        detailedError: `The proof does not contain a valid created date`,
+        code: ValidationErrorCode.invalidProof,
+        claimPath: '$.proof.created',
+        status: 403
+      };
+    }
+
+    const validatorOptions = this.options.validatorOptions;
+    const current = Math.trunc((validatorOptions.clock || new SystemClock()).now() / 1000);
+    const clockSkew = validatorOptions.clockSkewInSeconds ?? VerifiableCredentialConstants.DEFAULT_CLOCK_SKEW_IN_SECONDS;
+    if (current < Math.trunc(created / 1000) - clockSkew) {
+      return {
+        result: false,
+        detailedError: `The proof is created in the future ${proof.created}`,
+        code: ValidationErrorCode.tokenNotYetValid,
+        claimPath: '$.proof.created',
+        status: 403
+      };
+    }
+
+    if (this.expected.domain) {
+      const domains: string[] = Array.isArray(proof.domain) ? proof.domain : [proof.domain];
+      if (!domains.includes(this.expected.domain)) {
         return {
           result: false,
-          detailedError: `The verifiable credential with type '${credentialType}' is not from a trusted issuer '${JSON.stringify(this.expected.contractIssuers)}'`,
+          detailedError: `The proof has domain '${proof.domain}', expected '${this.expected.domain}'`,
+          code: ValidationErrorCode.invalidProof,
+          claimPath: '$.proof.domain',
           status: 403
         };
       }
     }
-    validationResponse.validationResult = { verifiableCredentials: <any>ClaimToken.create(verifiableCredential, credentialType) };
+
+    if (this.expected.challenge && proof.challenge !== this.expected.challenge) {
+      return {
+        result: false,
+        detailedError: `The proof has challenge '${proof.challenge}', expected '${this.expected.challenge}'`,
+        code: ValidationErrorCode.invalidProof,
+        claimPath: '$.proof.challenge',
+        status: 403
+      };
+    }
+
     return validationResponse;
   }
 
@@ -170,7 +288,8 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
       return {
         result: false,
         status: 500,
-        detailedError: `Expected should have contractIssuers set for verifyableCredential`
+        detailedError: `Expected should have contractIssuers set for verifyableCredential`,
+        code: ValidationErrorCode.invalidConfiguration
       };
     }
 
@@ -182,7 +301,8 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
         return {
           result: false,
           status: 500,
-          detailedError: `Expected should have contractIssuers set for verifiableCredential. Empty array presented.`
+          detailedError: `Expected should have contractIssuers set for verifiableCredential. Empty array presented.`,
+          code: ValidationErrorCode.invalidConfiguration
         };
       }
       issuers = <string[]>expected.contractIssuers;
@@ -191,7 +311,8 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
         return {
           result: false,
           status: 500,
-          detailedError: `The credentialType needs to be specified to validate the verifiableCredential.`
+          detailedError: `The credentialType needs to be specified to validate the verifiableCredential.`,
+          code: ValidationErrorCode.invalidConfiguration
         };
       }
 
@@ -200,7 +321,8 @@ export class VerifiableCredentialValidationJsonLd implements IVerifiableCredenti
         return {
           result: false,
           status: 403,
-          detailedError: `Expected should have contractIssuers set for verifiableCredential. Missing contractIssuers for '${credentialType}'.`
+          detailedError: `Expected should have contractIssuers set for verifiableCredential. Missing contractIssuers for '${credentialType}'.`,
+          code: ValidationErrorCode.unexpectedCredentialType
         };
       }
       issuers = <string[]>expected.contractIssuers[credentialType]
@@ -8,6 +8,8 @@ import ClaimToken from '../verifiable_credential/ClaimToken';
 import { DidValidation } from './DidValidation';
 import VerifiableCredentialConstants from '../verifiable_credential/VerifiableCredentialConstants';
 import { IExpectedVerifiablePresentation } from '../index';
+import { ValidationErrorCode } from './IValidationResponse';
+import ValidationDiagnostics from './ValidationDiagnostics';
 import { Crypto } from '../index';
 import { KeyStoreOptions, JsonWebKey } from 'verifiablecredentials-crypto-sdk-typescript';
 
@@ -49,25 +51,32 @@ export class VerifiablePresentationValidation implements IVerifiablePresentation
     }
 
     // Check token scope (aud and iss)
-    validationResponse = await this.options.checkScopeValidityOnVpTokenDelegate(validationResponse, this.expected, this.siopDid);
+    validationResponse = ValidationDiagnostics.record(this.options, validationResponse, await this.options.checkScopeValidityOnVpTokenDelegate(validationResponse, this.expected, this.siopDid));
     if (!validationResponse.result) {
       return validationResponse;
     }
 
     // Check if VP and SIOP DID are equal
     if (this.siopDid && validationResponse.did !== this.siopDid) {
-      return {
+      validationResponse = ValidationDiagnostics.record(this.options, validationResponse, {
         result: false,
         detailedError: `The DID used for the SIOP ${this.siopDid} is not equal to the DID used for the verifiable presentation ${validationResponse.did}`,
+        code: ValidationErrorCode.presenterMismatch,
+        claimPath: '$.iss',
         status: 403
-      };
+      });
+      if (!validationResponse.result) {
+        return validationResponse;
+      }
     }
 
     if (!validationResponse.payloadObject.vp) {
       return {
         result: false,
         status: 403,
-        detailedError: `Missing vp in presentation`
+        detailedError: `Missing vp in presentation`,
+        code: ValidationErrorCode.missingClaim,
+        claimPath: '$.vp'
       };
     }
 
@@ -75,7 +84,9 @@ export class VerifiablePresentationValidation implements IVerifiablePresentation
       return {
         result: false,
         status: 403,
-        detailedError: `Missing @context in presentation`
+        detailedError: `Missing @context in presentation`,
+        code: ValidationErrorCode.missingClaim,
+        claimPath: '$.vp.@context'
       };
     }
 
@@ -83,14 +94,18 @@ export class VerifiablePresentationValidation implements IVerifiablePresentation
       return {
         result: false,
         status: 403,
-        detailedError: `Missing or wrong default type in vp of presentation. Should be ${VerifiableCredentialConstants.DEFAULT_VERIFIABLEPRESENTATION_TYPE}`
+        detailedError: `Missing or wrong default type in vp of presentation. Should be ${VerifiableCredentialConstants.DEFAULT_VERIFIABLEPRESENTATION_TYPE}`,
+        code: ValidationErrorCode.invalidClaim,
+        claimPath: '$.vp.type'
       };
     }
     if (!validationResponse.payloadObject.vp['verifiableCredential']) {
       return {
         result: false,
         status: 403,
-        detailedError: `Missing verifiableCredential in presentation`
+        detailedError: `Missing verifiableCredential in presentation`,
+        code: ValidationErrorCode.missingClaim,
+        claimPath: '$.vp.verifiableCredential'
       };
     }
     return validationResponse;
@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import IDocumentLoader, { IRemoteDocument } from './IDocumentLoader';
+import CredentialsV1Context from './contexts/CredentialsV1Context';
+import DidV1Context from './contexts/DidV1Context';
+import Ed25519Signature2018V1Context from './contexts/Ed25519Signature2018V1Context';
+import Ed25519Signature2020V1Context from './contexts/Ed25519Signature2020V1Context';
+import JsonWebSignature2020V1Context from './contexts/JsonWebSignature2020V1Context';
+import SecurityV1Context from './contexts/SecurityV1Context';
+import SecurityV2Context from './contexts/SecurityV2Context';
+
+/**
+ * Document loader serving the W3C credentials, DID and security contexts from bundled copies,
+ * so canonicalization works offline and cannot be influenced by the network.
+ * @class
+ * @implements IDocumentLoader
+ */
+export default class BundledDocumentLoader implements IDocumentLoader {
+  /**
+   * The bundled contexts keyed by their url
+   */
+  public static readonly contexts: { [url: string]: any } = {
+    'https://www.w3.org/2018/credentials/v1': CredentialsV1Context,
+    'https://www.w3.org/ns/did/v1': DidV1Context,
+    'https://w3id.org/did/v1': DidV1Context,
+    'https://w3id.org/security/v1': SecurityV1Context,
+    'https://w3id.org/security/v2': SecurityV2Context,
+    'https://w3id.org/security/suites/ed25519-2018/v1': Ed25519Signature2018V1Context,
+    'https://w3id.org/security/suites/ed25519-2020/v1': Ed25519Signature2020V1Context,
+    'https://w3id.org/security/suites/jws-2020/v1': JsonWebSignature2020V1Context
+  };
+
+  private _contexts: { [url: string]: any } = { ...BundledDocumentLoader.contexts };
+
+  /**
+   * Create a new instance of <see @class BundledDocumentLoader>
+   * @param _loader Optional loader for the documents which are not bundled
+   */
+  constructor(private _loader?: IDocumentLoader) {
+  }
+
+  /**
+   * Add a context for this loader, e.g. the context of a credential type
+   * @param url The url of the context
+   * @param document The context document
+   * @returns The document loader
+   */
+  public addContext(url: string, document: any): BundledDocumentLoader {
+    this._contexts[url] = document;
+    return this;
+  }
+
+  /**
+   * Load a document
+   * @inheritdoc
+   */
+  public async load(url: string): Promise<IRemoteDocument> {
+    const document = this._contexts[url];
+    if (document) {
+      return {
+        contextUrl: null,
+        documentUrl: url,
+        document
+      };
+    }
+
+    if (!this._loader) {
+      return Promise.reject(new Error(`The document '${url}' is not available in the document loader`));
+    }
+
+    return this._loader.load(url);
+  }
+}
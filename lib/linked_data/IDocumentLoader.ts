@@ -0,0 +1,36 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Interface to model a document retrieved by a document loader
+ */
+export interface IRemoteDocument {
+  /**
+   * The url of a context linked in the http Link header
+   */
+  contextUrl?: string | null;
+
+  /**
+   * The final url of the document
+   */
+  documentUrl: string;
+
+  /**
+   * The parsed document
+   */
+  document: any;
+}
+
+/**
+ * Interface to model the loader of the JSON-LD contexts used during canonicalization
+ */
+export default interface IDocumentLoader {
+  /**
+   * Load a document
+   * @param url The url of the document
+   * @returns The loaded document. Rejects when the document cannot be loaded.
+   */
+  load(url: string): Promise<IRemoteDocument>;
+}
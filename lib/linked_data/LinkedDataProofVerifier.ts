@@ -0,0 +1,162 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { Crypto, CryptoHelpers, SubtleCryptoExtension } from 'verifiablecredentials-crypto-sdk-typescript';
+import base64url from 'base64url';
+import { createHash } from 'crypto';
+import IDocumentLoader from './IDocumentLoader';
+const jsonld = require('jsonld');
+const bs58 = require('bs58');
+
+/**
+ * Verifier for Data Integrity proofs on JSON-LD documents.
+ * The document and the proof options are canonicalized with URDNA2015 before the signature is checked.
+ * Suites: Ed25519Signature2018, Ed25519Signature2020 and JsonWebSignature2020
+ */
+export default class LinkedDataProofVerifier {
+  /**
+   * The supported proof suites
+   */
+  public static readonly SUITES = ['Ed25519Signature2018', 'Ed25519Signature2020', 'JsonWebSignature2020'];
+
+  /**
+   * The proof properties holding the signature, these are not part of the signed proof options
+   */
+  private static readonly signatureProperties = ['jws', 'proofValue', 'signatureValue'];
+
+  /**
+   * Web crypto algorithms which are not mapped by the crypto SDK
+   */
+  private static readonly algorithms: { [alg: string]: any } = {
+    ES256: { name: 'ECDSA', namedCurve: 'P-256', hash: { name: 'SHA-256' } }
+  };
+
+  /**
+   * Create a new instance of <see @class LinkedDataProofVerifier>
+   * @param _crypto The crypto object used to verify the signature
+   * @param _documentLoader The loader for the JSON-LD contexts
+   */
+  constructor(private _crypto: Crypto, private _documentLoader: IDocumentLoader) {
+  }
+
+  /**
+   * Check if the document has a proof of a supported suite
+   * @param document The JSON-LD document
+   */
+  public static isSupported(document: any): boolean {
+    const proof = document?.proof;
+    return !!proof && typeof proof === 'object' && !Array.isArray(proof) && LinkedDataProofVerifier.SUITES.includes(proof.type);
+  }
+
+  /**
+   * Get the JOSE algorithm of the proof on the document
+   * @param document The JSON-LD document with the proof
+   * @returns The algorithm, undefined if the proof has no valid jws
+   */
+  public static getAlgorithm(document: any): string | undefined {
+    const proof = document?.proof;
+    if (proof?.type === 'Ed25519Signature2020') {
+      return 'EdDSA';
+    }
+
+    try {
+      return JSON.parse(base64url.decode(proof.jws.split('.')[0])).alg;
+    } catch (exception) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Verify the proof on the document
+   * @param document The JSON-LD document with the proof
+   * @param publicKey The public key in JWK format
+   * @returns True if the signature is valid
+   */
+  public async verify(document: any, publicKey: any): Promise<boolean> {
+    if (!LinkedDataProofVerifier.isSupported(document)) {
+      throw new Error(`The proof type '${document?.proof?.type}' is not supported`);
+    }
+
+    const proof = document.proof;
+    const verifyData = await this.createVerifyData(document);
+    if (proof.type === 'Ed25519Signature2020') {
+      const proofValue: string = proof.proofValue;
+      if (!proofValue || !proofValue.startsWith('z')) {
+        throw new Error('The proof does not contain a base58btc multibase proofValue');
+      }
+
+      return this.verifySignature('EdDSA', publicKey, bs58.decode(proofValue.substring(1)), verifyData);
+    }
+
+    // Detached JWS with unencoded payload, RFC 7797
+    const jws: string = proof.jws;
+    const [encodedHeader, payload, signature] = (jws || '').split('.');
+    if (!encodedHeader || payload !== '' || !signature) {
+      throw new Error('The proof does not contain a detached jws');
+    }
+
+    const header = JSON.parse(base64url.decode(encodedHeader));
+    if (header.b64 !== false || !Array.isArray(header.crit) || !header.crit.includes('b64')) {
+      throw new Error('The jws in the proof must have an unencoded payload');
+    }
+
+    if (proof.type === 'Ed25519Signature2018' && header.alg !== 'EdDSA') {
+      throw new Error(`The jws in the proof has alg '${header.alg}', expected 'EdDSA'`);
+    }
+
+    const signingInput = Buffer.concat([Buffer.from(`${encodedHeader}.`, 'utf8'), verifyData]);
+    return this.verifySignature(header.alg, publicKey, base64url.toBuffer(signature), signingInput);
+  }
+
+  /**
+   * Create the data which is signed by the proof.
+   * This is the hash of the canonicalized proof options followed by the hash of the canonicalized document.
+   * @param document The JSON-LD document with the proof
+   */
+  public async createVerifyData(document: any): Promise<Buffer> {
+    const { proof, ...unsecuredDocument } = document;
+    const proofOptions: any = { ...proof, '@context': document['@context'] };
+    for (const property of LinkedDataProofVerifier.signatureProperties) {
+      delete proofOptions[property];
+    }
+
+    const canonicalProof = await this.canonize(proofOptions);
+    const canonicalDocument = await this.canonize(unsecuredDocument);
+    return Buffer.concat([
+      createHash('sha256').update(canonicalProof, 'utf8').digest(),
+      createHash('sha256').update(canonicalDocument, 'utf8').digest()
+    ]);
+  }
+
+  /**
+   * Canonicalize the input with URDNA2015
+   * @param input The JSON-LD input
+   */
+  private canonize(input: any): Promise<string> {
+    return jsonld.canonize(input, {
+      algorithm: 'URDNA2015',
+      format: 'application/n-quads',
+      documentLoader: (url: string) => this._documentLoader.load(url),
+      expansionMap: (info: any) => {
+        // Unsigned data could be added under terms which are silently dropped
+        if (info.unmappedProperty) {
+          throw new Error(`The property '${info.unmappedProperty}' is not defined in the context`);
+        }
+      }
+    });
+  }
+
+  /**
+   * Verify the signature with the public key
+   * @param alg The JWA algorithm
+   * @param publicKey The public key in JWK format
+   * @param signature The signature
+   * @param data The signed data
+   */
+  private verifySignature(alg: string, publicKey: any, signature: Buffer, data: Buffer): Promise<boolean> {
+    const algorithm = LinkedDataProofVerifier.algorithms[alg] || CryptoHelpers.jwaToWebCrypto(alg);
+    const subtleExtension = new SubtleCryptoExtension(this._crypto.builder.cryptoFactory);
+    return subtleExtension.verifyByJwk(algorithm, publicKey, signature, data);
+  }
+}
@@ -0,0 +1,71 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import ILogger, { ILogFields, LogLevel } from './ILogger';
+
+/**
+ * Logger writing the entries with at least the configured level to the console
+ * @class
+ * @implements ILogger
+ */
+export default class ConsoleLogger implements ILogger {
+  private static readonly levels: LogLevel[] = [LogLevel.debug, LogLevel.info, LogLevel.warning, LogLevel.error];
+
+  /**
+   * Create a new instance of <see @class ConsoleLogger>
+   * @param _level The lowest level to write
+   */
+  constructor(private _level: LogLevel = LogLevel.info) {
+  }
+
+  /**
+   * Gets the lowest level written to the console
+   */
+  public get level(): LogLevel {
+    return this._level;
+  }
+
+  public debug(message: string, fields?: ILogFields): void {
+    if (this.isEnabled(LogLevel.debug)) {
+      console.debug(this.format(LogLevel.debug, message, fields));
+    }
+  }
+
+  public info(message: string, fields?: ILogFields): void {
+    if (this.isEnabled(LogLevel.info)) {
+      console.info(this.format(LogLevel.info, message, fields));
+    }
+  }
+
+  public warning(message: string, fields?: ILogFields): void {
+    if (this.isEnabled(LogLevel.warning)) {
+      console.warn(this.format(LogLevel.warning, message, fields));
+    }
+  }
+
+  public error(message: string, fields?: ILogFields): void {
+    if (this.isEnabled(LogLevel.error)) {
+      console.error(this.format(LogLevel.error, message, fields));
+    }
+  }
+
+  /**
+   * Check if entries of the level are written
+   * @param level The level of the entry
+   */
+  private isEnabled(level: LogLevel): boolean {
+    return ConsoleLogger.levels.indexOf(level) >= ConsoleLogger.levels.indexOf(this._level);
+  }
+
+  /**
+   * Format the entry as a single line
+   * @param level The level of the entry
+   * @param message The message of the entry
+   * @param fields Structured fields of the entry
+   */
+  private format(level: LogLevel, message: string, fields?: ILogFields): string {
+    const line = `[${level}] ${message}`;
+    return fields && Object.keys(fields).length > 0 ? `${line} ${JSON.stringify(fields)}` : line;
+  }
+}
@@ -0,0 +1,69 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Defines the severity of a log entry
+ */
+export enum LogLevel {
+  /**
+   * Detailed tracing of the validation
+   */
+  debug = 'debug',
+
+  /**
+   * Normal operation
+   */
+  info = 'info',
+
+  /**
+   * Unexpected condition which does not stop the operation
+   */
+  warning = 'warning',
+
+  /**
+   * Failure of the operation
+   */
+  error = 'error'
+}
+
+/**
+ * Structured fields added to a log entry
+ */
+export interface ILogFields {
+  [name: string]: any
+}
+
+/**
+ * Interface to model a logger
+ */
+export default interface ILogger {
+  /**
+   * Log a debug message
+   * @param message The message to log
+   * @param fields Structured fields of the entry
+   */
+  debug(message: string, fields?: ILogFields): void;
+
+  /**
+   * Log an informational message
+   * @param message The message to log
+   * @param fields Structured fields of the entry
+   */
+  info(message: string, fields?: ILogFields): void;
+
+  /**
+   * Log a warning
+   * @param message The message to log
+   * @param fields Structured fields of the entry
+   */
+  warning(message: string, fields?: ILogFields): void;
+
+  /**
+   * Log an error
+   * @param message The message to log
+   * @param fields Structured fields of the entry
+   */
+  error(message: string, fields?: ILogFields): void;
+}
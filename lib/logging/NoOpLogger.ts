@@ -0,0 +1,24 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import ILogger, { ILogFields } from './ILogger';
+
+/**
+ * Logger which drops all entries. Used when no logger is configured.
+ * @class
+ * @implements ILogger
+ */
+export default class NoOpLogger implements ILogger {
+  public debug(_message: string, _fields?: ILogFields): void {
+  }
+
+  public info(_message: string, _fields?: ILogFields): void {
+  }
+
+  public warning(_message: string, _fields?: ILogFields): void {
+  }
+
+  public error(_message: string, _fields?: ILogFields): void {
+  }
+}
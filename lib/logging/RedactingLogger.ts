@@ -0,0 +1,87 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import ILogger, { ILogFields } from './ILogger';
+
+/**
+ * Logger removing token bodies from the entries before passing them to the configured logger.
+ * Tokens contain personal data of the holder which must not end up in the logs.
+ * @class
+ * @implements ILogger
+ */
+export default class RedactingLogger implements ILogger {
+  /**
+   * Replaces a redacted value
+   */
+  public static readonly REDACTED = '[redacted]';
+
+  /**
+   * Matches compact JWS/JWE serializations, their header always starts with '{"'
+   */
+  private static readonly compactToken = /eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*(\.[A-Za-z0-9_-]*\.[A-Za-z0-9_-]*)?/g;
+
+  /**
+   * Fields holding a token or key material
+   */
+  private static readonly sensitiveFields = ['rawToken', '_rawToken', 'decodedToken', '_decodedToken', 'token', 'tokenToValidate', 'vp', 'vc', 'proof', 'sub_jwk', 'd'];
+
+  /**
+   * Create a new instance of <see @class RedactingLogger>
+   * @param _logger The logger receiving the redacted entries
+   */
+  constructor(private _logger: ILogger) {
+  }
+
+  /**
+   * Gets the logger receiving the redacted entries
+   */
+  public get logger(): ILogger {
+    return this._logger;
+  }
+
+  public debug(message: string, fields?: ILogFields): void {
+    this._logger.debug(RedactingLogger.redact(message), RedactingLogger.redact(fields));
+  }
+
+  public info(message: string, fields?: ILogFields): void {
+    this._logger.info(RedactingLogger.redact(message), RedactingLogger.redact(fields));
+  }
+
+  public warning(message: string, fields?: ILogFields): void {
+    this._logger.warning(RedactingLogger.redact(message), RedactingLogger.redact(fields));
+  }
+
+  public error(message: string, fields?: ILogFields): void {
+    this._logger.error(RedactingLogger.redact(message), RedactingLogger.redact(fields));
+  }
+
+  /**
+   * Remove the token bodies from a value
+   * @param value The value to redact
+   */
+  public static redact(value: any): any {
+    if (typeof value === 'string') {
+      return value.replace(RedactingLogger.compactToken, RedactingLogger.REDACTED);
+    }
+
+    if (value instanceof Error) {
+      return RedactingLogger.redact(value.message);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => RedactingLogger.redact(item));
+    }
+
+    if (value && typeof value === 'object') {
+      const redacted: any = {};
+      for (const key of Object.keys(value)) {
+        redacted[key] = RedactingLogger.sensitiveFields.includes(key) ? RedactingLogger.REDACTED : RedactingLogger.redact(value[key]);
+      }
+
+      return redacted;
+    }
+
+    return value;
+  }
+}
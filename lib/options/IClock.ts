@@ -0,0 +1,14 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Interface to model the source of the current time
+ */
+export default interface IClock {
+  /**
+   * Gets the current time in milliseconds since the epoch
+   */
+  now(): number;
+}
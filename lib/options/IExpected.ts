@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { TokenType } from '../index';
+import { TokenType, PresentationDefinitionModel } from '../index';
 
 /**
  * Type issuer mapping
@@ -24,10 +24,31 @@ export interface IExpectedBase {
 }
 
 
+/**
+ * Expected lifetime of a token
+ */
+export interface IExpectedTokenAge {
+
+  /**
+   * Maximum age of the token in seconds, based on iat. Requires iat in the token.
+   */
+  maxAgeInSeconds?: number,
+
+  /**
+   * True if the token must have an exp claim
+   */
+  requireExpiration?: boolean,
+
+  /**
+   * True if the token must have an iat claim
+   */
+  requireIssuedAt?: boolean
+}
+
 /**
  * Expected values for SIOP
  */
-export interface IExpectedSiop extends IExpectedBase {
+export interface IExpectedSiop extends IExpectedBase, IExpectedTokenAge {
 
  /**
    * Expected audience url to where the siop was presented
@@ -42,13 +63,18 @@ export interface IExpectedSiop extends IExpectedBase {
  /**
    * Expected nonce in the siop
    */
-  nonce?: string
+  nonce?: string,
+
+ /**
+   * The presentation definition of the request, the presentation submission must match it
+   */
+  presentationDefinition?: PresentationDefinitionModel
 }
 
 /**
  * Expected values for verifiable presentation
  */
-export interface IExpectedVerifiablePresentation extends IExpectedBase {
+export interface IExpectedVerifiablePresentation extends IExpectedBase, IExpectedTokenAge {
 
   /**
    * Expected audience DID of the receiver of the siop
@@ -73,14 +99,35 @@ export interface IExpectedStatusReceipt extends IExpectedBase {
   
 }
 
+/**
+ * Expected options of the Linked Data proof on JSON-LD credentials
+ */
+export interface IExpectedLinkedDataProof {
+
+  /**
+   * Expected proofPurpose of the Linked Data proof on JSON-LD credentials. Defaults to assertionMethod.
+   */
+  proofPurpose?: string,
+
+  /**
+   * Expected domain of the Linked Data proof on JSON-LD credentials
+   */
+  domain?: string,
+
+  /**
+   * Expected challenge of the Linked Data proof on JSON-LD credentials
+   */
+  challenge?: string
+}
+
 /**
  * Expected values for verifiable credentials
  */
-export interface IExpectedVerifiableCredential extends IExpectedBase {
+export interface IExpectedVerifiableCredential extends IExpectedBase, IExpectedLinkedDataProof {
   /**
    * Expected issuers for the different contracts.
    */
-  contractIssuers?: IssuerMap,
+  contractIssuers?: IssuerMap
 }
 
 /**
@@ -101,7 +148,7 @@ export interface IExpectedAudience {
 /**
  * Expected values for id tokens
  */
-export interface IExpectedIdToken extends IExpectedBase, IExpectedAudience {
+export interface IExpectedIdToken extends IExpectedBase, IExpectedAudience, IExpectedTokenAge {
   /**
    * Expected issuers configuration endpoint for the different contracts.
    */
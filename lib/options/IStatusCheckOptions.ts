@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Defines what the validator does when a status request times out
+ */
+export enum StatusTimeoutPolicy {
+  /**
+   * Reject the verifiable credential
+   */
+  fail = 'fail',
+
+  /**
+   * Accept the verifiable credential with status unknown in verifiablePresentationStatus
+   */
+  unknown = 'unknown'
+}
+
+/**
+ * Interface to model the options of the status requests
+ */
+export default interface IStatusCheckOptions {
+  /**
+   * The timeout in milliseconds of a single status request
+   */
+  timeoutInMilliseconds?: number;
+
+  /**
+   * The number of retries of a status request answered with a server error
+   */
+  maxRetries?: number;
+
+  /**
+   * The delay in milliseconds before the first retry, doubled for each next retry
+   */
+  retryDelayInMilliseconds?: number;
+
+  /**
+   * What to do when a status request times out
+   */
+  timeoutPolicy?: StatusTimeoutPolicy;
+
+  /**
+   * The maximum time in seconds a status from the status cache is used, even when the receipt expires later
+   */
+  maxStalenessInSeconds?: number;
+}
@@ -7,13 +7,14 @@ import { IValidationResponse } from '../input_validation/IValidationResponse';
 import { IPayloadProtectionSigning } from 'verifiablecredentials-crypto-sdk-typescript';
 import { ValidationHelpers } from '../input_validation/ValidationHelpers';
 import IValidatorOptions from './IValidatorOptions';
-import { IExpectedBase, IExpectedVerifiablePresentation, IExpectedVerifiableCredential, IExpectedAudience } from './IExpected';
+import ILogger from '../logging/ILogger';
+import { IExpectedBase, IExpectedVerifiablePresentation, IExpectedVerifiableCredential, IExpectedAudience, IExpectedTokenAge } from './IExpected';
 
  export type GetTokenObject = (validationResponse: IValidationResponse, token: string | object) => Promise<IValidationResponse>;
  export type ResolveDidAndGetKeys = (validationResponse: IValidationResponse) => Promise<IValidationResponse>;
  export type ValidateDidSignature = (validationResponse: IValidationResponse, token: IPayloadProtectionSigning) => Promise<IValidationResponse>;
  export type CheckTimeValidityOnIdToken = (validationResponse: IValidationResponse, driftInSec?: number) => IValidationResponse;
- export type CheckTimeValidityOnToken = (validationResponse: IValidationResponse, driftInSec?: number) => IValidationResponse;
+ export type CheckTimeValidityOnToken = (validationResponse: IValidationResponse, driftInSec?: number, expected?: IExpectedTokenAge) => IValidationResponse;
  export type CheckScopeValidityOnToken = (validationResponse: IValidationResponse, expected: IExpectedBase) => IValidationResponse;
  export type CheckScopeValidityOnIdToken = (validationResponse: IValidationResponse, expected: IExpectedAudience) => IValidationResponse;
  export type CheckScopeValidityOnVpToken = (validationResponse: IValidationResponse, expected: IExpectedVerifiablePresentation, siopDid: string) => IValidationResponse;
@@ -36,6 +37,11 @@ validatorOptions: IValidatorOptions;
  */
 validationHelpers: ValidationHelpers;
 
+/**
+ * Gets the logger, entries are dropped if not specified
+ */
+logger?: ILogger;
+
 /**
  * Get the token object from the request body
  */
@@ -4,6 +4,9 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { IDidResolver, Crypto } from '../index';
+import ILogger from '../logging/ILogger';
+import IClock from './IClock';
+import IDocumentLoader from '../linked_data/IDocumentLoader';
 
 /**
  * Interface to model the fetch options
@@ -30,5 +33,46 @@ export default interface IValidatorOptions {
     /**
      * Get the crypto options
      */
-    crypto: Crypto
+    crypto: Crypto,
+
+    /**
+     * True if the resolver is checked for updates of long-form DIDs
+     */
+    longFormDidUpdateCheck?: boolean,
+
+    /**
+     * True if validation continues after a failed check to report all failures
+     */
+    diagnosticMode?: boolean,
+
+    /**
+     * The logger, tokens are redacted
+     */
+    logger?: ILogger,
+
+    /**
+     * The source of the current time for the time checks
+     */
+    clock?: IClock,
+
+    /**
+     * Tolerance for clock drifts in seconds
+     */
+    clockSkewInSeconds?: number,
+
+    /**
+     * The loader for the JSON-LD contexts used to verify Linked Data proofs
+     */
+    documentLoader?: IDocumentLoader,
+
+    /**
+     * True if keys of DID documents without verification relationships can be used for all tokens.
+     * Defaults to true.
+     */
+    legacyPublicKeyDocuments?: boolean,
+
+    /**
+     * The JOSE algorithms allowed for each token type
+     */
+    allowedAlgorithms?: { [tokenType: string]: string[] }
 }
@@ -0,0 +1,16 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import IClock from './IClock';
+
+/**
+ * Clock returning the system time
+ * @class
+ * @implements IClock
+ */
+export default class SystemClock implements IClock {
+  public now(): number {
+    return Date.now();
+  }
+}
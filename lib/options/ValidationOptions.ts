@@ -6,6 +6,8 @@ import { FetchKeyAndValidateSignatureOnIdToken, IValidationOptions, CheckTimeVal
 import { ValidationHelpers } from '../input_validation/ValidationHelpers';
 import IValidatorOptions from './IValidatorOptions';
 import { TokenType } from '../index';
+import ILogger from '../logging/ILogger';
+import NoOpLogger from '../logging/NoOpLogger';
 
 /**
  *Interface to model validation options
@@ -19,6 +21,7 @@ export default class ValidationOptions implements IValidationOptions {
  */
 constructor (public validatorOptions: IValidatorOptions, public tokenType: TokenType) {
   this.validationHelpers = new ValidationHelpers(validatorOptions, this, tokenType);
+  this.logger = validatorOptions.logger || new NoOpLogger();
   this.getTokenObjectDelegate = this.validationHelpers.getTokenObject;
     
   this.resolveDidAndGetKeysDelegate = this.validationHelpers.resolveDidAndGetKeys;
@@ -37,6 +40,11 @@ constructor (public validatorOptions: IValidatorOptions, public tokenType: Token
  */
 public validationHelpers: ValidationHelpers;
 
+/**
+ * Gets the logger
+ */
+public logger: ILogger;
+
 /**
  * Get the token object from the request body
  */
@@ -0,0 +1,232 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Evaluates the JSON Schema filters of Presentation Exchange fields.
+ * Supports the keywords used by presentation definitions: type, const, enum, pattern, format,
+ * the string, number and array bounds, items, contains, properties, required, not, allOf, anyOf and oneOf.
+ * Other keywords are rejected, ignoring them would accept values the filter was meant to exclude.
+ */
+export default class JsonSchemaFilter {
+  /**
+   * The supported keywords, including the annotations without effect on the evaluation
+   */
+  private static readonly KEYWORDS = [
+    'type', 'const', 'enum', 'pattern', 'format', 'formatMinimum', 'formatMaximum', 'minLength', 'maxLength',
+    'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf', 'minItems', 'maxItems', 'items', 'contains',
+    'properties', 'required', 'not', 'allOf', 'anyOf', 'oneOf',
+    '$schema', '$id', '$comment', 'title', 'description', 'default', 'examples'
+  ];
+
+  /**
+   * Check if a value satisfies a JSON Schema
+   * @param schema The JSON Schema
+   * @param value The value to check
+   * @returns True if the value satisfies the schema
+   * @throws Error when the schema uses a keyword which is not supported
+   */
+  public static matches(schema: any, value: any): boolean {
+    if (schema === true || schema === undefined) {
+      return true;
+    }
+
+    if (schema === false || typeof schema !== 'object') {
+      return false;
+    }
+
+    const unsupported = Object.keys(schema).find((keyword) => !JsonSchemaFilter.KEYWORDS.includes(keyword));
+    if (unsupported) {
+      throw new Error(`The JSON Schema keyword '${unsupported}' is not supported`);
+    }
+
+    if (Array.isArray(schema.items)) {
+      throw new Error(`The JSON Schema keyword 'items' is only supported with a single schema`);
+    }
+
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type) => JsonSchemaFilter.isType(type, value))) {
+        return false;
+      }
+    }
+
+    if (schema.const !== undefined && !JsonSchemaFilter.equals(schema.const, value)) {
+      return false;
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((item: any) => JsonSchemaFilter.equals(item, value))) {
+      return false;
+    }
+
+    if (typeof value === 'string' && !JsonSchemaFilter.matchesString(schema, value)) {
+      return false;
+    }
+
+    if (typeof value === 'number' && !JsonSchemaFilter.matchesNumber(schema, value)) {
+      return false;
+    }
+
+    if (Array.isArray(value) && !JsonSchemaFilter.matchesArray(schema, value)) {
+      return false;
+    }
+
+    if (JsonSchemaFilter.isType('object', value) && !JsonSchemaFilter.matchesObject(schema, value)) {
+      return false;
+    }
+
+    if (schema.not !== undefined && JsonSchemaFilter.matches(schema.not, value)) {
+      return false;
+    }
+
+    if (Array.isArray(schema.allOf) && !schema.allOf.every((item: any) => JsonSchemaFilter.matches(item, value))) {
+      return false;
+    }
+
+    if (Array.isArray(schema.anyOf) && !schema.anyOf.some((item: any) => JsonSchemaFilter.matches(item, value))) {
+      return false;
+    }
+
+    if (Array.isArray(schema.oneOf) && schema.oneOf.filter((item: any) => JsonSchemaFilter.matches(item, value)).length !== 1) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check the string keywords
+   * @param schema The JSON Schema
+   * @param value The string
+   */
+  private static matchesString(schema: any, value: string): boolean {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      return false;
+    }
+
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      return false;
+    }
+
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+      return false;
+    }
+
+    if (schema.format === 'date' || schema.format === 'date-time') {
+      const pattern = schema.format === 'date' ? /^\d{4}-\d{2}-\d{2}$/ : /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+      if (!pattern.test(value) || isNaN(Date.parse(value))) {
+        return false;
+      }
+
+      const time = Date.parse(value);
+      if ((schema.formatMinimum && time < Date.parse(schema.formatMinimum)) || (schema.formatMaximum && time > Date.parse(schema.formatMaximum))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Check the number keywords
+   * @param schema The JSON Schema
+   * @param value The number
+   */
+  private static matchesNumber(schema: any, value: number): boolean {
+    if (typeof schema.minimum === 'number' && (schema.exclusiveMinimum === true ? value <= schema.minimum : value < schema.minimum)) {
+      return false;
+    }
+
+    if (typeof schema.maximum === 'number' && (schema.exclusiveMaximum === true ? value >= schema.maximum : value > schema.maximum)) {
+      return false;
+    }
+
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      return false;
+    }
+
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      return false;
+    }
+
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0 && !Number.isInteger(value / schema.multipleOf)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check the array keywords
+   * @param schema The JSON Schema
+   * @param value The array
+   */
+  private static matchesArray(schema: any, value: any[]): boolean {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      return false;
+    }
+
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      return false;
+    }
+
+    if (schema.items !== undefined && !value.every((item) => JsonSchemaFilter.matches(schema.items, item))) {
+      return false;
+    }
+
+    if (schema.contains !== undefined && !value.some((item) => JsonSchemaFilter.matches(schema.contains, item))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check the object keywords
+   * @param schema The JSON Schema
+   * @param value The object
+   */
+  private static matchesObject(schema: any, value: any): boolean {
+    if (Array.isArray(schema.required) && !schema.required.every((property: string) => value[property] !== undefined)) {
+      return false;
+    }
+
+    for (const property in schema.properties || {}) {
+      if (value[property] !== undefined && !JsonSchemaFilter.matches(schema.properties[property], value[property])) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Check the type of a value
+   * @param type The JSON Schema type
+   * @param value The value
+   */
+  private static isType(type: string, value: any): boolean {
+    switch (type) {
+      case 'null':
+        return value === null;
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      default:
+        return typeof value === type;
+    }
+  }
+
+  /**
+   * Compare two JSON values
+   * @param expected The expected value
+   * @param value The value
+   */
+  private static equals(expected: any, value: any): boolean {
+    return JSON.stringify(expected) === JSON.stringify(value);
+  }
+}
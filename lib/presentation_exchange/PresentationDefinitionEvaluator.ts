@@ -0,0 +1,276 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { ClaimToken, IValidationResponse, PresentationDefinitionModel, PresentationExchangeFieldModel, PresentationExchangeInputDescriptorModel, PresentationExchangeSubmissionRequirementModel, TokenType, ValidationErrorCode } from '../index';
+import JsonSchemaFilter from './JsonSchemaFilter';
+const jp = require('jsonpath');
+
+/**
+ * Interface to model the evaluation of an input descriptor
+ */
+export interface IDescriptorEvaluation {
+  /**
+   * The id of the input descriptor
+   */
+  id: string;
+
+  /**
+   * True if the submitted credential satisfies the input descriptor
+   */
+  satisfied: boolean;
+
+  /**
+   * The reason why the input descriptor is not satisfied
+   */
+  detailedError?: string;
+
+  /**
+   * The path of the claim in the credential which does not satisfy the input descriptor
+   */
+  claimPath?: string;
+}
+
+/**
+ * Interface to model the evaluation of a presentation definition
+ */
+export interface IPresentationDefinitionEvaluation extends IValidationResponse {
+  /**
+   * The evaluation of each input descriptor
+   */
+  descriptors: { [id: string]: IDescriptorEvaluation };
+
+  /**
+   * The ids of the satisfied input descriptors
+   */
+  satisfiedDescriptors: string[];
+}
+
+/**
+ * Evaluates the submitted verifiable credentials against a Presentation Exchange presentation definition.
+ * See https://identity.foundation/presentation-exchange/
+ */
+export default class PresentationDefinitionEvaluator {
+  /**
+   * Create a new instance of <see @class PresentationDefinitionEvaluator>
+   * @param definition The presentation definition
+   */
+  constructor(public definition: PresentationDefinitionModel) {
+  }
+
+  /**
+   * Evaluate the submitted credentials
+   * @param credentials The validated credentials keyed by the id of the input descriptor they are submitted for
+   */
+  public evaluate(credentials: { [descriptorId: string]: ClaimToken }): IPresentationDefinitionEvaluation {
+    const descriptors: { [id: string]: IDescriptorEvaluation } = {};
+    const inputDescriptors = this.definition.input_descriptors || [];
+    for (const descriptor of inputDescriptors) {
+      descriptors[descriptor.id!] = this.evaluateDescriptor(descriptor, credentials[descriptor.id!]);
+    }
+
+    const evaluation: IPresentationDefinitionEvaluation = {
+      result: true,
+      status: 200,
+      descriptors,
+      satisfiedDescriptors: Object.keys(descriptors).filter((id) => descriptors[id].satisfied)
+    };
+
+    // Without submission requirements every input descriptor must be satisfied
+    const requirements = this.definition.submission_requirements;
+    if (!requirements || requirements.length === 0) {
+      const failed = Object.keys(descriptors).find((id) => !descriptors[id].satisfied);
+      if (failed) {
+        return {
+          ...evaluation,
+          result: false,
+          status: 403,
+          detailedError: descriptors[failed].detailedError,
+          code: ValidationErrorCode.presentationDefinitionNotSatisfied,
+          tokenType: TokenType.verifiableCredential,
+          tokenId: failed,
+          claimPath: descriptors[failed].claimPath
+        };
+      }
+
+      return evaluation;
+    }
+
+    for (let inx = 0; inx < requirements.length; inx++) {
+      const error = this.evaluateRequirement(requirements[inx], descriptors);
+      if (error) {
+        return {
+          ...evaluation,
+          result: false,
+          status: 403,
+          detailedError: error,
+          code: ValidationErrorCode.presentationDefinitionNotSatisfied,
+          claimPath: `$.submission_requirements[${inx}]`
+        };
+      }
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Evaluate an input descriptor
+   * @param descriptor The input descriptor
+   * @param credential The credential submitted for the input descriptor
+   */
+  public evaluateDescriptor(descriptor: PresentationExchangeInputDescriptorModel, credential?: ClaimToken): IDescriptorEvaluation {
+    const id = descriptor.id!;
+    if (!credential) {
+      return { id, satisfied: false, detailedError: `No verifiable credential is submitted for input descriptor '${id}'` };
+    }
+
+    const document = credential.decodedToken;
+    if (descriptor.schema?.uri && !PresentationDefinitionEvaluator.matchesSchema(document, descriptor.schema.uri)) {
+      return { id, satisfied: false, detailedError: `The verifiable credential submitted for input descriptor '${id}' does not match the schema`, claimPath: '$.type' };
+    }
+
+    // Every field must select a value satisfying its filter
+    const selected: string[][] = [];
+    for (const field of descriptor.constraints?.fields || []) {
+      const path = (field.path || []).join(', ');
+      let nodes: { path: string[], value: any }[];
+      try {
+        nodes = PresentationDefinitionEvaluator.selectField(document, field);
+      } catch (exception) {
+        return { id, satisfied: false, detailedError: `The filter of field '${field.id || path}' of input descriptor '${id}' cannot be evaluated. ${exception.message}`, claimPath: field.path && field.path[0] };
+      }
+
+      if (nodes.length === 0) {
+        if (field.optional) {
+          continue;
+        }
+
+        return { id, satisfied: false, detailedError: `The verifiable credential submitted for input descriptor '${id}' has no value for field '${field.id || path}' matching the filter`, claimPath: field.path && field.path[0] };
+      }
+
+      selected.push(...nodes.map((node) => node.path));
+    }
+
+    if (descriptor.constraints?.limit_disclosure === 'required') {
+      const disclosed = PresentationDefinitionEvaluator.undisclosedClaim(document, selected);
+      if (disclosed) {
+        return { id, satisfied: false, detailedError: `The verifiable credential submitted for input descriptor '${id}' discloses the claim '${disclosed}' which is not requested`, claimPath: disclosed };
+      }
+    }
+
+    return { id, satisfied: true };
+  }
+
+  /**
+   * Evaluate a submission requirement
+   * @param requirement The submission requirement
+   * @param descriptors The evaluation of the input descriptors
+   * @returns The reason why the requirement is not satisfied, undefined if it is satisfied
+   */
+  private evaluateRequirement(requirement: PresentationExchangeSubmissionRequirementModel, descriptors: { [id: string]: IDescriptorEvaluation }): string | undefined {
+    let total: number;
+    let satisfied: number;
+    if (requirement.from_nested) {
+      total = requirement.from_nested.length;
+      satisfied = requirement.from_nested.filter((nested) => !this.evaluateRequirement(nested, descriptors)).length;
+    } else {
+      const group = (this.definition.input_descriptors || []).filter((descriptor) => descriptor.group?.includes(requirement.from!));
+      total = group.length;
+      satisfied = group.filter((descriptor) => descriptors[descriptor.id!].satisfied).length;
+    }
+
+    const name = requirement.name || requirement.from || 'nested';
+    if (requirement.rule === 'all') {
+      return satisfied === total && total > 0 ? undefined : `The submission requirement '${name}' needs all ${total} items, ${satisfied} are satisfied`;
+    }
+
+    if (requirement.rule !== 'pick') {
+      return `The submission requirement '${name}' has an unsupported rule '${requirement.rule}'`;
+    }
+
+    if (requirement.count !== undefined && satisfied !== requirement.count) {
+      return `The submission requirement '${name}' needs ${requirement.count} items, ${satisfied} are satisfied`;
+    }
+
+    if (requirement.min !== undefined && satisfied < requirement.min) {
+      return `The submission requirement '${name}' needs at least ${requirement.min} items, ${satisfied} are satisfied`;
+    }
+
+    if (requirement.max !== undefined && satisfied > requirement.max) {
+      return `The submission requirement '${name}' allows at most ${requirement.max} items, ${satisfied} are satisfied`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Select the values of a field. The first path returning values which satisfy the filter is used.
+   * @param document The credential
+   * @param field The field
+   */
+  private static selectField(document: any, field: PresentationExchangeFieldModel): { path: string[], value: any }[] {
+    for (const path of field.path || []) {
+      let nodes: { path: string[], value: any }[];
+      try {
+        nodes = jp.nodes(document, path);
+      } catch {
+        continue;
+      }
+
+      nodes = nodes.filter((node) => field.filter === undefined || JsonSchemaFilter.matches(field.filter, node.value));
+      if (nodes.length > 0) {
+        return nodes;
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Check if the schema of the input descriptor matches one of the types, contexts or credential schemas of the credential
+   * @param document The credential
+   * @param uri The schema uris of the input descriptor
+   */
+  private static matchesSchema(document: any, uri: string | string[]): boolean {
+    const credential = document.vc || document;
+    const values = [credential.type, credential['@context'], credential.credentialSchema]
+      .map((value) => Array.isArray(value) ? value : [value])
+      .reduce((all, value) => all.concat(value), [])
+      .filter((value: any) => value)
+      .map((value: any) => typeof value === 'object' ? value.id : value);
+    const uris = Array.isArray(uri) ? uri : [uri];
+    return uris.some((item) => values.includes(item) || values.includes(item.split(/[\/#]/).pop()));
+  }
+
+  /**
+   * Find a claim of the credential subject which is not selected by the fields
+   * @param document The credential
+   * @param selected The paths selected by the fields
+   * @returns The path of the first claim which is not selected
+   */
+  private static undisclosedClaim(document: any, selected: string[][]): string | undefined {
+    const base = document.vc ? ['$', 'vc', 'credentialSubject'] : ['$', 'credentialSubject'];
+    const subject = document.vc ? document.vc.credentialSubject : document.credentialSubject;
+    const isSelected = (path: any[]) => selected.some((item) => item.length <= path.length && item.every((segment, inx) => segment === path[inx]));
+    const find = (value: any, path: any[]): string | undefined => {
+      if (value !== null && typeof value === 'object') {
+        for (const key of Object.keys(value)) {
+          if (path.length === base.length && key === 'id') {
+            continue;
+          }
+
+          const found = find(value[key], [...path, Array.isArray(value) ? +key : key]);
+          if (found) {
+            return found;
+          }
+        }
+
+        return undefined;
+      }
+
+      return isSelected(path) ? undefined : jp.stringify(path);
+    };
+
+    return find(subject, base);
+  }
+}
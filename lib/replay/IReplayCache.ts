@@ -0,0 +1,33 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Interface to model a value which can only be used once
+ */
+export interface IReplayValue {
+  /**
+   * The value to register
+   */
+  key: string;
+
+  /**
+   * Epoch time in seconds after which the value can be forgotten
+   */
+  expiry: number;
+}
+
+/**
+ * Interface to model a store of values which can only be used once, such as jti and nonce
+ */
+export default interface IReplayCache {
+  /**
+   * Register the use of values. The check and the registration must be atomic,
+   * none of the values is registered when one of them was used before.
+   * @param values The values to register
+   * @returns The values which were used before, empty when the values are registered
+   * @throws Error when the values cannot be registered, the values must then be refused
+   */
+  register(values: IReplayValue[]): Promise<string[]>;
+}
@@ -0,0 +1,74 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import IReplayCache, { IReplayValue } from './IReplayCache';
+import IClock from '../options/IClock';
+import ExpiringMap from '../cache/ExpiringMap';
+
+/**
+ * Interface to model the options of the in-memory replay cache
+ */
+export interface IInMemoryReplayCacheOptions {
+  /**
+   * Maximum number of values kept in the cache. Values are never evicted before they expire.
+   */
+  maxEntries?: number;
+
+  /**
+   * The source of the current time for the expiry of the values
+   */
+  clock?: IClock;
+}
+
+/**
+ * Replay cache keeping the used values in memory until they expire.
+ * Only protects a single instance, use a shared store when the validator is scaled out.
+ * @class
+ * @implements IReplayCache
+ */
+export default class InMemoryReplayCache implements IReplayCache {
+  /**
+   * Default maximum number of values
+   */
+  public static readonly DEFAULT_MAX_ENTRIES = 100000;
+
+  private readonly _entries: ExpiringMap<boolean>;
+
+  /**
+   * Create a new instance of <see @class InMemoryReplayCache>
+   * @param options The cache options
+   */
+  constructor(options?: IInMemoryReplayCacheOptions) {
+    this._entries = new ExpiringMap<boolean>(options?.maxEntries ?? InMemoryReplayCache.DEFAULT_MAX_ENTRIES, options?.clock);
+  }
+
+  /**
+   * Gets the number of values in the cache
+   */
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Register the use of values
+   * @inheritdoc
+   * @throws Error when the cache is full of values which are not expired
+   */
+  public async register(values: IReplayValue[]): Promise<string[]> {
+    const used = values.filter((value) => this._entries.get(value.key)).map((value) => value.key);
+    if (used.length > 0) {
+      return used;
+    }
+
+    for (let inx = 0; inx < values.length; inx++) {
+      // Evicting a value which is not expired would allow its replay
+      if (!this._entries.set(values[inx].key, true, values[inx].expiry)) {
+        values.slice(0, inx).forEach((value) => this._entries.take(value.key));
+        throw new Error(`The replay cache is full with ${this._entries.size} values which are not expired`);
+      }
+    }
+
+    return [];
+  }
+}
@@ -0,0 +1,25 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Interface to model a store of signed requests which are passed by reference (request_uri)
+ */
+export default interface IRequestStore {
+  /**
+   * Store a signed request
+   * @param requestId The opaque identifier of the request
+   * @param request The signed request
+   * @param expiry Epoch time in seconds after which the request cannot be served anymore
+   * @throws Error when the request cannot be stored
+   */
+  set(requestId: string, request: string, expiry: number): Promise<void>;
+
+  /**
+   * Get a signed request and remove it from the store, so the request is served only once
+   * @param requestId The opaque identifier of the request
+   * @returns The signed request, undefined if unknown, already served or expired
+   */
+  take(requestId: string): Promise<string | undefined>;
+}
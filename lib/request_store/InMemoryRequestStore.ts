@@ -0,0 +1,70 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import IRequestStore from './IRequestStore';
+import IClock from '../options/IClock';
+import ExpiringMap from '../cache/ExpiringMap';
+
+/**
+ * Interface to model the options of the in-memory request store
+ */
+export interface IInMemoryRequestStoreOptions {
+  /**
+   * Maximum number of requests kept in the store. Requests are never evicted before they expire.
+   */
+  maxEntries?: number;
+
+  /**
+   * The source of the current time for the expiry of the requests
+   */
+  clock?: IClock;
+}
+
+/**
+ * Request store keeping the signed requests in memory until they are served or expire.
+ * @class
+ * @implements IRequestStore
+ */
+export default class InMemoryRequestStore implements IRequestStore {
+  /**
+   * Default maximum number of requests
+   */
+  public static readonly DEFAULT_MAX_ENTRIES = 10000;
+
+  private readonly _entries: ExpiringMap<string>;
+
+  /**
+   * Create a new instance of <see @class InMemoryRequestStore>
+   * @param options The store options
+   */
+  constructor(options?: IInMemoryRequestStoreOptions) {
+    this._entries = new ExpiringMap<string>(options?.maxEntries ?? InMemoryRequestStore.DEFAULT_MAX_ENTRIES, options?.clock);
+  }
+
+  /**
+   * Gets the number of requests in the store
+   */
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Store a signed request
+   * @inheritdoc
+   * @throws Error when the store is full of requests which are not expired
+   */
+  public async set(requestId: string, request: string, expiry: number): Promise<void> {
+    if (!this._entries.set(requestId, request, expiry)) {
+      throw new Error(`The request store is full with ${this._entries.size} requests which are not expired`);
+    }
+  }
+
+  /**
+   * Get a signed request and remove it from the store
+   * @inheritdoc
+   */
+  public async take(requestId: string): Promise<string | undefined> {
+    return this._entries.take(requestId);
+  }
+}
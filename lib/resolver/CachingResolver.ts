@@ -0,0 +1,268 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { IDidResolver, IDidResolveResult } from '../index';
+import ManagedHttpResolver from './ManagedHttpResolver';
+import IClock from '../options/IClock';
+import SystemClock from '../options/SystemClock';
+
+/**
+ * Interface to model the options of the caching resolver
+ */
+export interface ICachingResolverOptions {
+  /**
+   * Time in seconds a resolved DID document is kept in the cache
+   */
+  ttlInSeconds?: number;
+
+  /**
+   * Time in seconds a failed resolution is kept in the cache
+   */
+  negativeTtlInSeconds?: number;
+
+  /**
+   * Maximum number of DIDs kept in the cache. The least recently used entry is evicted first.
+   */
+  maxEntries?: number;
+
+  /**
+   * Use the cache hints returned by the resolver in its resolverMetadata
+   */
+  useResolverMetadata?: boolean;
+
+  /**
+   * The source of the current time for the expiry of the entries
+   */
+  clock?: IClock;
+}
+
+/**
+ * Cache hints a resolver can return in the resolverMetadata
+ */
+export interface IResolverCacheHints {
+  /**
+   * Time in seconds the DID document may be cached
+   */
+  cacheMaxAge?: number;
+
+  /**
+   * The DID document must not be cached
+   */
+  noCache?: boolean;
+}
+
+/**
+ * Result of a resolver with cache hints in its metadata
+ */
+export interface IDidResolveResultWithCacheHints extends IDidResolveResult {
+  /**
+   * The resolver metadata
+   */
+  metadata?: IResolverCacheHints;
+}
+
+/**
+ * Model for an entry in the cache
+ */
+interface ICacheEntry {
+  /**
+   * The resolved DID document
+   */
+  result?: IDidResolveResult;
+
+  /**
+   * The error returned by the resolver
+   */
+  error?: any;
+
+  /**
+   * Epoch time in milliseconds when the entry expires
+   */
+  expiry: number;
+}
+
+/**
+ * Resolver caching the DID documents returned by another resolver.
+ * Failures are cached for a short period and concurrent lookups for the same DID share one request.
+ * @class
+ * @implements IDidResolver
+ */
+export default class CachingResolver implements IDidResolver {
+  /**
+   * Default time in seconds a DID document is cached
+   */
+  public static readonly DEFAULT_TTL_IN_SECONDS = 5 * 60;
+
+  /**
+   * Default time in seconds a failure is cached
+   */
+  public static readonly DEFAULT_NEGATIVE_TTL_IN_SECONDS = 30;
+
+  /**
+   * Default maximum number of cached DIDs
+   */
+  public static readonly DEFAULT_MAX_ENTRIES = 1000;
+
+  private readonly _resolver: IDidResolver;
+  private readonly _ttlInSeconds: number;
+  private readonly _negativeTtlInSeconds: number;
+  private readonly _maxEntries: number;
+  private readonly _useResolverMetadata: boolean;
+  private readonly _clock: IClock;
+  private _cache: Map<string, ICacheEntry> = new Map<string, ICacheEntry>();
+  private _pending: Map<string, { lookup: number, promise: Promise<IDidResolveResult> }> = new Map<string, { lookup: number, promise: Promise<IDidResolveResult> }>();
+  private _lookups = 0;
+
+  /**
+   * Create a new instance of <see @class CachingResolver>
+   * @param resolver The resolver to wrap or the url of a universal resolver
+   * @param options The cache options
+   */
+  constructor(resolver: IDidResolver | string, options?: ICachingResolverOptions) {
+    this._resolver = typeof resolver === 'string' ? new ManagedHttpResolver(resolver) : resolver;
+    this._ttlInSeconds = options?.ttlInSeconds ?? CachingResolver.DEFAULT_TTL_IN_SECONDS;
+    this._negativeTtlInSeconds = options?.negativeTtlInSeconds ?? CachingResolver.DEFAULT_NEGATIVE_TTL_IN_SECONDS;
+    this._maxEntries = options?.maxEntries ?? CachingResolver.DEFAULT_MAX_ENTRIES;
+    this._useResolverMetadata = options?.useResolverMetadata ?? true;
+    this._clock = options?.clock || new SystemClock();
+  }
+
+  /**
+   * Gets the wrapped resolver
+   */
+  public get resolver(): IDidResolver {
+    return this._resolver;
+  }
+
+  /**
+   * Gets the number of DIDs in the cache
+   */
+  public get size(): number {
+    return this._cache.size;
+  }
+
+  /**
+   * Looks up a DID Document in the cache, resolve the DID if not found
+   * @inheritdoc
+   */
+  public async resolve(did: string): Promise<IDidResolveResult> {
+    const entry = this._cache.get(did);
+    if (entry) {
+      if (entry.expiry > this._clock.now()) {
+        // Move the entry to the end to keep the cache ordered by use
+        this._cache.delete(did);
+        this._cache.set(did, entry);
+        if (entry.error) {
+          return Promise.reject(entry.error);
+        }
+
+        return entry.result!;
+      }
+
+      this._cache.delete(did);
+    }
+
+    // Coalesce concurrent lookups for the same DID
+    let pending = this._pending.get(did);
+    if (!pending) {
+      const lookup = ++this._lookups;
+      pending = { lookup, promise: this.resolveAndCache(did, lookup) };
+      this._pending.set(did, pending);
+    }
+
+    return pending.promise;
+  }
+
+  /**
+   * Remove a DID from the cache.
+   * A lookup in progress for the DID does not store its result anymore.
+   * @param did The DID to remove
+   */
+  public invalidate(did: string): void {
+    this._cache.delete(did);
+    this._pending.delete(did);
+  }
+
+  /**
+   * Remove all DIDs from the cache.
+   * The lookups in progress do not store their results anymore.
+   */
+  public clear(): void {
+    this._cache.clear();
+    this._pending.clear();
+  }
+
+  /**
+   * Resolve the DID with the wrapped resolver and cache the result
+   * @param did The DID to resolve
+   * @param lookup The number of the lookup, the result is only cached if the lookup was not invalidated
+   */
+  private async resolveAndCache(did: string, lookup: number): Promise<IDidResolveResult> {
+    // Yield so the lookup is registered as pending before it can complete
+    await Promise.resolve();
+    try {
+      const result = await this._resolver.resolve(did);
+      const ttl = this.getTtl(result);
+      if (ttl > 0 && this.isCurrent(did, lookup)) {
+        this.addEntry(did, { result, expiry: this._clock.now() + ttl * 1000 });
+      }
+
+      return result;
+    } catch (error) {
+      if (this._negativeTtlInSeconds > 0 && this.isCurrent(did, lookup)) {
+        this.addEntry(did, { error, expiry: this._clock.now() + this._negativeTtlInSeconds * 1000 });
+      }
+
+      throw error;
+    } finally {
+      if (this.isCurrent(did, lookup)) {
+        this._pending.delete(did);
+      }
+    }
+  }
+
+  /**
+   * Check if a lookup is still the pending lookup of the DID
+   * @param did The DID
+   * @param lookup The number of the lookup
+   */
+  private isCurrent(did: string, lookup: number): boolean {
+    return this._pending.get(did)?.lookup === lookup;
+  }
+
+  /**
+   * Get the time in seconds the result can be cached
+   * @param result The result of the resolver
+   */
+  private getTtl(result: IDidResolveResultWithCacheHints): number {
+    if (!this._useResolverMetadata) {
+      return this._ttlInSeconds;
+    }
+
+    const hints = result?.metadata;
+    if (hints?.noCache) {
+      return 0;
+    }
+
+    if (typeof hints?.cacheMaxAge === 'number') {
+      return Math.min(hints.cacheMaxAge, this._ttlInSeconds);
+    }
+
+    return this._ttlInSeconds;
+  }
+
+  /**
+   * Add an entry to the cache and evict the least recently used entries
+   * @param did The DID to cache
+   * @param entry The entry to cache
+   */
+  private addEntry(did: string, entry: ICacheEntry): void {
+    this._cache.delete(did);
+    this._cache.set(did, entry);
+    while (this._cache.size > this._maxEntries) {
+      const oldest = this._cache.keys().next().value;
+      this._cache.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { IDidResolver, IDidResolveResult } from '../index';
+import ManagedHttpResolver from './ManagedHttpResolver';
+import DidKeyResolver from './DidKeyResolver';
+import DidJwkResolver from './DidJwkResolver';
+import VerifiableCredentialConstants from '../verifiable_credential/VerifiableCredentialConstants';
+
+/**
+ * Resolver dispatching to a resolver registered for the DID method.
+ * DIDs with a method without registered resolver are passed to the fallback resolver.
+ * @class
+ * @implements IDidResolver
+ */
+export default class CompositeResolver implements IDidResolver {
+  private _resolvers: { [method: string]: IDidResolver } = {};
+
+  /**
+   * Create a new instance of <see @class CompositeResolver>
+   * @param resolvers The resolvers mapped by DID method
+   * @param fallback The resolver for all other DID methods
+   */
+  constructor(resolvers: { [method: string]: IDidResolver }, private _fallback?: IDidResolver) {
+    for (let method in resolvers) {
+      this.useResolver(method, resolvers[method]);
+    }
+  }
+
+  /**
+   * Create a resolver for did:key and did:jwk which falls back to an http resolver for all other methods
+   * @param universalResolverUrl The url of the universal resolver
+   */
+  public static withLocalMethods(universalResolverUrl: string = VerifiableCredentialConstants.UNIVERSAL_RESOLVER_URL): CompositeResolver {
+    const resolvers: { [method: string]: IDidResolver } = {};
+    resolvers[DidKeyResolver.METHOD] = new DidKeyResolver();
+    resolvers[DidJwkResolver.METHOD] = new DidJwkResolver();
+    return new CompositeResolver(resolvers, new ManagedHttpResolver(universalResolverUrl));
+  }
+
+  /**
+   * Register a resolver for a DID method
+   * @param method The DID method, e.g. key for did:key
+   * @param resolver The resolver for the method
+   */
+  public useResolver(method: string, resolver: IDidResolver): CompositeResolver {
+    this._resolvers[method] = resolver;
+    return this;
+  }
+
+  /**
+   * Gets the resolvers mapped by DID method
+   */
+  public get resolvers(): { [method: string]: IDidResolver } {
+    return this._resolvers;
+  }
+
+  /**
+   * Gets the fallback resolver
+   */
+  public get fallback(): IDidResolver | undefined {
+    return this._fallback;
+  }
+
+  /**
+   * Looks up a DID Document with the resolver registered for the DID method
+   * @inheritdoc
+   */
+  public async resolve(did: string): Promise<IDidResolveResult> {
+    const method = CompositeResolver.getMethod(did);
+    const resolver = (method && this._resolvers[method]) || this._fallback;
+    if (!resolver) {
+      return Promise.reject(new Error(`No resolver available for DID method '${method}'`));
+    }
+
+    return resolver.resolve(did);
+  }
+
+  /**
+   * Get the method of the DID
+   * @param did The DID
+   */
+  public static getMethod(did: string): string | undefined {
+    const parts = did ? did.split(':') : [];
+    if (parts.length < 3 || parts[0] !== 'did') {
+      return undefined;
+    }
+
+    return parts[1];
+  }
+}
@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import base64url from 'base64url';
+import { IDidResolver, IDidResolveResult } from '../index';
+import LocalDidDocument from './LocalDidDocument';
+
+/**
+ * Resolver for did:jwk. The DID document is synthesized from the JWK encoded in the DID.
+ * See https://github.com/quartzjer/did-jwk/blob/main/spec.md
+ * @class
+ * @implements IDidResolver
+ */
+export default class DidJwkResolver implements IDidResolver {
+  /**
+   * The DID method
+   */
+  public static readonly METHOD = 'jwk';
+
+  /**
+   * Private key members which must not be present in the DID
+   */
+  private static readonly PRIVATE_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k'];
+
+  /**
+   * Synthesize the DID document for the did:jwk
+   * @inheritdoc
+   */
+  public async resolve(did: string): Promise<IDidResolveResult> {
+    const encoded = LocalDidDocument.getMethodSpecificId(did, DidJwkResolver.METHOD);
+    let publicKeyJwk: any;
+    try {
+      publicKeyJwk = JSON.parse(base64url.decode(encoded));
+    } catch (exception) {
+      throw new Error(`The did:jwk '${did}' does not contain a valid JWK`);
+    }
+
+    if (!publicKeyJwk || typeof publicKeyJwk !== 'object' || !publicKeyJwk.kty) {
+      throw new Error(`The did:jwk '${did}' does not contain a valid JWK`);
+    }
+
+    if (DidJwkResolver.PRIVATE_MEMBERS.some((member) => publicKeyJwk[member] !== undefined)) {
+      throw new Error(`The did:jwk '${did}' must not contain private key material`);
+    }
+
+    return LocalDidDocument.create(`did:${DidJwkResolver.METHOD}:${encoded}`, '0', publicKeyJwk);
+  }
+}
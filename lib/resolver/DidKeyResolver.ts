@@ -0,0 +1,108 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { ECDH } from 'crypto';
+import base64url from 'base64url';
+import { IDidResolver, IDidResolveResult } from '../index';
+import LocalDidDocument from './LocalDidDocument';
+const bs58 = require('bs58');
+
+/**
+ * Resolver for did:key. The DID document is synthesized from the key encoded in the DID.
+ * Supports Ed25519, secp256k1, P-256 and P-384 public keys.
+ * See https://w3c-ccg.github.io/did-method-key/
+ * @class
+ * @implements IDidResolver
+ */
+export default class DidKeyResolver implements IDidResolver {
+  /**
+   * The DID method
+   */
+  public static readonly METHOD = 'key';
+
+  /**
+   * Supported multicodec key types with their varint encoded prefix
+   */
+  public static readonly multicodecs: { [name: string]: { prefix: number[], length: number, toJwk: (key: Buffer) => object } } = {
+    'ed25519-pub': {
+      prefix: [0xed, 0x01],
+      length: 32,
+      toJwk: (key: Buffer) => ({ kty: 'OKP', crv: 'Ed25519', x: base64url.encode(key) })
+    },
+    'secp256k1-pub': {
+      prefix: [0xe7, 0x01],
+      length: 33,
+      toJwk: (key: Buffer) => DidKeyResolver.ecKeyToJwk(key, 'secp256k1', 'secp256k1')
+    },
+    'p256-pub': {
+      prefix: [0x80, 0x24],
+      length: 33,
+      toJwk: (key: Buffer) => DidKeyResolver.ecKeyToJwk(key, 'prime256v1', 'P-256')
+    },
+    'p384-pub': {
+      prefix: [0x81, 0x24],
+      length: 49,
+      toJwk: (key: Buffer) => DidKeyResolver.ecKeyToJwk(key, 'secp384r1', 'P-384')
+    }
+  };
+
+  /**
+   * Synthesize the DID document for the did:key
+   * @inheritdoc
+   */
+  public async resolve(did: string): Promise<IDidResolveResult> {
+    const multibase = LocalDidDocument.getMethodSpecificId(did, DidKeyResolver.METHOD);
+    const publicKeyJwk = DidKeyResolver.getPublicKeyJwk(multibase);
+    return LocalDidDocument.create(`did:${DidKeyResolver.METHOD}:${multibase}`, multibase, publicKeyJwk);
+  }
+
+  /**
+   * Decode the multibase encoded key into a JWK
+   * @param multibase The multibase encoded public key
+   */
+  public static getPublicKeyJwk(multibase: string): object {
+    // Only base58btc is allowed for did:key
+    if (!multibase.startsWith('z')) {
+      throw new Error(`The did:key '${multibase}' is not base58btc encoded`);
+    }
+
+    let decoded: Buffer;
+    try {
+      decoded = bs58.decode(multibase.substring(1));
+    } catch (exception) {
+      throw new Error(`The did:key '${multibase}' is not base58btc encoded`);
+    }
+
+    for (let name in DidKeyResolver.multicodecs) {
+      const codec = DidKeyResolver.multicodecs[name];
+      if (codec.prefix.every((value, inx) => decoded[inx] === value)) {
+        const key = decoded.slice(codec.prefix.length);
+        if (key.length !== codec.length) {
+          throw new Error(`The did:key '${multibase}' has an invalid ${name} key length ${key.length}`);
+        }
+
+        return codec.toJwk(key);
+      }
+    }
+
+    throw new Error(`The did:key '${multibase}' has an unsupported key type`);
+  }
+
+  /**
+   * Convert a compressed elliptic curve public key into a JWK
+   * @param key The compressed public key
+   * @param curve The curve name used by node
+   * @param crv The JWK curve name
+   */
+  private static ecKeyToJwk(key: Buffer, curve: string, crv: string): object {
+    const uncompressed = <Buffer>ECDH.convertKey(key, curve, undefined, undefined, 'uncompressed');
+    const coordinateLength = (uncompressed.length - 1) / 2;
+    return {
+      kty: 'EC',
+      crv,
+      x: base64url.encode(uncompressed.slice(1, 1 + coordinateLength)),
+      y: base64url.encode(uncompressed.slice(1 + coordinateLength))
+    };
+  }
+}
@@ -0,0 +1,76 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { DidDocument, IDidResolver, IDidResolveResult } from '../index';
+import LocalDidDocument from './LocalDidDocument';
+require('es6-promise').polyfill();
+require('isomorphic-fetch');
+
+/**
+ * Resolver for did:web. Fetches the DID document from the web server of the domain in the DID.
+ * See https://w3c-ccg.github.io/did-method-web/
+ * @class
+ * @implements IDidResolver
+ */
+export default class DidWebResolver implements IDidResolver {
+  /**
+   * The DID method
+   */
+  public static readonly METHOD = 'web';
+
+  /**
+   * Path of the DID document if the DID does not contain a path
+   */
+  public static readonly WELL_KNOWN_PATH = '/.well-known';
+
+  /**
+   * Name of the DID document
+   */
+  public static readonly DOCUMENT_NAME = 'did.json';
+
+  /**
+   * Looks up a DID Document
+   * @inheritdoc
+   */
+  public async resolve(did: string): Promise<IDidResolveResult> {
+    const url = DidWebResolver.getDocumentUrl(did);
+    const response = await fetch(url);
+    if (!response.ok) {
+      return Promise.reject(new Error(`Could not resolve ${url}. Status ${response.status}`));
+    }
+
+    let document: any;
+    try {
+      document = await response.json();
+    } catch (exception) {
+      return Promise.reject(new Error(`The DID document on ${url} is no valid JSON`));
+    }
+
+    if (!document || document.id !== did) {
+      return Promise.reject(new Error(`The id '${document?.id}' of the DID document on ${url} does not match the DID '${did}'`));
+    }
+
+    // Make verification methods available as public keys
+    const publicKey = [...(document.publicKey || []), ...(document.verificationMethod || [])];
+    return <IDidResolveResult>{
+      didDocument: new DidDocument({ ...document, publicKey })
+    };
+  }
+
+  /**
+   * Get the url of the DID document
+   * @param did The did:web DID
+   */
+  public static getDocumentUrl(did: string): string {
+    const id = LocalDidDocument.getMethodSpecificId(did, DidWebResolver.METHOD);
+    const parts = id.split(':').map((part) => decodeURIComponent(part));
+    const domain = parts[0];
+    if (!domain || /[\/?#@]/.test(domain)) {
+      throw new Error(`The DID '${did}' does not contain a valid domain`);
+    }
+
+    const path = parts.length > 1 ? `/${parts.slice(1).map((part) => encodeURIComponent(part)).join('/')}` : DidWebResolver.WELL_KNOWN_PATH;
+    return `https://${domain}${path}/${DidWebResolver.DOCUMENT_NAME}`;
+  }
+}
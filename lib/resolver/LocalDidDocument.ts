@@ -0,0 +1,83 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { DidDocument, IDidResolveResult } from '../index';
+
+/**
+ * Helper class to synthesize DID documents for DIDs which encode their own key
+ */
+export default class LocalDidDocument {
+  /**
+   * Context of the DID documents
+   */
+  public static readonly DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+
+  /**
+   * Context of the JsonWebKey2020 verification method
+   */
+  public static readonly JWS_2020_CONTEXT = 'https://w3id.org/security/suites/jws-2020/v1';
+
+  /**
+   * Verification method type used for the synthesized keys
+   */
+  public static readonly VERIFICATION_METHOD_TYPE = 'JsonWebKey2020';
+
+  /**
+   * Create the resolve result for a DID with a single key.
+   * A key with use 'enc' is only listed for key agreement, other keys are listed for the signing relationships.
+   * @param did The DID
+   * @param fragment The fragment identifying the key in the DID document
+   * @param publicKeyJwk The public key of the DID
+   */
+  public static create(did: string, fragment: string, publicKeyJwk: any): IDidResolveResult {
+    const id = `${did}#${fragment}`;
+    const verificationMethod = {
+      id,
+      type: LocalDidDocument.VERIFICATION_METHOD_TYPE,
+      controller: did,
+      publicKeyJwk
+    };
+
+    const relationships = publicKeyJwk.use === 'enc' ?
+      { keyAgreement: [id] } :
+      {
+        authentication: [id],
+        assertionMethod: [id],
+        capabilityInvocation: [id],
+        capabilityDelegation: [id]
+      };
+
+    const document: any = {
+      '@context': [LocalDidDocument.DID_CONTEXT, LocalDidDocument.JWS_2020_CONTEXT],
+      id: did,
+      verificationMethod: [verificationMethod],
+      publicKey: [verificationMethod],
+      ...relationships
+    };
+
+    return <IDidResolveResult>{
+      didDocument: new DidDocument(document)
+    };
+  }
+
+  /**
+   * Get the method specific id of the DID
+   * @param did The DID
+   * @param method The expected DID method
+   */
+  public static getMethodSpecificId(did: string, method: string): string {
+    const prefix = `did:${method}:`;
+    if (!did || !did.startsWith(prefix)) {
+      throw new Error(`The DID '${did}' is not a did:${method}`);
+    }
+
+    // Remove the fragment and query
+    const id = did.substring(prefix.length).split(/[#?]/)[0];
+    if (!id) {
+      throw new Error(`The DID '${did}' has no method specific id`);
+    }
+
+    return id;
+  }
+}
@@ -0,0 +1,365 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { DidDocument, IDidDocumentPublicKey, IDidResolver, IDidResolveResult } from '../index';
+import LocalDidDocument from './LocalDidDocument';
+import { DidNotFoundError } from './ManagedHttpResolver';
+import base64url from 'base64url';
+import { createHash } from 'crypto';
+const multihash = require('multihashes');
+
+/**
+ * The parts of a long-form ION DID
+ */
+interface ILongFormIonDid {
+  /**
+   * The unique suffix of the DID
+   */
+  suffix: string;
+
+  /**
+   * The decoded suffix data of the create operation
+   */
+  suffixData: any;
+
+  /**
+   * The decoded delta of the create operation
+   */
+  delta: any;
+
+  /**
+   * The computed unique suffix of the create operation
+   */
+  computedSuffix: string;
+
+  /**
+   * The computed hash of the delta of the create operation
+   */
+  computedDeltaHash: string;
+}
+
+/**
+ * Resolver for long-form ION DIDs. The DID document is built from the create operation embedded in the DID,
+ * so unpublished DIDs can be resolved without a round trip to a resolver.
+ * Supports did:ion:<suffix>:<initial-state> and the older did:ion:<suffix>?-ion-initial-state=<suffix-data>.<delta>.
+ * @class
+ * @implements IDidResolver
+ */
+export default class LongFormIonResolver implements IDidResolver {
+  /**
+   * The DID method
+   */
+  public static readonly METHOD = 'ion';
+
+  /**
+   * Prefix of DIDs on the test network
+   */
+  public static readonly TEST_NETWORK = 'test';
+
+  /**
+   * Query parameter used by the older long-form format
+   */
+  public static readonly INITIAL_STATE_PARAMETER = '?-ion-initial-state=';
+
+  /**
+   * Map the key purposes of the create operation on the verification relationships of the DID document
+   */
+  private static readonly purposes: { [purpose: string]: string } = {
+    authentication: 'authentication',
+    assertionMethod: 'assertionMethod',
+    capabilityInvocation: 'capabilityInvocation',
+    capabilityDelegation: 'capabilityDelegation',
+    keyAgreement: 'keyAgreement',
+    auth: 'authentication',
+    general: 'assertionMethod'
+  };
+
+  /**
+   * The curves of octet key pairs
+   */
+  private static readonly OKP_CURVES = ['Ed25519', 'Ed448', 'X25519', 'X448'];
+
+  /**
+   * Create a new instance of <see @class LongFormIonResolver>
+   * @param _resolver Resolver for short-form DIDs and for the update check
+   * @param _checkForUpdates True if the network needs to be checked for later updates of a long-form DID
+   */
+  constructor(private _resolver?: IDidResolver, private _checkForUpdates: boolean = false) {
+  }
+
+  /**
+   * Gets the resolver used for short-form DIDs and for the update check
+   */
+  public get resolver(): IDidResolver | undefined {
+    return this._resolver;
+  }
+
+  /**
+   * Gets true if the network is checked for later updates of a long-form DID
+   */
+  public get checkForUpdates(): boolean {
+    return this._checkForUpdates;
+  }
+
+  /**
+   * Looks up a DID Document
+   * @inheritdoc
+   */
+  public async resolve(did: string): Promise<IDidResolveResult> {
+    if (!LongFormIonResolver.isLongForm(did)) {
+      if (!this._resolver) {
+        return Promise.reject(new Error(`The DID '${did}' is not a long-form ION DID`));
+      }
+
+      return this._resolver.resolve(did);
+    }
+
+    // Fails when the DID is tampered with
+    const local = LongFormIonResolver.createDidDocument(did);
+    if (!this._checkForUpdates || !this._resolver) {
+      return <IDidResolveResult>{ didDocument: local };
+    }
+
+    // A published DID can have been updated, the network has the latest state.
+    // Only a DID which is not published is resolved from its initial state, its keys can have been rotated otherwise.
+    let published: IDidResolveResult;
+    try {
+      published = await this._resolver.resolve(did);
+    } catch (exception) {
+      if (exception instanceof DidNotFoundError) {
+        return <IDidResolveResult>{ didDocument: local };
+      }
+
+      throw exception;
+    }
+
+    if (!published?.didDocument) {
+      throw new Error(`The resolver returned no DID document for the DID '${did}'`);
+    }
+
+    return <IDidResolveResult>{
+      ...published,
+      didDocument: LongFormIonResolver.rebase(published.didDocument, did)
+    };
+  }
+
+  /**
+   * Check if the DID is a long-form ION DID
+   * @param did The DID to check
+   */
+  public static isLongForm(did: string): boolean {
+    const prefix = `did:${LongFormIonResolver.METHOD}:`;
+    if (!did || !did.startsWith(prefix)) {
+      return false;
+    }
+
+    if (did.includes(LongFormIonResolver.INITIAL_STATE_PARAMETER)) {
+      return true;
+    }
+
+    return LongFormIonResolver.getSegments(did).length === 2;
+  }
+
+  /**
+   * Build the DID document from the create operation embedded in the long-form DID
+   * @param did The long-form ION DID
+   */
+  public static createDidDocument(did: string): DidDocument {
+    const parsed = LongFormIonResolver.parse(did);
+    if (parsed.computedSuffix !== parsed.suffix) {
+      throw new Error(`The unique suffix of the DID '${did}' does not match its initial state`);
+    }
+
+    const deltaHash = parsed.suffixData.deltaHash || parsed.suffixData.delta_hash;
+    if (parsed.computedDeltaHash !== deltaHash) {
+      throw new Error(`The delta hash of the DID '${did}' does not match its initial state`);
+    }
+
+    const document: any = {
+      '@context': [LocalDidDocument.DID_CONTEXT],
+      id: did,
+      publicKey: [],
+      verificationMethod: [],
+      service: []
+    };
+
+    for (const patch of parsed.delta.patches || []) {
+      switch (patch.action) {
+        case 'replace':
+          document.publicKey = [];
+          document.verificationMethod = [];
+          document.service = [];
+          LongFormIonResolver.addPublicKeys(document, did, patch.document?.publicKeys || patch.document?.public_keys);
+          LongFormIonResolver.addServices(document, patch.document?.services || patch.document?.service_endpoints);
+          break;
+        case 'add-public-keys':
+          LongFormIonResolver.addPublicKeys(document, did, patch.publicKeys || patch.public_keys);
+          break;
+        case 'add-services':
+          LongFormIonResolver.addServices(document, patch.services || patch.service_endpoints);
+          break;
+        default:
+          throw new Error(`The initial state of the DID '${did}' has an unsupported patch action '${patch.action}'`);
+      }
+    }
+
+    return new DidDocument(document);
+  }
+
+  /**
+   * Decode the long-form DID and compute the hashes of its create operation
+   * @param did The long-form ION DID
+   */
+  private static parse(did: string): ILongFormIonDid {
+    try {
+      const queryIndex = did.indexOf(LongFormIonResolver.INITIAL_STATE_PARAMETER);
+      if (queryIndex >= 0) {
+        // did:ion:<suffix>?-ion-initial-state=<suffix-data>.<delta>, hashes over the encoded bytes
+        const suffix = did.substring(0, queryIndex).split(':').pop()!;
+        const initialState = did.substring(queryIndex + LongFormIonResolver.INITIAL_STATE_PARAMETER.length).split('#')[0];
+        const [encodedSuffixData, encodedDelta] = initialState.split('.');
+        const suffixDataBuffer = base64url.toBuffer(encodedSuffixData);
+        const deltaBuffer = base64url.toBuffer(encodedDelta);
+        return {
+          suffix,
+          suffixData: JSON.parse(suffixDataBuffer.toString('utf8')),
+          delta: JSON.parse(deltaBuffer.toString('utf8')),
+          computedSuffix: LongFormIonResolver.hash(suffixDataBuffer),
+          computedDeltaHash: LongFormIonResolver.hash(deltaBuffer)
+        };
+      }
+
+      // did:ion:<suffix>:<initial-state>, hashes over the canonicalized JSON
+      const [suffix, encodedState] = LongFormIonResolver.getSegments(did);
+      const initialState = JSON.parse(base64url.decode(encodedState));
+      return {
+        suffix,
+        suffixData: initialState.suffixData,
+        delta: initialState.delta,
+        computedSuffix: LongFormIonResolver.hash(Buffer.from(LongFormIonResolver.canonicalize(initialState.suffixData))),
+        computedDeltaHash: LongFormIonResolver.hash(Buffer.from(LongFormIonResolver.canonicalize(initialState.delta)))
+      };
+    } catch (exception) {
+      throw new Error(`The initial state of the DID '${did}' cannot be decoded`);
+    }
+  }
+
+  /**
+   * Get the segments of the method specific id, without the optional network
+   * @param did The ION DID
+   */
+  private static getSegments(did: string): string[] {
+    const segments = LocalDidDocument.getMethodSpecificId(did, LongFormIonResolver.METHOD).split(':');
+    if (segments[0] === LongFormIonResolver.TEST_NETWORK) {
+      // did:ion:test:<suffix>:<initial-state>
+      segments.shift();
+    }
+
+    return segments;
+  }
+
+  /**
+   * Add the public keys of a patch to the DID document.
+   * The key type is taken from the JWK, the declared type is not reliable:
+   * LongFormDid of the crypto SDK declares every key as secp256k1.
+   * @param document The DID document under construction
+   * @param did The DID
+   * @param publicKeys The public keys of the patch
+   */
+  private static addPublicKeys(document: any, did: string, publicKeys: any[] | undefined): void {
+    for (const key of publicKeys || []) {
+      const id = `#${key.id}`;
+      const publicKeyJwk = LongFormIonResolver.normalizeJwk(key.publicKeyJwk || key.jwk);
+      const verificationMethod = {
+        id,
+        type: publicKeyJwk ? LocalDidDocument.VERIFICATION_METHOD_TYPE : key.type,
+        controller: did,
+        publicKeyJwk
+      };
+
+      document.publicKey.push(verificationMethod);
+      document.verificationMethod.push(verificationMethod);
+      for (const purpose of key.purposes || key.purpose || key.usage || []) {
+        const relationship = LongFormIonResolver.purposes[purpose];
+        if (relationship) {
+          document[relationship] = [...(document[relationship] || []), id];
+        }
+      }
+    }
+  }
+
+  /**
+   * Repair the curve of an octet key pair labeled as secp256k1 by LongFormDid.
+   * The SDK only creates signing keys, so the octet key pair is an Ed25519 key.
+   * @param publicKeyJwk The public key of the create operation
+   */
+  private static normalizeJwk(publicKeyJwk: any): any {
+    if (publicKeyJwk?.kty === 'OKP' && !LongFormIonResolver.OKP_CURVES.includes(publicKeyJwk.crv)) {
+      return { ...publicKeyJwk, crv: 'Ed25519' };
+    }
+
+    return publicKeyJwk;
+  }
+
+  /**
+   * Add the services of a patch to the DID document
+   * @param document The DID document under construction
+   * @param services The services of the patch
+   */
+  private static addServices(document: any, services: any[] | undefined): void {
+    for (const service of services || []) {
+      document.service.push({
+        id: `#${service.id}`,
+        type: service.type,
+        serviceEndpoint: service.serviceEndpoint || service.endpoint
+      });
+    }
+  }
+
+  /**
+   * Qualify the keys of a resolved DID document with the long-form DID used in the kid
+   * @param didDocument The resolved DID document
+   * @param did The long-form DID
+   */
+  private static rebase(didDocument: DidDocument, did: string): DidDocument {
+    if (didDocument.id === did) {
+      return didDocument;
+    }
+
+    const publicKey = (didDocument.rawDocument.publicKey || []).map((key: IDidDocumentPublicKey) => {
+      return { ...key, id: `#${key.id.split('#').pop()}` };
+    });
+
+    return new DidDocument({ ...didDocument.rawDocument, id: did, publicKey });
+  }
+
+  /**
+   * Compute the base64url encoded sha2-256 multihash
+   * @param data The data to hash
+   */
+  private static hash(data: Buffer): string {
+    const digest = createHash('sha256').update(data).digest();
+    return base64url.encode(multihash.encode(digest, 'sha2-256'));
+  }
+
+  /**
+   * Serialize JSON following the JSON canonicalization scheme (RFC 8785)
+   * @param value The value to serialize
+   */
+  private static canonicalize(value: any): string {
+    if (value === null || typeof value !== 'object') {
+      return JSON.stringify(value);
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => LongFormIonResolver.canonicalize(item === undefined ? null : item)).join(',')}]`;
+    }
+
+    const members = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${LongFormIonResolver.canonicalize(value[key])}`);
+    return `{${members.join(',')}}`;
+  }
+}
@@ -1,10 +1,25 @@
-import { DidDocument, IDidResolver, IDidResolveResult } from '../index';
+import { DidDocument, IDidResolver, IDidResolveResult, IDidResolveResultWithCacheHints } from '../index';
 require('es6-promise').polyfill();
 require('isomorphic-fetch');
 
 /**
- * Fetches DID Documents from remote resolvers over http and caching
- * the response for a specified period of time.
+ * Error thrown when the resolver does not know the DID
+ */
+export class DidNotFoundError extends Error {
+  /**
+   * Create a new instance of <see @class DidNotFoundError>
+   * @param did The DID which is not found
+   * @param message The error message
+   */
+  constructor(public did: string, message: string) {
+    super(message);
+    this.name = 'DidNotFoundError';
+  }
+}
+
+/**
+ * Fetches DID Documents from remote resolvers over http.
+ * Use the CachingResolver to cache the response for a specified period of time.
  * @class
  * @extends DidResolver
  */
@@ -30,13 +45,37 @@ export default class ManagedHttpResolver implements IDidResolver {
   public async resolve (did: string): Promise<IDidResolveResult> {
     const query = `${this.resolverUrl}${did}`;
     const response = await fetch(query);
-    if (response.status >= 200 || response.status < 300) {
+    if (response.status >= 200 && response.status < 300) {
       const didDocument = await response.json();
+      const metadata = didDocument.resolverMetadata;
+      const cacheMaxAge = ManagedHttpResolver.getCacheMaxAge(response.headers?.get('cache-control'));
       return {
         didDocument: new DidDocument(didDocument.didDocument),
-        metadata: didDocument.resolverMetadata
-      } as IDidResolveResult;
+        metadata: cacheMaxAge === undefined ? metadata : { cacheMaxAge, ...metadata }
+      } as IDidResolveResultWithCacheHints;
+    }
+
+    if (response.status === 404) {
+      return Promise.reject(new DidNotFoundError(did, `Could not resolve ${query}. The DID is not found`));
     }
+
     return Promise.reject(new Error(`Could not resolve ${query}`));
   }
+
+  /**
+   * Get the max-age from the cache control header
+   * @param cacheControl The cache control header
+   */
+  private static getCacheMaxAge(cacheControl: string | null | undefined): number | undefined {
+    if (!cacheControl) {
+      return undefined;
+    }
+
+    if (/(^|,)\s*(no-cache|no-store)\s*(,|$)/i.test(cacheControl)) {
+      return 0;
+    }
+
+    const maxAge = /(^|,)\s*max-age\s*=\s*(\d+)/i.exec(cacheControl);
+    return maxAge ? parseInt(maxAge[2], 10) : undefined;
+  }
 }
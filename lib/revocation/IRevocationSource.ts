@@ -0,0 +1,18 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import IRevocedCard from './IRevokedCard';
+
+/**
+ * Interface to model a source of revoked verifiable credentials which is checked without a network call per credential
+ */
+export default interface IRevocationSource {
+  /**
+   * Get the revocation of a verifiable credential
+   * @param verifiableCredentialId The identifier of the verifiable credential, the jti claim in a JWT
+   * @param issuerDid The DID of the issuer of the verifiable credential
+   * @returns The revoked card, undefined if the verifiable credential is not revoked
+   */
+  getRevokedCard(verifiableCredentialId: string, issuerDid: string): Promise<IRevocedCard | undefined>;
+}
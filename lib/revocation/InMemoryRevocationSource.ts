@@ -0,0 +1,113 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { DidValidation, IExpectedBase, IValidationResponse, TokenType, ValidationErrorCode, ValidationOptions, ValidatorBuilder } from '../index';
+import IRevocedCard from './IRevokedCard';
+import IRevocationSource from './IRevocationSource';
+
+/**
+ * Revocation source keeping the revoked cards in memory.
+ * Cards are added from a local store or from a revocation snapshot signed by the issuer.
+ * @class
+ * @implements IRevocationSource
+ */
+export default class InMemoryRevocationSource implements IRevocationSource {
+  private _cards: Map<string, IRevocedCard> = new Map<string, IRevocedCard>();
+
+  /**
+   * Create a new instance of <see @class InMemoryRevocationSource>
+   * @param cards The revoked cards
+   */
+  constructor(cards?: IRevocedCard[]) {
+    this.add(cards || []);
+  }
+
+  /**
+   * Gets the number of revoked cards
+   */
+  public get size(): number {
+    return this._cards.size;
+  }
+
+  /**
+   * Add revoked cards. The earliest action time is kept when a card is revoked more than once.
+   * @param cards The revoked cards
+   * @returns The revocation source
+   */
+  public add(cards: IRevocedCard[]): InMemoryRevocationSource {
+    for (const card of cards) {
+      const key = InMemoryRevocationSource.getKey(card.verifiableCredentialId, card.issuerDid);
+      const existing = this._cards.get(key);
+      if (!existing || card.actionTimeInSeconds < existing.actionTimeInSeconds) {
+        this._cards.set(key, card);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Add the revoked cards of a revocation snapshot.
+   * The snapshot is a token with the revoked cards in the revokedCards claim, signed by the DID of the issuer.
+   * The snapshot can only revoke cards of its signer.
+   * @param snapshot The signed revocation snapshot
+   * @param builder The validator configuration used to validate the snapshot
+   */
+  public async addSnapshot(snapshot: string, builder: ValidatorBuilder): Promise<IValidationResponse> {
+    const options = new ValidationOptions({ ...builder.validatorOptions, diagnosticMode: false }, TokenType.verifiablePresentationStatus);
+    const didValidation = new DidValidation(options, <IExpectedBase>{ type: TokenType.verifiablePresentationStatus });
+    const validationResponse = await didValidation.validate(snapshot);
+    if (!validationResponse.result) {
+      return validationResponse;
+    }
+
+    const cards: IRevocedCard[] = validationResponse.payloadObject.revokedCards;
+    if (!Array.isArray(cards)) {
+      return {
+        result: false,
+        status: 403,
+        detailedError: 'The revocation snapshot does not contain revokedCards',
+        code: ValidationErrorCode.invalidRevocationSnapshot,
+        claimPath: '$.revokedCards'
+      };
+    }
+
+    for (let inx = 0; inx < cards.length; inx++) {
+      const card = cards[inx];
+      if (!card?.verifiableCredentialId || typeof card.actionTimeInSeconds !== 'number' || card.issuerDid !== validationResponse.did) {
+        return {
+          result: false,
+          status: 403,
+          detailedError: `The revoked card ${inx} in the revocation snapshot of '${validationResponse.did}' is invalid or revoked by another issuer`,
+          code: ValidationErrorCode.invalidRevocationSnapshot,
+          claimPath: `$.revokedCards[${inx}]`
+        };
+      }
+    }
+
+    this.add(cards);
+    builder.logger.debug('Revocation snapshot added', { issuer: validationResponse.did, cards: cards.length });
+    return {
+      result: true,
+      status: 200
+    };
+  }
+
+  /**
+   * Get the revocation of a verifiable credential
+   * @inheritdoc
+   */
+  public async getRevokedCard(verifiableCredentialId: string, issuerDid: string): Promise<IRevocedCard | undefined> {
+    return this._cards.get(InMemoryRevocationSource.getKey(verifiableCredentialId, issuerDid));
+  }
+
+  /**
+   * Get the key of a card
+   * @param verifiableCredentialId The identifier of the verifiable credential
+   * @param issuerDid The DID of the issuer
+   */
+  private static getKey(verifiableCredentialId: string, issuerDid: string): string {
+    return JSON.stringify([issuerDid, verifiableCredentialId]);
+  }
+}
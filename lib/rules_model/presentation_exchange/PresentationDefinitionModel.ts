@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { PresentationExchangeInputDescriptorModel } from '../../index';
+import { PresentationExchangeInputDescriptorModel, PresentationExchangeSubmissionRequirementModel } from '../../index';
 
 /**
  * Class to model the presentation_definition as defined by Presentation Exchange.
@@ -13,6 +13,10 @@ export class PresentationDefinitionModel {
  /**
    * Create an instance of PresentationDefinitionModel
    * @param PresentationExchangeInputDescriptorModel PresentationExchangeInputDescriptorModel instance
+   * @param name of the presentation definition
+   * @param purpose of the presentation definition
+   * @param id of the presentation definition
+   * @param submission_requirements which input descriptors must be satisfied
    */
   constructor (
     /**
@@ -27,7 +31,17 @@ export class PresentationDefinitionModel {
     /**
      * The resource MAY contain this property, and if present its value MUST be a string that describes the purpose for which the Presentation Definition’s inputs are being requested.
      */
-    public purpose?: string) {
+    public purpose?: string,
+
+    /**
+     * The resource MUST contain this property in version 2, and its value MUST be a unique identifier of the Presentation Definition.
+     */
+    public id?: string,
+
+    /**
+     * The resource MAY contain this property. If absent, every input descriptor must be satisfied.
+     */
+    public submission_requirements?: PresentationExchangeSubmissionRequirementModel[]) {
   }
   
   /**
@@ -35,13 +49,18 @@ export class PresentationDefinitionModel {
    * @param input model to populate object
    */
   public populateFrom(input: PresentationDefinitionModel): PresentationDefinitionModel {
+    this.id = input.id;
     this.name = input.name;
     this.purpose = input.purpose;
     this.input_descriptors = [];
-    const objectToPopulate = new PresentationExchangeInputDescriptorModel();
     for (let inx = 0; input.input_descriptors && inx < input.input_descriptors.length ; inx++ ) {
       const item: PresentationExchangeInputDescriptorModel = input.input_descriptors[inx];
-      this.input_descriptors.push(objectToPopulate.populateFrom(item));
+      this.input_descriptors.push(new PresentationExchangeInputDescriptorModel().populateFrom(item));
+    }
+    if (input.submission_requirements) {
+      this.submission_requirements = input.submission_requirements.map((requirement) => new PresentationExchangeSubmissionRequirementModel().populateFrom(requirement));
+    } else {
+      delete this.submission_requirements;
     }
     return this;
   }
@@ -3,41 +3,42 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { BaseIssuanceModel } from '../../index';
+import { PresentationExchangeFieldModel } from '../../index';
 
 /**
  * Class to model the constraints as defined by Presentation Exchange.
  */
 export class PresentationExchangeConstraintsModel {
-     /**
+  /**
    * Create an instance of PresentationExchangeConstraintsModel
-   * @param path for the constraint
-   * @param name for the schema
-   * @param purpose of the schema
+   * @param fields of the constraints
+   * @param limit_disclosure required or preferred
    */
-  constructor (
+  constructor(
 
     /**
-     * The object MUST contain a path property, and its value MUST be an array of one or more JSONPath string expressions, as defined in the JSONPath Syntax Definition section, that select some subset of values from the target input.
+     * The constraints object MAY contain a fields property. Each field selects values from the submitted credential.
      */
-    public path?: string[],
+    public fields?: PresentationExchangeFieldModel[],
 
     /**
-     * The object MAY contain a filter property, and if present its value MUST be JSON Schema descriptor used to filter against the values returned from evaluation of the JSONPath string expressions in the path array.
-     */
-    public filter?: any,
-    /**
-     * The object MAY contain a purpose property, and if present its value MUST be a string that describes the purpose for which the field is being requested.
+     * The constraints object MAY contain a limit_disclosure property. If required, the submitted credential must only disclose the claims selected by the fields.
      */
-    public purpose?: string) {
+    public limit_disclosure?: 'required' | 'preferred') {
   }
 
   /**
    * Populate this object from a model
    * @param input model to populate object
    */
-  public populateFrom(_input: PresentationExchangeConstraintsModel): PresentationExchangeConstraintsModel {
+  public populateFrom(input: PresentationExchangeConstraintsModel): PresentationExchangeConstraintsModel {
+    this.limit_disclosure = input.limit_disclosure;
+    if (input.fields) {
+      this.fields = input.fields.map((field) => new PresentationExchangeFieldModel().populateFrom(field));
+    } else {
+      delete this.fields;
+    }
+
     return this;
   }
-
-}
\ No newline at end of file
+}
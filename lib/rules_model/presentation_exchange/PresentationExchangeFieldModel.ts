@@ -0,0 +1,58 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Class to model a field of the constraints as defined by Presentation Exchange.
+ */
+export class PresentationExchangeFieldModel {
+  /**
+   * Create an instance of PresentationExchangeFieldModel
+   * @param path for the field
+   * @param filter for the values of the field
+   * @param purpose of the field
+   * @param id of the field
+   * @param optional true if the field may be missing
+   */
+  constructor(
+
+    /**
+     * The object MUST contain a path property, and its value MUST be an array of one or more JSONPath string expressions, as defined in the JSONPath Syntax Definition section, that select some subset of values from the target input.
+     */
+    public path?: string[],
+
+    /**
+     * The object MAY contain a filter property, and if present its value MUST be JSON Schema descriptor used to filter against the values returned from evaluation of the JSONPath string expressions in the path array.
+     */
+    public filter?: any,
+
+    /**
+     * The object MAY contain a purpose property, and if present its value MUST be a string that describes the purpose for which the field is being requested.
+     */
+    public purpose?: string,
+
+    /**
+     * The object MAY contain an id property, and if present its value MUST be a string that is unique from every other field object’s id property.
+     */
+    public id?: string,
+
+    /**
+     * The object MAY contain an optional property, and if true the field may be missing from the submitted credential.
+     */
+    public optional?: boolean) {
+  }
+
+  /**
+   * Populate this object from a model
+   * @param input model to populate object
+   */
+  public populateFrom(input: PresentationExchangeFieldModel): PresentationExchangeFieldModel {
+    this.path = input.path ? [...input.path] : undefined;
+    this.filter = input.filter;
+    this.purpose = input.purpose;
+    this.id = input.id;
+    this.optional = input.optional;
+    return this;
+  }
+}
@@ -16,12 +16,18 @@ export class PresentationExchangeInputDescriptorModel {
 * @param schema schema for the input definition
 * @param issuance issuance for the input definition
 * @param constraints constraints for the input definition
+* @param group groups of the input definition used by the submission requirements
+* @param name for the input definition
+* @param purpose of the input definition
 */
   constructor(
     public id?: string,
     public schema?: PresentationExchangeSchemaModel,
     public issuance?: PresentationExchangeIssuanceModel[],
-    public constraints?: PresentationExchangeConstraintsModel) {
+    public constraints?: PresentationExchangeConstraintsModel,
+    public group?: string[],
+    public name?: string,
+    public purpose?: string) {
   }
 
   /**
@@ -30,20 +36,31 @@ export class PresentationExchangeInputDescriptorModel {
    */
   public populateFrom(input: PresentationExchangeInputDescriptorModel): PresentationExchangeInputDescriptorModel {
     this.id = input.id;
+    this.name = input.name;
+    this.purpose = input.purpose;
     if (input.schema) {
       const objectToPopulate = new PresentationExchangeSchemaModel();
       this.schema = objectToPopulate.populateFrom(input.schema);
     }
     if (input.issuance) {
       this.issuance = [];
-      const objectToPopulate = new PresentationExchangeIssuanceModel();
       for (let inx = 0; inx < input.issuance.length; inx++) {
         const item: PresentationExchangeIssuanceModel = input.issuance[inx];
-        this.issuance.push(objectToPopulate.populateFrom(item));
+        this.issuance.push(new PresentationExchangeIssuanceModel().populateFrom(item));
       }
     } else {
       delete this.issuance;
     }
+    if (input.constraints) {
+      this.constraints = new PresentationExchangeConstraintsModel().populateFrom(input.constraints);
+    } else {
+      delete this.constraints;
+    }
+    if (input.group) {
+      this.group = [...input.group];
+    } else {
+      delete this.group;
+    }
 
     return this;
   }
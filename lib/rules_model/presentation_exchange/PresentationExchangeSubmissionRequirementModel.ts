@@ -0,0 +1,85 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Class to model the submission_requirements as defined by Presentation Exchange.
+ * See https://identity.foundation/presentation-exchange/#submission-requirements
+ */
+export class PresentationExchangeSubmissionRequirementModel {
+  /**
+   * Create an instance of PresentationExchangeSubmissionRequirementModel
+   * @param rule all or pick
+   * @param from the group of input descriptors
+   * @param from_nested the nested submission requirements
+   * @param count the exact number of items to pick
+   * @param min the minimum number of items to pick
+   * @param max the maximum number of items to pick
+   * @param name of the requirement
+   * @param purpose of the requirement
+   */
+  constructor(
+
+    /**
+     * The object MUST contain a rule property. With all every item must be satisfied, with pick count, min and max apply.
+     */
+    public rule?: 'all' | 'pick',
+
+    /**
+     * The object MUST contain either a from or a from_nested property. The value of from is a group of input descriptors.
+     */
+    public from?: string,
+
+    /**
+     * The value of from_nested is an array of nested submission requirements.
+     */
+    public from_nested?: PresentationExchangeSubmissionRequirementModel[],
+
+    /**
+     * The object MAY contain a count property. The number of satisfied items must be exactly count.
+     */
+    public count?: number,
+
+    /**
+     * The object MAY contain a min property. The number of satisfied items must be at least min.
+     */
+    public min?: number,
+
+    /**
+     * The object MAY contain a max property. The number of satisfied items must be at most max.
+     */
+    public max?: number,
+
+    /**
+     * The object MAY contain a name property, a human-friendly name of the requirement.
+     */
+    public name?: string,
+
+    /**
+     * The object MAY contain a purpose property, the purpose for which the requirement is being requested.
+     */
+    public purpose?: string) {
+  }
+
+  /**
+   * Populate this object from a model
+   * @param input model to populate object
+   */
+  public populateFrom(input: PresentationExchangeSubmissionRequirementModel): PresentationExchangeSubmissionRequirementModel {
+    this.rule = input.rule;
+    this.from = input.from;
+    this.count = input.count;
+    this.min = input.min;
+    this.max = input.max;
+    this.name = input.name;
+    this.purpose = input.purpose;
+    if (input.from_nested) {
+      this.from_nested = input.from_nested.map((requirement) => new PresentationExchangeSubmissionRequirementModel().populateFrom(requirement));
+    } else {
+      delete this.from_nested;
+    }
+
+    return this;
+  }
+}
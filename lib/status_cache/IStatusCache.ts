@@ -0,0 +1,27 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { IVerifiablePresentationStatus } from '../index';
+
+/**
+ * Interface to model a store of the statuses of verifiable credentials returned in status receipts
+ */
+export default interface IStatusCache {
+  /**
+   * Get the cached status of a verifiable credential
+   * @param verifiableCredentialId The identifier of the verifiable credential, the jti claim in a JWT
+   * @param issuerDid The DID of the issuer of the verifiable credential
+   * @returns The status, undefined if not cached or expired
+   */
+  get(verifiableCredentialId: string, issuerDid: string): Promise<IVerifiablePresentationStatus | undefined>;
+
+  /**
+   * Cache the status of a verifiable credential
+   * @param verifiableCredentialId The identifier of the verifiable credential, the jti claim in a JWT
+   * @param issuerDid The DID of the issuer of the verifiable credential
+   * @param status The status
+   * @param expiry Epoch time in seconds after which the status cannot be used anymore
+   */
+  set(verifiableCredentialId: string, issuerDid: string, status: IVerifiablePresentationStatus, expiry: number): Promise<void>;
+}
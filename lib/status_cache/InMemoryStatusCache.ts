@@ -0,0 +1,78 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { IVerifiablePresentationStatus } from '../index';
+import IStatusCache from './IStatusCache';
+import IClock from '../options/IClock';
+import ExpiringMap from '../cache/ExpiringMap';
+
+/**
+ * Interface to model the options of the in-memory status cache
+ */
+export interface IInMemoryStatusCacheOptions {
+  /**
+   * Maximum number of statuses kept in the cache. Statuses are never evicted before they expire.
+   */
+  maxEntries?: number;
+
+  /**
+   * The source of the current time for the expiry of the statuses
+   */
+  clock?: IClock;
+}
+
+/**
+ * Status cache keeping the statuses of verifiable credentials in memory until they expire.
+ * @class
+ * @implements IStatusCache
+ */
+export default class InMemoryStatusCache implements IStatusCache {
+  /**
+   * Default maximum number of statuses
+   */
+  public static readonly DEFAULT_MAX_ENTRIES = 10000;
+
+  private readonly _entries: ExpiringMap<IVerifiablePresentationStatus>;
+
+  /**
+   * Create a new instance of <see @class InMemoryStatusCache>
+   * @param options The cache options
+   */
+  constructor(options?: IInMemoryStatusCacheOptions) {
+    this._entries = new ExpiringMap<IVerifiablePresentationStatus>(options?.maxEntries ?? InMemoryStatusCache.DEFAULT_MAX_ENTRIES, options?.clock);
+  }
+
+  /**
+   * Gets the number of statuses in the cache
+   */
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Get the cached status of a verifiable credential
+   * @inheritdoc
+   */
+  public async get(verifiableCredentialId: string, issuerDid: string): Promise<IVerifiablePresentationStatus | undefined> {
+    return this._entries.get(InMemoryStatusCache.getKey(verifiableCredentialId, issuerDid));
+  }
+
+  /**
+   * Cache the status of a verifiable credential.
+   * The status is not cached while the cache is full with statuses which are not expired.
+   * @inheritdoc
+   */
+  public async set(verifiableCredentialId: string, issuerDid: string, status: IVerifiablePresentationStatus, expiry: number): Promise<void> {
+    this._entries.set(InMemoryStatusCache.getKey(verifiableCredentialId, issuerDid), status, expiry);
+  }
+
+  /**
+   * Get the key of a status
+   * @param verifiableCredentialId The identifier of the verifiable credential
+   * @param issuerDid The DID of the issuer
+   */
+  private static getKey(verifiableCredentialId: string, issuerDid: string): string {
+    return JSON.stringify([issuerDid, verifiableCredentialId]);
+  }
+}
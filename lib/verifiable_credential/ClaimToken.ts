@@ -5,6 +5,8 @@
 import base64url from 'base64url';
 import VerifiableCredentialConstants from './VerifiableCredentialConstants';
 import { PresentationDefinitionModel } from '..';
+import ILogger from '../logging/ILogger';
+import NoOpLogger from '../logging/NoOpLogger';
 const jp = require('jsonpath');
 
 /**
@@ -211,11 +213,18 @@ export default class ClaimToken {
   * Attestations contain the tokens and VCs in the input.
   * This algorithm will convert the attestations to a ClaimToken
   * @param payload The presentaiton exchange payload 
+  * @param logger The logger
+  * @param definition The presentation definition of the request, the presentation submission is checked against it when specified
+  * @param submittedCredentials Receives the credential submitted for each descriptor, the credential at the path_nested when specified
+  * @returns The tokens at the paths of the descriptors, verifiable presentations are returned so the holder binding is validated
   */
-  public static getClaimTokensFromPresentationExchange(payload: PresentationDefinitionModel): { [key: string]: ClaimToken } {
+  public static getClaimTokensFromPresentationExchange(payload: any, logger: ILogger = new NoOpLogger(), definition?: PresentationDefinitionModel, submittedCredentials?: { [descriptorId: string]: ClaimToken }): { [key: string]: ClaimToken } {
     const decodedTokens: { [key: string]: ClaimToken } = {};
     // Get descriptor map
     const descriptorMap: any[] = jp.query(payload, `$.presentation_submission.descriptor_map.*`);
+    if (definition) {
+      ClaimToken.checkPresentationSubmission(payload.presentation_submission, descriptorMap, definition);
+    }
 
     for (let inx = 0; inx < descriptorMap.length; inx++) {
       const item = descriptorMap[inx];
@@ -224,12 +233,21 @@ export default class ClaimToken {
           throw new Error(`The SIOP presentation exchange response has descriptor_map without id property`);
         } else if (item.path) {
           const tokenFinder = jp.query(payload, item.path);
-          console.log(tokenFinder);
+          logger.debug('Presentation submission path resolved', { id: item.id, path: item.path, tokens: tokenFinder.length });
           if (tokenFinder.length == 0) {
             throw new Error(`The SIOP presentation exchange response has descriptor_map with id '${item.id}'. This path '${item.path}' did not return a token.`);
           } else if (tokenFinder.length > 1) {
             throw new Error(`The SIOP presentation exchange response has descriptor_map with id '${item.id}'. This path '${item.path}' points to multiple credentails and should only point to one credential.`);
-          } else if (typeof tokenFinder[0] === 'string') {
+          }
+
+          ClaimToken.checkDescriptorFormat(item, tokenFinder[0]);
+          const submitted = item.path_nested ? ClaimToken.resolveNestedPath(item.id, item.path_nested, tokenFinder[0]) : tokenFinder[0];
+          const submittedCredential = submittedCredentials && ClaimToken.getSubmittedCredential(submitted);
+          if (submittedCredential) {
+            submittedCredentials![item.id] = submittedCredential;
+          }
+
+          if (typeof tokenFinder[0] === 'string') {
             const foundToken = tokenFinder[0];
             const claimToken = ClaimToken.create(foundToken);
             decodedTokens[item.id] = claimToken;
@@ -246,6 +264,104 @@ export default class ClaimToken {
     return decodedTokens;
   }
 
+  /**
+   * Check the presentation submission against the presentation definition of the request
+   * @param submission The presentation submission
+   * @param descriptorMap The descriptor map of the presentation submission
+   * @param definition The presentation definition
+   */
+  private static checkPresentationSubmission(submission: any, descriptorMap: any[], definition: PresentationDefinitionModel): void {
+    if (definition.id && submission.definition_id !== definition.id) {
+      throw new Error(`The SIOP presentation exchange response has definition_id '${submission.definition_id}'. Expected '${definition.id}'.`);
+    }
+
+    const ids = (definition.input_descriptors || []).map((descriptor) => descriptor.id);
+    for (const item of descriptorMap) {
+      if (item?.id && !ids.includes(item.id)) {
+        throw new Error(`The SIOP presentation exchange response has descriptor_map with id '${item.id}'. This id is not an input descriptor of the presentation definition.`);
+      }
+    }
+  }
+
+  /**
+   * Resolve the path_nested of a descriptor in the token found at the path of its parent
+   * @param id The id of the descriptor
+   * @param nested The path_nested descriptor
+   * @param parent The token found at the path of the parent descriptor
+   * @returns The token found at the innermost path_nested
+   */
+  private static resolveNestedPath(id: string, nested: any, parent: any): any {
+    if (!nested.path) {
+      throw new Error(`The SIOP presentation exchange response has descriptor_map with id '${id}'. No path property found in path_nested.`);
+    }
+
+    const decoded = typeof parent === 'string' ? ClaimToken.getTokenPayload(parent) : parent;
+    const tokenFinder = jp.query(decoded, nested.path);
+    if (tokenFinder.length !== 1) {
+      throw new Error(`The SIOP presentation exchange response has descriptor_map with id '${id}'. This path_nested '${nested.path}' should point to one credential.`);
+    }
+
+    ClaimToken.checkDescriptorFormat({ ...nested, id }, tokenFinder[0]);
+    return nested.path_nested ? ClaimToken.resolveNestedPath(id, nested.path_nested, tokenFinder[0]) : tokenFinder[0];
+  }
+
+  /**
+   * Get the credential submitted for a descriptor
+   * @param token The token found at the path of the descriptor
+   * @returns The credential, the only credential of a presentation, undefined if the credential cannot be determined
+   */
+  private static getSubmittedCredential(token: any): ClaimToken | undefined {
+    let claimToken: ClaimToken;
+    try {
+      claimToken = ClaimToken.create(token);
+      if (claimToken.type === TokenType.verifiablePresentationJwt) {
+        const vcs = claimToken.decodedToken.vp.verifiableCredential;
+        return Array.isArray(vcs) && vcs.length === 1 ? ClaimToken.create(vcs[0]) : undefined;
+      }
+    } catch {
+      return undefined;
+    }
+
+    return claimToken.type === TokenType.verifiableCredential ? claimToken : undefined;
+  }
+
+  /**
+   * Check that the format of a descriptor agrees with the token found at its path
+   * @param item The descriptor
+   * @param token The token found at the path of the descriptor
+   */
+  private static checkDescriptorFormat(item: any, token: any): void {
+    if (!item.format) {
+      return;
+    }
+
+    const format: string = item.format;
+    let matches: boolean;
+    if (format.startsWith('jwt')) {
+      let payload: any;
+      try {
+        payload = typeof token === 'string' && token.split('.').length === 3 ? JSON.parse(base64url.decode(token.split('.')[1])) : undefined;
+      } catch {
+        payload = undefined;
+      }
+
+      matches = format === 'jwt' ? !!payload :
+        format === 'jwt_vc' ? !!payload?.vc :
+          format === 'jwt_vp' ? !!payload?.vp : false;
+    } else if (format.startsWith('ldp')) {
+      const types: string[] = token && typeof token === 'object' && token['@context'] ? [].concat(token.type) : [];
+      matches = format === 'ldp' ? types.length > 0 || !!token?.['@context'] :
+        format === 'ldp_vc' ? types.includes('VerifiableCredential') :
+          format === 'ldp_vp' ? types.includes('VerifiablePresentation') : false;
+    } else {
+      throw new Error(`The SIOP presentation exchange response has descriptor_map with id '${item.id}'. The format '${format}' is not supported.`);
+    }
+
+    if (!matches) {
+      throw new Error(`The SIOP presentation exchange response has descriptor_map with id '${item.id}'. The token at path '${item.path}' does not have the format '${format}'.`);
+    }
+  }
+
 
   /**
    * Decode the token
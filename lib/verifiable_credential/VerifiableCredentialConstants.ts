@@ -86,4 +86,39 @@ export default class VerifiableCredentialConstants {
    * Default resolver url
    */
   public static UNIVERSAL_RESOLVER_URL = 'https://portableidentitycards.azure-api.net/1.0/identifiers/';
-}
\ No newline at end of file
+
+  /**
+   * Default tolerance for clock drifts in seconds
+   */
+  public static DEFAULT_CLOCK_SKEW_IN_SECONDS = 300;
+
+  /**
+   * Default time in seconds a used jti or nonce is remembered when the token has no exp
+   */
+  public static DEFAULT_REPLAY_EXPIRY_IN_SECONDS = 24 * 60 * 60;
+
+  /**
+   * Default proofPurpose of the Linked Data proof on a verifiable credential
+   */
+  public static DEFAULT_CREDENTIAL_PROOF_PURPOSE = 'assertionMethod';
+
+  /**
+   * Default timeout in milliseconds of a status request
+   */
+  public static DEFAULT_STATUS_TIMEOUT_IN_MILLISECONDS = 5000;
+
+  /**
+   * Default number of retries of a status request answered with a server error
+   */
+  public static DEFAULT_STATUS_MAX_RETRIES = 2;
+
+  /**
+   * Default delay in milliseconds before the first retry of a status request, doubled for each next retry
+   */
+  public static DEFAULT_STATUS_RETRY_DELAY_IN_MILLISECONDS = 200;
+
+  /**
+   * Default maximum time in seconds a cached status receipt is used
+   */
+  public static DEFAULT_STATUS_MAX_STALENESS_IN_SECONDS = 300;
+}
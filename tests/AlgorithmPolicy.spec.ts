@@ -0,0 +1,48 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import AlgorithmPolicy from '../lib/input_validation/AlgorithmPolicy';
+import { TokenType, ValidatorBuilder } from '../lib';
+import TestSetup from './TestSetup';
+
+describe('AlgorithmPolicy', () => {
+  const rsaKey = { kty: 'RSA', n: '0vx7agoebGcQSuuPiLJXZptN9nndrQmbXEps2aiAFbWhM78LhWx', e: 'AQAB' };
+  const secp256k1Key = { kty: 'EC', crv: 'SECP256K1', x: 'yOrwnHVTKn3UO2K29ctcOTXo0hZmm7njlFR_uPC8aBc', y: '05fsHpcimSDwdnQ_sKw5tmsNMx_3WRBDibpydraxLwA' };
+  const ed25519Key = { kty: 'OKP', crv: 'ed25519', x: '7kqc5NnojHJHZ11Ec5cGCLMIKgJVDBKhrAbu9YrfVFg' };
+
+  it('should accept asymmetric algorithms matching the key', () => {
+    expect(AlgorithmPolicy.check('RS256', rsaKey)).toBeUndefined();
+    expect(AlgorithmPolicy.check('PS256', rsaKey)).toBeUndefined();
+    expect(AlgorithmPolicy.check('ES256K', secp256k1Key)).toBeUndefined();
+    expect(AlgorithmPolicy.check('EdDSA', ed25519Key)).toBeUndefined();
+    expect(AlgorithmPolicy.check('ES256', { kty: 'EC', crv: 'P-256' })).toBeUndefined();
+  });
+
+  it('should reject none, HMAC and unknown algorithms', () => {
+    expect(AlgorithmPolicy.check('none', rsaKey)).toEqual(`uses the algorithm 'none' which is not supported`);
+    expect(AlgorithmPolicy.check('HS256', rsaKey)).toEqual(`uses the algorithm 'HS256' which is not supported`);
+    expect(AlgorithmPolicy.check('HS256', rsaKey, ['HS256'])).toEqual(`uses the algorithm 'HS256' which is not supported`);
+    expect(AlgorithmPolicy.check('XYZ', rsaKey)).toEqual(`uses the algorithm 'XYZ' which is not supported`);
+  });
+
+  it('should reject algorithms not matching the key', () => {
+    expect(AlgorithmPolicy.check('RS256', secp256k1Key)).toEqual(`uses the algorithm 'RS256' which does not match the key type 'EC' with curve 'SECP256K1'`);
+    expect(AlgorithmPolicy.check('ES256', secp256k1Key)).toEqual(`uses the algorithm 'ES256' which does not match the key type 'EC' with curve 'SECP256K1'`);
+    expect(AlgorithmPolicy.check('ES256K', rsaKey)).toEqual(`uses the algorithm 'ES256K' which does not match the key type 'RSA'`);
+    expect(AlgorithmPolicy.check('EdDSA', undefined)).toEqual(`uses the algorithm 'EdDSA' which does not match the key type 'undefined'`);
+  });
+
+  it('should apply the allow-list', () => {
+    expect(AlgorithmPolicy.check('RS256', rsaKey, ['ES256K', 'EdDSA'])).toEqual(`uses the algorithm 'RS256' which is not allowed`);
+    expect(AlgorithmPolicy.check('EdDSA', ed25519Key, ['ES256K', 'EdDSA'])).toBeUndefined();
+
+    const builder = new ValidatorBuilder(new TestSetup().crypto)
+      .useAllowedAlgorithms(['ES256K'])
+      .useAllowedAlgorithms(['ES256K', 'RS256'], TokenType.idToken);
+    expect(builder.allowedAlgorithms[TokenType.verifiableCredential]).toEqual(['ES256K']);
+    expect(builder.allowedAlgorithms[TokenType.idToken]).toEqual(['ES256K', 'RS256']);
+    expect(builder.validatorOptions.allowedAlgorithms).toEqual(builder.allowedAlgorithms);
+    expect(() => builder.useAllowedAlgorithms(['ES256K', 'none', 'HS256'])).toThrowError(`The algorithms 'none, HS256' cannot be used to verify signed tokens`);
+  });
+});
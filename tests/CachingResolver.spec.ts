@@ -0,0 +1,159 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { CachingResolver, DidDocument, IDidResolver, IDidResolveResult, ManagedHttpResolver } from '../lib/index';
+import TestSetup from './TestSetup';
+
+/**
+ * Resolver counting the calls and returning a configured result
+ */
+class CountingResolver implements IDidResolver {
+  public calls = 0;
+  public fail = false;
+  public metadata: any;
+
+  public async resolve(did: string): Promise<IDidResolveResult> {
+    this.calls++;
+    if (this.fail) {
+      throw new Error(`Could not resolve ${did}`);
+    }
+    return <IDidResolveResult>{
+      didDocument: new DidDocument(<any>{ '@context': 'https://w3id.org/did/v1', id: did }),
+      metadata: this.metadata
+    };
+  }
+}
+
+describe('CachingResolver', () => {
+  it('should cache resolved DID documents', async () => {
+    const counting = new CountingResolver();
+    const resolver = new CachingResolver(counting);
+    let result = await resolver.resolve('did:test:issuer');
+    expect(result.didDocument.id).toEqual('did:test:issuer');
+    result = await resolver.resolve('did:test:issuer');
+    expect(result.didDocument.id).toEqual('did:test:issuer');
+    expect(counting.calls).toEqual(1);
+    expect(resolver.size).toEqual(1);
+
+    // Invalidate
+    resolver.invalidate('did:test:issuer');
+    await resolver.resolve('did:test:issuer');
+    expect(counting.calls).toEqual(2);
+
+    resolver.clear();
+    expect(resolver.size).toEqual(0);
+  });
+
+  it('should expire entries', async () => {
+    const counting = new CountingResolver();
+    let now = Date.now();
+    const resolver = new CachingResolver(counting, { ttlInSeconds: 10, clock: { now: () => now } });
+    await resolver.resolve('did:test:issuer');
+    now += 9000;
+    await resolver.resolve('did:test:issuer');
+    expect(counting.calls).toEqual(1);
+    now += 2000;
+    await resolver.resolve('did:test:issuer');
+    expect(counting.calls).toEqual(2);
+  });
+
+  it('should honor resolver metadata', async () => {
+    const counting = new CountingResolver();
+    counting.metadata = { noCache: true };
+    let resolver = new CachingResolver(counting);
+    await resolver.resolve('did:test:issuer');
+    await resolver.resolve('did:test:issuer');
+    expect(counting.calls).toEqual(2);
+
+    counting.calls = 0;
+    counting.metadata = { cacheMaxAge: 1 };
+    resolver = new CachingResolver(counting);
+    const now = Date.now();
+    const spy = spyOn(Date, 'now').and.returnValue(now);
+    await resolver.resolve('did:test:issuer');
+    spy.and.returnValue(now + 2000);
+    await resolver.resolve('did:test:issuer');
+    expect(counting.calls).toEqual(2);
+
+    // Ignore metadata
+    counting.calls = 0;
+    counting.metadata = { noCache: true };
+    resolver = new CachingResolver(counting, { useResolverMetadata: false });
+    await resolver.resolve('did:test:issuer');
+    await resolver.resolve('did:test:issuer');
+    expect(counting.calls).toEqual(1);
+  });
+
+  it('should cache failures', async () => {
+    const counting = new CountingResolver();
+    counting.fail = true;
+    const resolver = new CachingResolver(counting, { negativeTtlInSeconds: 10 });
+    const now = Date.now();
+    const spy = spyOn(Date, 'now').and.returnValue(now);
+    await expectAsync(resolver.resolve('did:test:issuer')).toBeRejected();
+    counting.fail = false;
+    await expectAsync(resolver.resolve('did:test:issuer')).toBeRejected();
+    expect(counting.calls).toEqual(1);
+    spy.and.returnValue(now + 11000);
+    const result = await resolver.resolve('did:test:issuer');
+    expect(result.didDocument.id).toEqual('did:test:issuer');
+    expect(counting.calls).toEqual(2);
+  });
+
+  it('should coalesce concurrent lookups', async () => {
+    const counting = new CountingResolver();
+    const resolver = new CachingResolver(counting);
+    const results = await Promise.all([resolver.resolve('did:test:issuer'), resolver.resolve('did:test:issuer'), resolver.resolve('did:test:user')]);
+    expect(results[0]).toBe(results[1]);
+    expect(counting.calls).toEqual(2);
+  });
+
+  it('should not cache lookups completing after invalidation', async () => {
+    const counting = new CountingResolver();
+    const resolver = new CachingResolver(counting);
+    let pending = resolver.resolve('did:test:issuer');
+    resolver.invalidate('did:test:issuer');
+    await pending;
+    expect(resolver.size).toEqual(0);
+
+    pending = resolver.resolve('did:test:issuer');
+    resolver.clear();
+    const next = resolver.resolve('did:test:issuer');
+    await Promise.all([pending, next]);
+    expect(counting.calls).toEqual(3);
+    expect(resolver.size).toEqual(1);
+    await resolver.resolve('did:test:issuer');
+    expect(counting.calls).toEqual(3);
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const counting = new CountingResolver();
+    const resolver = new CachingResolver(counting, { maxEntries: 2 });
+    await resolver.resolve('did:test:1');
+    await resolver.resolve('did:test:2');
+    await resolver.resolve('did:test:1');
+    await resolver.resolve('did:test:3');
+    expect(resolver.size).toEqual(2);
+    await resolver.resolve('did:test:1');
+    expect(counting.calls).toEqual(3);
+    await resolver.resolve('did:test:2');
+    expect(counting.calls).toEqual(4);
+  });
+
+  it('should wrap a universal resolver', async () => {
+    const setup = new TestSetup();
+    const resolver = new CachingResolver(setup.resolverUrl);
+    expect(resolver.resolver instanceof ManagedHttpResolver).toBeTruthy();
+    setup.fetchMock.get(`${setup.resolverUrl}/did:test:issuer`, {
+      body: { didDocument: { '@context': 'https://w3id.org/did/v1', id: 'did:test:issuer' } },
+      headers: { 'Cache-Control': 'public, max-age=60' }
+    }, { overwriteRoutes: true });
+    const result: any = await resolver.resolve('did:test:issuer');
+    expect(result.didDocument.id).toEqual('did:test:issuer');
+    expect(result.metadata.cacheMaxAge).toEqual(60);
+    await resolver.resolve('did:test:issuer');
+    expect(setup.fetchMock.calls().length).toEqual(1);
+    setup.fetchMock.reset();
+  });
+});
@@ -4,6 +4,8 @@
  *--------------------------------------------------------------------------------------------*/
 import ClaimToken, { TokenType } from '../lib/verifiable_credential/ClaimToken';
 import base64url from 'base64url';
+import { PresentationDefinitionModel, ValidatorBuilder, RequestorBuilder } from '../lib/index';
+import PresentationDefinition from './models/PresentationDefinitionSample1';
 
  describe('ClaimToken', () => {
   it ('should create a ClaimToken', () => {
@@ -42,4 +44,62 @@ import base64url from 'base64url';
     expect(() => new ClaimToken(<any>'', token, configuration)).toThrowError(`Type '' is not supported`);
     expect(() => new ClaimToken(TokenType.siopIssuance, 'token')).toThrowError('Cannot decode. Invalid input token');
   });
- });
\ No newline at end of file
+
+  it('should check the presentation submission against the presentation definition', () => {
+    const jwt = (payload: any) => base64url.encode(JSON.stringify({ typ: 'JWT' })) + '.' + base64url.encode(JSON.stringify(payload)) + '.';
+    const vc = jwt({ jti: 'urn:pic:1', vc: { type: ['VerifiableCredential', 'IdentityCard'] } });
+    const vp = jwt({ jti: 'urn:vp:1', vp: { verifiableCredential: [vc] } });
+    const definition = new PresentationDefinitionModel().populateFrom(<any>{ id: 'definition', input_descriptors: [{ id: 'IdentityCard' }] });
+    const siop = (descriptor: any, definitionId: string = 'definition'): any => {
+      return {
+        presentation_submission: {
+          definition_id: definitionId,
+          descriptor_map: [{ id: 'IdentityCard', format: 'jwt_vp', path: '$.presentation_submission.attestations.presentations.IdentityCard', ...descriptor }],
+          attestations: { presentations: { IdentityCard: vp } }
+        }
+      };
+    };
+
+    // The presentation is validated, the nested credential is submitted for the descriptor
+    let submittedCredentials: { [descriptorId: string]: ClaimToken } = {};
+    let tokens = ClaimToken.getClaimTokensFromPresentationExchange(siop({ path_nested: { id: 'IdentityCard', format: 'jwt_vc', path: '$.vp.verifiableCredential[0]' } }), undefined, definition, submittedCredentials);
+    expect(tokens.IdentityCard.rawToken).toEqual(vp);
+    expect(submittedCredentials.IdentityCard.type).toEqual(TokenType.verifiableCredential);
+    expect(submittedCredentials.IdentityCard.rawToken).toEqual(vc);
+
+    // Without path_nested the only credential of the presentation is submitted
+    submittedCredentials = {};
+    ClaimToken.getClaimTokensFromPresentationExchange(siop({}), undefined, definition, submittedCredentials);
+    expect(submittedCredentials.IdentityCard.rawToken).toEqual(vc);
+
+    const vp2 = jwt({ jti: 'urn:vp:2', vp: { verifiableCredential: [vc, vc] } });
+    submittedCredentials = {};
+    ClaimToken.getClaimTokensFromPresentationExchange({ presentation_submission: { ...siop({}).presentation_submission, attestations: { presentations: { IdentityCard: vp2 } } } }, undefined, definition, submittedCredentials);
+    expect(submittedCredentials.IdentityCard).toBeUndefined();
+
+    // The submission does not match the definition
+    expect(() => ClaimToken.getClaimTokensFromPresentationExchange(siop({}, 'other'), undefined, definition))
+      .toThrowError(`The SIOP presentation exchange response has definition_id 'other'. Expected 'definition'.`);
+    expect(() => ClaimToken.getClaimTokensFromPresentationExchange(siop({ id: 'Diploma' }), undefined, definition))
+      .toThrowError(`The SIOP presentation exchange response has descriptor_map with id 'Diploma'. This id is not an input descriptor of the presentation definition.`);
+    expect(ClaimToken.getClaimTokensFromPresentationExchange(siop({ id: 'Diploma' }, 'other')).Diploma).toBeDefined();
+
+    // The format does not match the token
+    expect(() => ClaimToken.getClaimTokensFromPresentationExchange(siop({ format: 'jwt_vc' }), undefined, definition))
+      .toThrowError(`The SIOP presentation exchange response has descriptor_map with id 'IdentityCard'. The token at path '$.presentation_submission.attestations.presentations.IdentityCard' does not have the format 'jwt_vc'.`);
+    expect(() => ClaimToken.getClaimTokensFromPresentationExchange(siop({ format: 'ldp_vp' }), undefined, definition))
+      .toThrowError(`The SIOP presentation exchange response has descriptor_map with id 'IdentityCard'. The token at path '$.presentation_submission.attestations.presentations.IdentityCard' does not have the format 'ldp_vp'.`);
+    expect(() => ClaimToken.getClaimTokensFromPresentationExchange(siop({ format: 'mso_mdoc' }), undefined, definition))
+      .toThrowError(`The SIOP presentation exchange response has descriptor_map with id 'IdentityCard'. The format 'mso_mdoc' is not supported.`);
+    expect(() => ClaimToken.getClaimTokensFromPresentationExchange(siop({ path_nested: { format: 'jwt_vp', path: '$.vp.verifiableCredential[0]' } }), undefined, definition))
+      .toThrowError(`The SIOP presentation exchange response has descriptor_map with id 'IdentityCard'. The token at path '$.vp.verifiableCredential[0]' does not have the format 'jwt_vp'.`);
+    expect(() => ClaimToken.getClaimTokensFromPresentationExchange(siop({ path_nested: { format: 'jwt_vc', path: '$.vp.verifiableCredential[1]' } }), undefined, definition))
+      .toThrowError(`The SIOP presentation exchange response has descriptor_map with id 'IdentityCard'. This path_nested '$.vp.verifiableCredential[1]' should point to one credential.`);
+
+    // The validator uses the presentation definition of the requestor
+    const requestor = new RequestorBuilder(PresentationDefinition.presentationExchangeDefinition).build();
+    const builder = new ValidatorBuilder(requestor.builder.crypto).useRequestor(requestor);
+    expect(builder.presentationDefinition!.input_descriptors![0].id).toEqual('IdentityCard');
+    expect(builder.usePresentationDefinition(definition).presentationDefinition).toEqual(definition);
+  });
+ });
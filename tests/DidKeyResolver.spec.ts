@@ -0,0 +1,114 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { createECDH, randomBytes } from 'crypto';
+import base64url from 'base64url';
+import { CompositeResolver, DidJwkResolver, DidKeyResolver, IDidResolver, IDidResolveResult, ManagedHttpResolver, CryptoBuilder, ValidatorBuilder } from '../lib/index';
+import LinkedDataCryptoSuitePublicKey from '../lib/input_validation/LinkedDataCryptoSuitePublicKey';
+const bs58 = require('bs58');
+
+describe('DidKeyResolver', () => {
+  const encode = (prefix: number[], key: Buffer) => `did:key:z${bs58.encode(Buffer.concat([Buffer.from(prefix), key]))}`;
+
+  it('should resolve an Ed25519 did:key', async () => {
+    // Test vector from the did:key specification
+    const did = 'did:key:z6MkiTBz1ymuepAQ4HEHYSF1H8quG5GLVVQR3djdX3mDooWp';
+    const result = await new DidKeyResolver().resolve(did);
+    const kid = `${did}#z6MkiTBz1ymuepAQ4HEHYSF1H8quG5GLVVQR3djdX3mDooWp`;
+    expect(result.didDocument.id).toEqual(did);
+    expect((<any>result.didDocument.rawDocument).authentication).toEqual([kid]);
+    expect((<any>result.didDocument.rawDocument).assertionMethod).toEqual([kid]);
+    const jwk = LinkedDataCryptoSuitePublicKey.getPublicKey(result.didDocument.getPublicKey(kid));
+    expect(jwk.kty).toEqual('OKP');
+    expect(jwk.crv).toEqual('Ed25519');
+    expect(jwk.x).toEqual(base64url.encode(bs58.decode('4zvwRjXUKGfvwnParsHAS3HuSVzV5cA4McphgmoCtajS')));
+  });
+
+  it('should resolve secp256k1 and P-256 did:key', async () => {
+    const curves: any[] = [['secp256k1', [0xe7, 0x01], 'secp256k1'], ['prime256v1', [0x80, 0x24], 'P-256']];
+    for (let inx = 0; inx < curves.length; inx++) {
+      const [curve, prefix, crv] = curves[inx];
+      const ecdh = createECDH(curve);
+      ecdh.generateKeys();
+      const uncompressed = ecdh.getPublicKey();
+      const did = encode(prefix, Buffer.from(ecdh.getPublicKey('hex', 'compressed'), 'hex'));
+      const result = await new DidKeyResolver().resolve(did);
+      const jwk: any = result.didDocument.publicKey[0].publicKeyJwk;
+      expect(jwk.kty).toEqual('EC');
+      expect(jwk.crv).toEqual(crv);
+      expect(jwk.x).toEqual(base64url.encode(uncompressed.slice(1, 33)));
+      expect(jwk.y).toEqual(base64url.encode(uncompressed.slice(33)));
+    }
+  });
+
+  it('should not resolve invalid did:key', async () => {
+    const resolver = new DidKeyResolver();
+    await expectAsync(resolver.resolve('did:jwk:abc')).toBeRejected();
+    await expectAsync(resolver.resolve('did:key:abc')).toBeRejected();
+    await expectAsync(resolver.resolve('did:key:z0OIl')).toBeRejected();
+    await expectAsync(resolver.resolve(encode([0x12, 0x00], randomBytes(32)))).toBeRejected();
+    await expectAsync(resolver.resolve(encode([0xed, 0x01], randomBytes(31)))).toBeRejected();
+    expect(() => DidKeyResolver.getPublicKeyJwk('xyz')).toThrowError(`The did:key 'xyz' is not base58btc encoded`);
+  });
+});
+
+describe('DidJwkResolver', () => {
+  it('should resolve a did:jwk', async () => {
+    const publicKeyJwk = { kty: 'EC', crv: 'P-256', x: 'acbIQiuMs3i8_uszEjJ2tpTtRM4EU3yz91PH6CdH2V0', y: '_KcyLj9vWMptnmKtm46GqDz8wf74I5LKgrl2GzH3nSE' };
+    const did = `did:jwk:${base64url.encode(JSON.stringify(publicKeyJwk))}`;
+    const result = await new DidJwkResolver().resolve(did);
+    expect(result.didDocument.id).toEqual(did);
+    expect(result.didDocument.getPublicKey(`${did}#0`)!.publicKeyJwk).toEqual(publicKeyJwk);
+  });
+
+  it('should only list an encryption did:jwk for key agreement', async () => {
+    const publicKeyJwk = { kty: 'OKP', crv: 'X25519', use: 'enc', x: '3p7bfXt9wbTTW2HC7OQ1Nz-DQ8hbeGdNrfx-FG-IK08' };
+    const did = `did:jwk:${base64url.encode(JSON.stringify(publicKeyJwk))}`;
+    const document: any = (await new DidJwkResolver().resolve(did)).didDocument.rawDocument;
+    expect(document.keyAgreement).toEqual([`${did}#0`]);
+    expect(document.authentication).toBeUndefined();
+    expect(document.assertionMethod).toBeUndefined();
+    expect(document.capabilityInvocation).toBeUndefined();
+
+    const signing: any = (await new DidJwkResolver().resolve(`did:jwk:${base64url.encode(JSON.stringify({ ...publicKeyJwk, crv: 'Ed25519', use: 'sig' }))}`)).didDocument.rawDocument;
+    expect(signing.keyAgreement).toBeUndefined();
+    expect(signing.assertionMethod.length).toEqual(1);
+  });
+
+  it('should not resolve invalid did:jwk', async () => {
+    const resolver = new DidJwkResolver();
+    await expectAsync(resolver.resolve('did:jwk:')).toBeRejected();
+    await expectAsync(resolver.resolve('did:jwk:abc')).toBeRejected();
+    await expectAsync(resolver.resolve(`did:jwk:${base64url.encode(JSON.stringify({ x: 'abc' }))}`)).toBeRejected();
+    await expectAsync(resolver.resolve(`did:jwk:${base64url.encode(JSON.stringify({ kty: 'EC', d: 'abc' }))}`)).toBeRejected();
+  });
+});
+
+describe('CompositeResolver', () => {
+  it('should dispatch by DID method', async () => {
+    const fallback = jasmine.createSpyObj<IDidResolver>('fallback', ['resolve']);
+    fallback.resolve.and.returnValue(Promise.resolve(<IDidResolveResult>{}));
+    const resolver = new CompositeResolver({ key: new DidKeyResolver() }, fallback)
+      .useResolver('jwk', new DidJwkResolver());
+    expect(Object.keys(resolver.resolvers)).toEqual(['key', 'jwk']);
+
+    const result = await resolver.resolve('did:key:z6MkiTBz1ymuepAQ4HEHYSF1H8quG5GLVVQR3djdX3mDooWp');
+    expect(result.didDocument).toBeDefined();
+    expect(fallback.resolve).not.toHaveBeenCalled();
+
+    await resolver.resolve('did:ion:abc');
+    expect(fallback.resolve).toHaveBeenCalledWith('did:ion:abc');
+
+    await expectAsync(new CompositeResolver({}).resolve('did:ion:abc')).toBeRejected();
+    expect(CompositeResolver.getMethod('abc')).toBeUndefined();
+  });
+
+  it('should be the default resolver of the validator', () => {
+    const resolver = <CompositeResolver>new ValidatorBuilder(new CryptoBuilder().build()).resolver;
+    expect(resolver instanceof CompositeResolver).toBeTruthy();
+    expect(resolver.resolvers['key'] instanceof DidKeyResolver).toBeTruthy();
+    expect(resolver.resolvers['jwk'] instanceof DidJwkResolver).toBeTruthy();
+    expect(resolver.fallback instanceof ManagedHttpResolver).toBeTruthy();
+  });
+});
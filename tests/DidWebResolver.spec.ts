@@ -0,0 +1,71 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { DidWebResolver, TokenType, ValidatorBuilder, IExpectedBase } from '../lib/index';
+import { DidValidation } from '../lib/input_validation/DidValidation';
+import ValidationOptions from '../lib/options/ValidationOptions';
+import { IssuanceHelpers } from './IssuanceHelpers';
+import TestSetup from './TestSetup';
+
+describe('DidWebResolver', () => {
+  let setup: TestSetup;
+  beforeEach(() => {
+    setup = new TestSetup();
+  });
+
+  afterEach(() => {
+    setup.fetchMock.reset();
+  });
+
+  it('should map the DID to the document url', () => {
+    expect(DidWebResolver.getDocumentUrl('did:web:w3c-ccg.github.io')).toEqual('https://w3c-ccg.github.io/.well-known/did.json');
+    expect(DidWebResolver.getDocumentUrl('did:web:w3c-ccg.github.io:user:alice')).toEqual('https://w3c-ccg.github.io/user/alice/did.json');
+    expect(DidWebResolver.getDocumentUrl('did:web:example.com%3A3000')).toEqual('https://example.com:3000/.well-known/did.json');
+    expect(DidWebResolver.getDocumentUrl('did:web:example.com#key-1')).toEqual('https://example.com/.well-known/did.json');
+
+    // Negative cases
+    expect(() => DidWebResolver.getDocumentUrl('did:key:abc')).toThrowError(`The DID 'did:key:abc' is not a did:web`);
+    expect(() => DidWebResolver.getDocumentUrl('did:web:example.com%2Fpath')).toThrowError(`The DID 'did:web:example.com%2Fpath' does not contain a valid domain`);
+  });
+
+  it('should resolve and validate a token signed by a did:web', async () => {
+    const did = 'did:web:example.com';
+    const [jwkPrivate, jwkPublic] = await IssuanceHelpers.generateSigningKey(setup, `${did}#signing`);
+    setup.fetchMock.get('https://example.com/.well-known/did.json', {
+      '@context': 'https://www.w3.org/ns/did/v1',
+      id: did,
+      verificationMethod: [{
+        id: '#signing',
+        type: 'RsaVerificationKey2018',
+        controller: did,
+        publicKeyJwk: jwkPublic
+      }]
+    }, { overwriteRoutes: true });
+
+    const resolver = new DidWebResolver();
+    const result = await resolver.resolve(did);
+    expect(result.didDocument.getPublicKey(`${did}#signing`)).toBeDefined();
+
+    const token = await IssuanceHelpers.signAToken(setup, { iss: did, jti: 'abc' }, '', jwkPrivate);
+    const builder = new ValidatorBuilder(setup.crypto).useResolver(resolver);
+    const options = new ValidationOptions({ resolver: builder.resolver, crypto: setup.crypto }, TokenType.verifiableCredential);
+    const response = await new DidValidation(options, <IExpectedBase>{ type: TokenType.verifiableCredential }).validate(<string>token.rawToken);
+    expect(response.result).toBeTruthy(response.detailedError);
+    expect(response.did).toEqual(did);
+  });
+
+  it('should not resolve a did:web', async () => {
+    const resolver = new DidWebResolver();
+    setup.fetchMock.get('https://example.com/.well-known/did.json', { status: 404, body: {} }, { overwriteRoutes: true });
+    await expectAsync(resolver.resolve('did:web:example.com')).toBeRejected();
+
+    // Wrong id
+    setup.fetchMock.get('https://example.com/.well-known/did.json', { '@context': 'https://www.w3.org/ns/did/v1', id: 'did:web:other.com' }, { overwriteRoutes: true });
+    await expectAsync(resolver.resolve('did:web:example.com')).toBeRejected();
+
+    // No JSON
+    setup.fetchMock.get('https://example.com/.well-known/did.json', 'abc', { overwriteRoutes: true });
+    await expectAsync(resolver.resolve('did:web:example.com')).toBeRejected();
+  });
+});
@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { InMemoryReplayCache } from '../lib/index';
+
+describe('InMemoryReplayCache', () => {
+  let now = 1600000000;
+  const clock = { now: () => now * 1000 };
+
+  it('should only accept a value once until it expires', async () => {
+    const cache = new InMemoryReplayCache({ clock });
+    expect(await cache.register([{ key: 'jti', expiry: now + 60 }])).toEqual([]);
+    expect(await cache.register([{ key: 'jti', expiry: now + 60 }])).toEqual(['jti']);
+    expect(await cache.register([{ key: 'other', expiry: now + 60 }])).toEqual([]);
+    expect(cache.size).toEqual(2);
+
+    now += 60;
+    expect(await cache.register([{ key: 'jti', expiry: now + 60 }])).toEqual([]);
+    expect(await cache.register([{ key: 'jti', expiry: now + 60 }])).toEqual(['jti']);
+  });
+
+  it('should register none of the values when one of them is used', async () => {
+    const cache = new InMemoryReplayCache({ clock });
+    expect(await cache.register([{ key: 'vp', expiry: now + 60 }])).toEqual([]);
+    expect(await cache.register([{ key: 'siop', expiry: now + 60 }, { key: 'nonce', expiry: now + 60 }, { key: 'vp', expiry: now + 60 }])).toEqual(['vp']);
+    expect(cache.size).toEqual(1);
+    expect(await cache.register([{ key: 'siop', expiry: now + 60 }, { key: 'nonce', expiry: now + 60 }])).toEqual([]);
+  });
+
+  it('should purge expired values when full', async () => {
+    const cache = new InMemoryReplayCache({ clock, maxEntries: 2 });
+    expect(await cache.register([{ key: 'expired', expiry: now + 1 }, { key: 'valid', expiry: now + 60 }])).toEqual([]);
+
+    now += 10;
+    expect(await cache.register([{ key: 'new', expiry: now + 60 }])).toEqual([]);
+    expect(cache.size).toEqual(2);
+    expect(await cache.register([{ key: 'valid', expiry: now + 60 }])).toEqual(['valid']);
+
+    // Full with valid values, no value is evicted before it expires
+    await expectAsync(cache.register([{ key: 'newer', expiry: now + 60 }])).toBeRejected();
+    expect(cache.size).toEqual(2);
+    expect(await cache.register([{ key: 'new', expiry: now + 60 }])).toEqual(['new']);
+    expect(await cache.register([{ key: 'valid', expiry: now + 60 }])).toEqual(['valid']);
+
+    now += 60;
+    expect(await cache.register([{ key: 'newer', expiry: now + 60 }])).toEqual([]);
+
+    // The values are registered all or none
+    await expectAsync(cache.register([{ key: 'first', expiry: now + 60 }, { key: 'second', expiry: now + 60 }])).toBeRejected();
+    expect(cache.size).toEqual(1);
+    expect(await cache.register([{ key: 'first', expiry: now + 60 }])).toEqual([]);
+  });
+});
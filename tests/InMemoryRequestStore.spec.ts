@@ -0,0 +1,32 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { InMemoryRequestStore } from '../lib/index';
+
+describe('InMemoryRequestStore', () => {
+  it('should serve the requests once until they expire', async () => {
+    let now = 1600000000;
+    const store = new InMemoryRequestStore({ clock: { now: () => now * 1000 }, maxEntries: 2 });
+    await store.set('id', 'request', now + 60);
+    expect(store.size).toEqual(1);
+    expect(await store.take('id')).toEqual('request');
+    expect(await store.take('id')).toBeUndefined();
+    expect(store.size).toEqual(0);
+
+    await store.set('expiring', 'request', now + 10);
+    now += 10;
+    expect(await store.take('expiring')).toBeUndefined();
+    expect(store.size).toEqual(0);
+
+    // Full, no request is evicted before it expires
+    await store.set('first', 'request1', now + 60);
+    await store.set('second', 'request2', now + 60);
+    await expectAsync(store.set('third', 'request3', now + 60)).toBeRejected();
+    expect(store.size).toEqual(2);
+    expect(await store.take('third')).toBeUndefined();
+    expect(await store.take('first')).toEqual('request1');
+    await store.set('third', 'request3', now + 60);
+    expect(await store.take('third')).toEqual('request3');
+  });
+});
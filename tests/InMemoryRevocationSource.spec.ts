@@ -0,0 +1,123 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { IExpectedSiop, IExpectedVerifiableCredential, InMemoryRevocationSource, IRevocedCard, TokenType, ValidationErrorCode, ValidatorBuilder } from '../lib/index';
+import { IssuanceHelpers } from './IssuanceHelpers';
+import TestSetup from './TestSetup';
+
+describe('InMemoryRevocationSource', () => {
+  let setup: TestSetup;
+  beforeEach(async () => {
+    setup = new TestSetup();
+  });
+
+  afterEach(() => {
+    setup.fetchMock.reset();
+  });
+
+  const card = (verifiableCredentialId: string, actionTimeInSeconds: number, issuerDid: string = setup.defaultIssuerDid): IRevocedCard => {
+    return { verifiableCredentialId, actionTimeInSeconds, issuerDid, tenantId: 'tenant' };
+  };
+
+  it('should keep the earliest revocation of a card', async () => {
+    const source = new InMemoryRevocationSource([card('jti', 200)]);
+    source.add([card('jti', 100), card('jti', 300), card('jti', 100, 'did:test:other')]);
+    expect(source.size).toEqual(2);
+    expect((await source.getRevokedCard('jti', setup.defaultIssuerDid))!.actionTimeInSeconds).toEqual(100);
+    expect(await source.getRevokedCard('other', setup.defaultIssuerDid)).toBeUndefined();
+  });
+
+  it('should add the cards of a signed revocation snapshot', async () => {
+    const [_request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const builder = new ValidatorBuilder(setup.crypto).useResolver(setup.resolver);
+    const source = new InMemoryRevocationSource();
+
+    let snapshot = await IssuanceHelpers.signAToken(setup, { revokedCards: [card('jti', 100)] }, '', siop.tokenJwkPrivate);
+    let response = await source.addSnapshot(<string>snapshot.rawToken, builder);
+    expect(response.result).toBeTruthy(response.detailedError);
+    expect(await source.getRevokedCard('jti', setup.defaultIssuerDid)).toBeDefined();
+
+    // A snapshot can only revoke cards of its signer
+    snapshot = await IssuanceHelpers.signAToken(setup, { revokedCards: [card('other', 100, 'did:test:other')] }, '', siop.tokenJwkPrivate);
+    response = await source.addSnapshot(<string>snapshot.rawToken, builder);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidRevocationSnapshot);
+    expect(response.claimPath).toEqual('$.revokedCards[0]');
+    expect(source.size).toEqual(1);
+
+    snapshot = await IssuanceHelpers.signAToken(setup, { cards: [] }, '', siop.tokenJwkPrivate);
+    response = await source.addSnapshot(<string>snapshot.rawToken, builder);
+    expect(response.code).toEqual(ValidationErrorCode.invalidRevocationSnapshot);
+
+    response = await source.addSnapshot(<string>snapshot.rawToken + 'a', builder);
+    expect(response.code).toEqual(ValidationErrorCode.invalidSignature);
+
+    // The signature is checked in diagnostic mode
+    response = await source.addSnapshot(<string>snapshot.rawToken + 'a', builder.useDiagnosticMode(true));
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidSignature);
+    expect(source.size).toEqual(1);
+  });
+
+  it('should reject credentials revoked before the presentation', async () => {
+    const [request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const siopExpected = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopPresentationAttestation)[0];
+    const vcExpected = siop.expected.filter((token: IExpectedVerifiableCredential) => token.type === TokenType.verifiableCredential)[0];
+    const source = new InMemoryRevocationSource();
+    const validator = new ValidatorBuilder(setup.crypto)
+      .useAudienceUrl(siopExpected.audience)
+      .useTrustedIssuersForVerifiableCredentials(vcExpected.contractIssuers)
+      .enableFeatureVerifiedCredentialsStatusCheck(true)
+      .useStatusChecker('PortableIdentityCardServiceCredentialStatus2020', { check: async () => ({ result: true, status: 200 }) })
+      .useRevocationSource(source)
+      .build();
+    expect(validator.builder.revocationSource).toEqual(source);
+
+    let result = await validator.validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+
+    // Revocation after the presentation
+    const jti = siop.vc.decodedToken.jti;
+    source.add([card(jti, Math.trunc(Date.now() / 1000) + 3600)]);
+    result = await validator.validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+
+    source.add([card(jti, Math.trunc(Date.now() / 1000) - 3600)]);
+    result = await validator.validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.credentialRevoked);
+    expect(result.tokenType).toEqual(TokenType.verifiableCredential);
+    expect(result.tokenId).toEqual(jti);
+  });
+
+  it('should not trust the presentation time of a backdated presentation', async () => {
+    const [_request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const siopExpected = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopPresentationAttestation)[0];
+    const vcExpected = siop.expected.filter((token: IExpectedVerifiableCredential) => token.type === TokenType.verifiableCredential)[0];
+    const jti = siop.vc.decodedToken.jti;
+    const now = Math.trunc(Date.now() / 1000);
+    const vp = await IssuanceHelpers.signAToken(setup, { ...siop.vp.decodedToken, iat: now - 7200, exp: now + 3600 }, '', siop.didJwkPrivate);
+    const request = await IssuanceHelpers.createSiopRequest(setup, siop.didJwkPrivate, undefined, '', { presentations: { DrivingLicense: vp.rawToken } });
+
+    // The revocation source is checked without the credentialStatus checks
+    const source = new InMemoryRevocationSource([card(jti, now - 3600)]);
+    const builder = new ValidatorBuilder(setup.crypto)
+      .useAudienceUrl(siopExpected.audience)
+      .useTrustedIssuersForVerifiableCredentials(vcExpected.contractIssuers)
+      .enableFeatureVerifiedCredentialsStatusCheck(false)
+      .useRevocationSource(source);
+    let result = await builder.build().validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.credentialRevoked);
+    expect(result.tokenId).toEqual(jti);
+
+    // The iat is trusted within the maximum age of the presentation
+    result = await builder.useMaxTokenAge(3 * 3600, TokenType.verifiablePresentationJwt).build().validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+
+    result = await builder.useMaxTokenAge(3600, TokenType.verifiablePresentationJwt).build().validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.tokenExpired);
+  });
+});
@@ -0,0 +1,97 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { ClaimToken, IExpectedSiop, IExpectedVerifiableCredential, InMemoryStatusCache, IVerifiablePresentationStatus, TokenType, ValidationErrorCode, ValidatorBuilder } from '../lib/index';
+import { IssuanceHelpers } from './IssuanceHelpers';
+import TestSetup from './TestSetup';
+
+describe('InMemoryStatusCache', () => {
+  let setup: TestSetup;
+  beforeEach(async () => {
+    setup = new TestSetup();
+  });
+
+  afterEach(() => {
+    setup.fetchMock.reset();
+  });
+
+  const status = (id: string, passed: boolean = true): IVerifiablePresentationStatus => {
+    return { id, status: passed ? 'valid' : 'revoked', reason: '', passed, token: <ClaimToken>{} };
+  };
+
+  it('should keep the statuses per issuer until they expire', async () => {
+    let now = 1600000000;
+    const cache = new InMemoryStatusCache({ clock: { now: () => now * 1000 }, maxEntries: 2 });
+    await cache.set('jti', 'did:test:issuer', status('jti'), now + 60);
+    expect((await cache.get('jti', 'did:test:issuer'))!.passed).toBeTruthy();
+    expect(await cache.get('jti', 'did:test:other')).toBeUndefined();
+
+    await cache.set('expiring', 'did:test:issuer', status('expiring'), now + 10);
+    now += 10;
+    expect(await cache.get('expiring', 'did:test:issuer')).toBeUndefined();
+    expect(cache.size).toEqual(1);
+
+    // Full with valid statuses, the new status is not cached
+    await cache.set('other', 'did:test:issuer', status('other'), now + 60);
+    await cache.set('newer', 'did:test:issuer', status('newer'), now + 60);
+    expect(cache.size).toEqual(2);
+    expect((await cache.get('jti', 'did:test:issuer'))!.passed).toBeTruthy();
+    expect(await cache.get('newer', 'did:test:issuer')).toBeUndefined();
+
+    // A cached status is replaced while full
+    await cache.set('jti', 'did:test:issuer', status('jti', false), now + 60);
+    expect((await cache.get('jti', 'did:test:issuer'))!.passed).toBeFalsy();
+  });
+
+  it('should use the cached receipts of the status checks', async () => {
+    const [request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const siopExpected = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopPresentationAttestation)[0];
+    const vcExpected = siop.expected.filter((token: IExpectedVerifiableCredential) => token.type === TokenType.verifiableCredential)[0];
+    const jti = siop.vc.decodedToken.jti;
+    const statusUrl = siop.vc.decodedToken.vc.credentialStatus.id;
+    let now = Date.now();
+    const clock = { now: () => now };
+
+    const mockReceipt = async (credentialStatus: string, exp: number) => {
+      const receipt = await IssuanceHelpers.signAToken(setup, { iss: setup.defaultIssuerDid, aud: setup.crypto.builder.did, exp, credentialStatus: { id: jti, status: credentialStatus, reason: '' } }, '', siop.tokenJwkPrivate);
+      setup.fetchMock.post(statusUrl, { receipt: { [jti]: receipt.rawToken } }, { overwriteRoutes: true });
+    };
+
+    const cache = new InMemoryStatusCache({ clock });
+    const builder = new ValidatorBuilder(setup.crypto)
+      .useAudienceUrl(siopExpected.audience)
+      .useTrustedIssuersForVerifiableCredentials(vcExpected.contractIssuers)
+      .useClock(clock)
+      .useStatusCache(cache)
+      .useStatusCheckOptions({ maxStalenessInSeconds: 300 });
+    expect(builder.statusCache).toEqual(cache);
+
+    await mockReceipt('valid', Math.trunc(now / 1000) + 3600);
+    let result = await builder.build().validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+    expect(result.validationResult!.verifiablePresentationStatus![jti].passed).toBeTruthy();
+    expect(setup.fetchMock.calls(statusUrl).length).toEqual(1);
+
+    // The status is used from the cache until the maximum staleness
+    await mockReceipt('revoked', Math.trunc(now / 1000) + 3600);
+    now += 200 * 1000;
+    result = await builder.build().validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+    expect(result.validationResult!.verifiablePresentationStatus![jti].passed).toBeTruthy();
+    expect(setup.fetchMock.calls(statusUrl).length).toEqual(1);
+
+    now += 200 * 1000;
+    result = await builder.build().validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.credentialRevoked);
+    expect(setup.fetchMock.calls(statusUrl).length).toEqual(2);
+
+    // A cached revocation is rejected without status request
+    result = await builder.build().validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.credentialRevoked);
+    expect(result.tokenId).toEqual(jti);
+    expect(setup.fetchMock.calls(statusUrl).length).toEqual(2);
+  });
+});
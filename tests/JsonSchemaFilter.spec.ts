@@ -0,0 +1,57 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { JsonSchemaFilter } from '../lib/index';
+
+describe('JsonSchemaFilter', () => {
+  it('should check the type, const and enum', () => {
+    expect(JsonSchemaFilter.matches(undefined, 'Jules')).toBeTruthy();
+    expect(JsonSchemaFilter.matches(true, 'Jules')).toBeTruthy();
+    expect(JsonSchemaFilter.matches(false, 'Jules')).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ type: ['string', 'null'] }, null)).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ type: 'integer' }, 4.2)).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ type: 'object' }, [])).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ const: { country: 'BE' } }, { country: 'BE' })).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ enum: ['BE', 'NL'] }, 'FR')).toBeFalsy();
+  });
+
+  it('should check the string and number keywords', () => {
+    expect(JsonSchemaFilter.matches({ minLength: 2, maxLength: 5 }, 'Jules')).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ maxLength: 4 }, 'Jules')).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ format: 'date-time' }, '2020-06-01T10:00:00Z')).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ format: 'date' }, '01/06/2020')).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ format: 'date', formatMaximum: '2020-01-01' }, '2020-06-01')).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ minimum: 18, exclusiveMinimum: true }, 18)).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ exclusiveMinimum: 17 }, 18)).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ multipleOf: 5 }, 42)).toBeFalsy();
+  });
+
+  it('should check the array and object keywords', () => {
+    expect(JsonSchemaFilter.matches({ minItems: 1, items: { type: 'string' } }, ['VerifiableCredential', 'Diploma'])).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ maxItems: 1 }, ['VerifiableCredential', 'Diploma'])).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ contains: { const: 'Passport' } }, ['VerifiableCredential', 'Diploma'])).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ required: ['country'], properties: { country: { enum: ['BE'] } } }, { country: 'BE', city: 'Brussels' })).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ required: ['zip'] }, { country: 'BE' })).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ properties: { country: { enum: ['NL'] } } }, { country: 'BE' })).toBeFalsy();
+  });
+
+  it('should combine schemas', () => {
+    expect(JsonSchemaFilter.matches({ allOf: [{ type: 'string' }, { pattern: '^J' }] }, 'Jules')).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ anyOf: [{ const: 'Vincent' }, { const: 'Mia' }] }, 'Jules')).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ oneOf: [{ type: 'string' }, { pattern: '^J' }] }, 'Jules')).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ not: { const: 'Vincent' } }, 'Jules')).toBeTruthy();
+  });
+
+  it('should reject the keywords which are not supported', () => {
+    expect(JsonSchemaFilter.matches({ $schema: 'http://json-schema.org/draft-07/schema#', title: 'Name', description: 'The given name', type: 'string' }, 'Jules')).toBeTruthy();
+    expect(() => JsonSchemaFilter.matches({ $ref: '#/definitions/name' }, 'Jules')).toThrowError(`The JSON Schema keyword '$ref' is not supported`);
+    expect(() => JsonSchemaFilter.matches({ if: { const: 'Jules' }, then: { minLength: 10 } }, 'Jules')).toThrowError(`The JSON Schema keyword 'if' is not supported`);
+    expect(() => JsonSchemaFilter.matches({ dependencies: { zip: ['country'] } }, { zip: '1000' })).toThrowError(`The JSON Schema keyword 'dependencies' is not supported`);
+    expect(() => JsonSchemaFilter.matches({ propertyNames: { pattern: '^[a-z]+$' } }, { Zip: '1000' })).toThrowError(`The JSON Schema keyword 'propertyNames' is not supported`);
+    expect(() => JsonSchemaFilter.matches({ items: [{ type: 'string' }] }, ['Jules'])).toThrowError(`The JSON Schema keyword 'items' is only supported with a single schema`);
+
+    // Nested schemas are checked as well
+    expect(() => JsonSchemaFilter.matches({ not: { $ref: '#/definitions/name' } }, 'Jules')).toThrowError(`The JSON Schema keyword '$ref' is not supported`);
+  });
+});
@@ -4,6 +4,8 @@
  *--------------------------------------------------------------------------------------------*/
 import LinkedDataCryptoSuitePublicKey from '../lib/input_validation/LinkedDataCryptoSuitePublicKey';
 import base64url from 'base64url';
+import { ECDH, generateKeyPairSync } from 'crypto';
+const bs58 = require('bs58');
 
 describe('LinkedDataCryptoSuitePublicKey', () => {
   it('should return a Ed25519VerificationKey2018 public key', () => {
@@ -259,4 +261,74 @@ describe('LinkedDataCryptoSuitePublicKey', () => {
     expect(() => LinkedDataCryptoSuitePublicKey.getPublicKey(<any>testSpy)).toThrowError(`{"type":"RsaVerificationKey2018","publicKeyJwk":{}} public key type is not supported.`);
   });
 
-});
\ No newline at end of file
+  const multibase = (prefix: number[], key: Buffer) => `z${bs58.encode(Buffer.concat([Buffer.from(prefix), key]))}`;
+  const generateEcKey = (namedCurve: string): [any, Buffer] => {
+    const { publicKey } = generateKeyPairSync('ec', { namedCurve });
+    const jwk = (<any>publicKey).export({ format: 'jwk' });
+    const uncompressed = Buffer.concat([Buffer.from([0x04]), base64url.toBuffer(jwk.x), base64url.toBuffer(jwk.y)]);
+    return [jwk, <Buffer>ECDH.convertKey(uncompressed, namedCurve, undefined, undefined, 'compressed')];
+  };
+
+  it('should return a Ed25519VerificationKey2020 public key', () => {
+    const key = bs58.decode('H3C2AVvLMv6gmMNam3uVAjZpfkcJCwDwnZn6z3wXmqPV');
+    let jwk = LinkedDataCryptoSuitePublicKey.getPublicKey({
+      id: 'did:example:123#key-1',
+      type: 'Ed25519VerificationKey2020',
+      controller: 'did:example:123',
+      publicKeyMultibase: multibase([0xed, 0x01], key)
+    });
+    expect(jwk.kty).toEqual('OKP');
+    expect(jwk.crv).toEqual('Ed25519');
+    expect(jwk.x).toEqual('7kqc5NnojHJHZ11Ec5cGCLMIKgJVDBKhrAbu9YrfVFg');
+
+    // Early keys without multicodec header
+    jwk = LinkedDataCryptoSuitePublicKey.getPublicKey({ type: 'Ed25519VerificationKey2020', publicKeyMultibase: multibase([], key) });
+    expect(jwk.crv).toEqual('Ed25519');
+    expect(jwk.x).toEqual('7kqc5NnojHJHZ11Ec5cGCLMIKgJVDBKhrAbu9YrfVFg');
+
+    // Negative cases
+    const [_jwk, compressed] = generateEcKey('prime256v1');
+    let didDocumentPublicKey: any = { type: 'Ed25519VerificationKey2020', publicKeyMultibase: multibase([0x80, 0x24], compressed) };
+    expect(() => LinkedDataCryptoSuitePublicKey.getPublicKey(didDocumentPublicKey)).toThrowError(`${JSON.stringify(didDocumentPublicKey)} public key does not match the curve of the suite Ed25519VerificationKey2020.`);
+    didDocumentPublicKey = { type: 'Ed25519VerificationKey2020', publicKeyMultibase: 'uAAAA' };
+    expect(() => LinkedDataCryptoSuitePublicKey.getPublicKey(didDocumentPublicKey)).toThrowError(`${JSON.stringify(didDocumentPublicKey)} public key is not base58btc multibase encoded.`);
+  });
+
+  it('should return a Multikey public key', () => {
+    const key = bs58.decode('H3C2AVvLMv6gmMNam3uVAjZpfkcJCwDwnZn6z3wXmqPV');
+    let jwk = LinkedDataCryptoSuitePublicKey.getPublicKey({ type: 'Multikey', publicKeyMultibase: multibase([0xed, 0x01], key) });
+    expect(jwk).toEqual({ kty: 'OKP', crv: 'Ed25519', x: '7kqc5NnojHJHZ11Ec5cGCLMIKgJVDBKhrAbu9YrfVFg' });
+
+    const [p256, compressed] = generateEcKey('prime256v1');
+    jwk = LinkedDataCryptoSuitePublicKey.getPublicKey({ type: 'Multikey', publicKeyMultibase: multibase([0x80, 0x24], compressed) });
+    expect(jwk).toEqual({ kty: 'EC', crv: 'P-256', x: p256.x, y: p256.y });
+
+    const [p384, compressed384] = generateEcKey('secp384r1');
+    jwk = LinkedDataCryptoSuitePublicKey.getPublicKey({ type: 'Multikey', publicKeyMultibase: multibase([0x81, 0x24], compressed384) });
+    expect(jwk).toEqual({ kty: 'EC', crv: 'P-384', x: p384.x, y: p384.y });
+
+    // Negative cases
+    let didDocumentPublicKey: any = { type: 'Multikey', publicKeyMultibase: multibase([], key) };
+    expect(() => LinkedDataCryptoSuitePublicKey.getPublicKey(didDocumentPublicKey)).toThrowError(`${JSON.stringify(didDocumentPublicKey)} public key type is not supported.`);
+    didDocumentPublicKey = { type: 'Multikey', publicKeyBase58: 'H3C2AVvLMv6gmMNam3uVAjZpfkcJCwDwnZn6z3wXmqPV' };
+    expect(() => LinkedDataCryptoSuitePublicKey.getPublicKey(didDocumentPublicKey)).toThrowError(`${JSON.stringify(didDocumentPublicKey)} public key type is not supported.`);
+  });
+
+  it('should return P-256 and P-384 public keys', () => {
+    const [p256, compressed] = generateEcKey('prime256v1');
+    let jwk = LinkedDataCryptoSuitePublicKey.getPublicKey({ type: 'EcdsaSecp256r1VerificationKey2019', publicKeyJwk: p256 });
+    expect(jwk).toEqual(p256);
+    jwk = LinkedDataCryptoSuitePublicKey.getPublicKey({ type: 'EcdsaSecp256r1VerificationKey2019', publicKeyMultibase: multibase([0x80, 0x24], compressed) });
+    expect(jwk).toEqual({ kty: 'EC', crv: 'P-256', x: p256.x, y: p256.y });
+
+    const [p384] = generateEcKey('secp384r1');
+    jwk = LinkedDataCryptoSuitePublicKey.getPublicKey({ type: 'EcdsaSecp384r1VerificationKey2019', publicKeyJwk: p384 });
+    expect(jwk.crv).toEqual('P-384');
+    jwk = LinkedDataCryptoSuitePublicKey.getPublicKey({ type: 'JsonWebKey2020', publicKeyJwk: p384 });
+    expect(jwk).toEqual(p384);
+
+    // Negative cases
+    const didDocumentPublicKey: any = { type: 'EcdsaSecp256r1VerificationKey2019', publicKeyJwk: p384 };
+    expect(() => LinkedDataCryptoSuitePublicKey.getPublicKey(didDocumentPublicKey)).toThrowError(`${JSON.stringify(didDocumentPublicKey)} public key does not match the curve of the suite EcdsaSecp256r1VerificationKey2019.`);
+  });
+});
@@ -0,0 +1,263 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { BundledDocumentLoader, ClaimToken, DidDocument, IDidResolver, IDidResolveResult, IExpectedVerifiableCredential, LinkedDataProofVerifier, TokenType, ValidationErrorCode, ValidatorBuilder } from '../lib/index';
+import { VerifiableCredentialValidationJsonLd } from '../lib/input_validation/VerifiableCredentialValidationJsonLd';
+import ValidationOptions from '../lib/options/ValidationOptions';
+import ValidationQueue from '../lib/input_validation/ValidationQueue';
+import TestSetup from './TestSetup';
+import base64url from 'base64url';
+import { generateKeyPairSync, sign } from 'crypto';
+const bs58 = require('bs58');
+
+/**
+ * Resolver for the tests, returns the same DID document for all DIDs
+ */
+class TestResolver implements IDidResolver {
+  constructor(private _document: any) {
+  }
+
+  public async resolve(_did: string): Promise<IDidResolveResult> {
+    return <IDidResolveResult>{ didDocument: new DidDocument(this._document) };
+  }
+}
+
+describe('LinkedDataProofVerifier', () => {
+  const issuer = 'did:test:issuer';
+  const subject = 'did:test:subject';
+  const created = '2020-06-01T10:00:00Z';
+  let setup: TestSetup;
+  beforeEach(async () => {
+    setup = new TestSetup();
+  });
+
+  afterEach(() => {
+    setup.fetchMock.reset();
+  });
+
+  const createCredential = (suiteContext?: string): any => {
+    const context = ['https://www.w3.org/2018/credentials/v1'];
+    if (suiteContext) {
+      context.push(suiteContext);
+    }
+
+    return {
+      '@context': context,
+      id: 'urn:uuid:ab2b6a9f-8c5a-4a5e-a3d0-5fd87a0b1d8b',
+      type: ['VerifiableCredential', 'UniversityDegreeCredential'],
+      issuer,
+      issuanceDate: '2020-06-01T10:00:00Z',
+      credentialSubject: {
+        id: subject
+      }
+    };
+  };
+
+  const createVerifyData = (document: any): Promise<Buffer> => {
+    return new LinkedDataProofVerifier(setup.crypto, new BundledDocumentLoader()).createVerifyData(document);
+  };
+
+  // Sign with a detached jws with unencoded payload
+  const signJws = async (credential: any, proof: any, alg: string, privateKey: any): Promise<any> => {
+    const document = { ...credential, proof };
+    const header = base64url.encode(JSON.stringify({ alg, b64: false, crit: ['b64'] }));
+    const signingInput = Buffer.concat([Buffer.from(`${header}.`, 'utf8'), await createVerifyData(document)]);
+    const signature = alg === 'EdDSA' ?
+      sign(<any>null, signingInput, privateKey) :
+      sign('sha256', signingInput, <any>{ key: privateKey, dsaEncoding: 'ieee-p1363' });
+    return { ...document, proof: { ...proof, jws: `${header}..${base64url.encode(signature)}` } };
+  };
+
+  const createOptions = (publicKey: any, builder?: ValidatorBuilder): ValidationOptions => {
+    const didDocument = {
+      '@context': 'https://www.w3.org/ns/did/v1',
+      id: issuer,
+      publicKey: [{ id: `${issuer}#key-1`, controller: issuer, ...publicKey }]
+    };
+
+    builder = (builder || new ValidatorBuilder(setup.crypto)).useResolver(new TestResolver(didDocument));
+    return new ValidationOptions(builder.validatorOptions, TokenType.verifiableCredential);
+  };
+
+  const ed25519Key = (): [any, any] => {
+    const { publicKey, privateKey } = (<any>generateKeyPairSync)('ed25519');
+    const jwk = (<any>publicKey).export({ format: 'jwk' });
+    return [privateKey, { type: 'Ed25519VerificationKey2018', publicKeyBase58: bs58.encode(base64url.toBuffer(jwk.x)) }];
+  };
+
+  const validate = (credential: any, options: ValidationOptions, expected?: any) => {
+    const validation = new VerifiableCredentialValidationJsonLd(options, <IExpectedVerifiableCredential>{ type: TokenType.verifiableCredential, ...expected });
+    return validation.validate(credential, subject);
+  };
+
+  it('should verify an Ed25519Signature2018 proof offline', async () => {
+    const [privateKey, publicKey] = ed25519Key();
+    const credential = await signJws(createCredential(), {
+      type: 'Ed25519Signature2018',
+      created,
+      verificationMethod: `${issuer}#key-1`,
+      proofPurpose: 'assertionMethod'
+    }, 'EdDSA', privateKey);
+
+    const options = createOptions(publicKey);
+    let response = await validate(credential, options);
+    expect(response.result).toBeTruthy(response.detailedError);
+    expect(response.did).toEqual(issuer);
+
+    // Changes in the credential are detected after canonicalization
+    response = await validate({ ...credential, issuanceDate: '2020-06-02T10:00:00Z' }, options);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidSignature);
+
+    // Properties without definition in the context would be dropped by the canonicalization
+    response = await validate({ ...credential, credentialSubject: { id: subject, degree: 'BSc' } }, options);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidSignature);
+
+    // Equivalent JSON-LD serializations have the same canonical form
+    const { issuanceDate, ...reordered } = credential;
+    response = await validate({ issuanceDate, ...reordered }, options);
+    expect(response.result).toBeTruthy(response.detailedError);
+  });
+
+  it('should verify an Ed25519Signature2020 proof', async () => {
+    const [privateKey, publicKey] = ed25519Key();
+    const document = {
+      ...createCredential('https://w3id.org/security/suites/ed25519-2020/v1'),
+      proof: {
+        type: 'Ed25519Signature2020',
+        created,
+        verificationMethod: `${issuer}#key-1`,
+        proofPurpose: 'assertionMethod'
+      }
+    };
+    const signature = sign(<any>null, await createVerifyData(document), privateKey);
+    const credential = { ...document, proof: { ...document.proof, proofValue: `z${bs58.encode(signature)}` } };
+
+    const options = createOptions(publicKey);
+    let response = await validate(credential, options);
+    expect(response.result).toBeTruthy(response.detailedError);
+
+    // Proof options are signed as well
+    response = await validate({ ...credential, proof: { ...credential.proof, created: '2020-06-02T10:00:00Z' } }, options);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidSignature);
+  });
+
+  it('should verify a JsonWebSignature2020 proof', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const jwk = (<any>publicKey).export({ format: 'jwk' });
+    const credential = await signJws(createCredential('https://w3id.org/security/suites/jws-2020/v1'), {
+      type: 'JsonWebSignature2020',
+      created,
+      verificationMethod: `${issuer}#key-1`,
+      proofPurpose: 'assertionMethod'
+    }, 'ES256', privateKey);
+
+    const response = await validate(credential, createOptions({ type: 'JsonWebKey2020', publicKeyJwk: jwk }));
+    expect(response.result).toBeTruthy(response.detailedError);
+  });
+
+  it('should check the proof options', async () => {
+    const [privateKey, publicKey] = ed25519Key();
+    const proof = {
+      type: 'Ed25519Signature2018',
+      created,
+      verificationMethod: `${issuer}#key-1`,
+      proofPurpose: 'authentication',
+      domain: 'https://verifier.example.com',
+      challenge: '99612b24-63d9-11ea-b99f-4f66f3e4f81a'
+    };
+    const options = createOptions(publicKey);
+
+    let credential = await signJws(createCredential(), proof, 'EdDSA', privateKey);
+    let response = await validate(credential, options);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidProof);
+    expect(response.claimPath).toEqual('$.proof.proofPurpose');
+
+    response = await validate(credential, options, { proofPurpose: 'authentication', domain: proof.domain, challenge: proof.challenge });
+    expect(response.result).toBeTruthy(response.detailedError);
+
+    response = await validate(credential, options, { proofPurpose: 'authentication', domain: 'https://other.example.com' });
+    expect(response.result).toBeFalsy();
+    expect(response.claimPath).toEqual('$.proof.domain');
+
+    response = await validate(credential, options, { proofPurpose: 'authentication', challenge: 'other' });
+    expect(response.result).toBeFalsy();
+    expect(response.claimPath).toEqual('$.proof.challenge');
+
+    // Signed by a key of another DID than the issuer
+    credential = await signJws({ ...createCredential(), issuer: 'did:test:other' }, proof, 'EdDSA', privateKey);
+    response = await validate(credential, options, { proofPurpose: 'authentication' });
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidIssuer);
+    expect(response.claimPath).toEqual('$.issuer');
+    expect(response.detailedError).toEqual(`The proof is signed by '${issuer}' instead of the issuer 'did:test:other'`);
+
+    credential = await signJws({ ...createCredential(), issuer: { id: 'did:test:other' } }, proof, 'EdDSA', privateKey);
+    response = await validate(credential, options, { proofPurpose: 'authentication' });
+    expect(response.code).toEqual(ValidationErrorCode.invalidIssuer);
+
+    // Created in the future
+    const future = new Date(Date.now() + 3600 * 1000).toISOString();
+    credential = await signJws(createCredential(), { ...proof, proofPurpose: 'assertionMethod', created: future }, 'EdDSA', privateKey);
+    response = await validate(credential, options);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.tokenNotYetValid);
+    expect(response.claimPath).toEqual('$.proof.created');
+  });
+
+  it('should check the proof options of the validator builder', async () => {
+    const [privateKey, publicKey] = ed25519Key();
+    const credential = await signJws(createCredential(), {
+      type: 'Ed25519Signature2018',
+      created,
+      verificationMethod: `${issuer}#key-1`,
+      proofPurpose: 'authentication',
+      domain: 'https://verifier.example.com',
+      challenge: '99612b24-63d9-11ea-b99f-4f66f3e4f81a'
+    }, 'EdDSA', privateKey);
+
+    const builder = new ValidatorBuilder(setup.crypto)
+      .useTrustedIssuersForVerifiableCredentials({ UniversityDegreeCredential: [issuer] });
+    createOptions(publicKey, builder);
+    const validate = () => {
+      const queue = new ValidationQueue();
+      queue.enqueueToken('vc', ClaimToken.create(credential));
+      return builder.tokenValidators[TokenType.verifiableCredential].validate(queue, queue.getNextToken()!, subject);
+    };
+
+    builder.useLinkedDataProof({ proofPurpose: 'authentication', domain: 'https://verifier.example.com', challenge: '99612b24-63d9-11ea-b99f-4f66f3e4f81a' });
+    expect(builder.linkedDataProof.domain).toEqual('https://verifier.example.com');
+    let response = await validate();
+    expect(response.result).toBeTruthy(response.detailedError);
+
+    builder.useLinkedDataProof({ proofPurpose: 'authentication', challenge: 'other' });
+    response = await validate();
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidProof);
+    expect(response.claimPath).toEqual('$.proof.challenge');
+  });
+
+  it('should only load the contexts from the document loader', async () => {
+    const [privateKey, publicKey] = ed25519Key();
+    const schema = 'https://schema.example.com/degree/v1';
+    const loader = new BundledDocumentLoader().addContext(schema, { '@context': { degree: 'https://schema.example.com/degree#degree' } });
+    const document = { ...createCredential(), proof: { type: 'Ed25519Signature2018', created, verificationMethod: `${issuer}#key-1`, proofPurpose: 'assertionMethod' } };
+    document['@context'].push(schema);
+    const header = base64url.encode(JSON.stringify({ alg: 'EdDSA', b64: false, crit: ['b64'] }));
+    const verifyData = await new LinkedDataProofVerifier(setup.crypto, loader).createVerifyData(document);
+    const signature = sign(<any>null, Buffer.concat([Buffer.from(`${header}.`, 'utf8'), verifyData]), privateKey);
+    const credential = { ...document, proof: { ...document.proof, jws: `${header}..${base64url.encode(signature)}` } };
+
+    // The context of the credential type is not bundled
+    let response = await validate(credential, createOptions(publicKey));
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidSignature);
+
+    response = await validate(credential, createOptions(publicKey, new ValidatorBuilder(setup.crypto).useDocumentLoader(loader)));
+    expect(response.result).toBeTruthy(response.detailedError);
+  });
+});
@@ -0,0 +1,191 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { DidDocument, DidNotFoundError, IDidResolver, IDidResolveResult, IExpectedBase, KeyUse, LongFormDid, LongFormIonResolver, ManagedHttpResolver, TokenType } from '../lib/index';
+import { DidValidation } from '../lib/input_validation/DidValidation';
+import ValidationOptions from '../lib/options/ValidationOptions';
+import { IssuanceHelpers } from './IssuanceHelpers';
+import TestSetup from './TestSetup';
+import base64url from 'base64url';
+import { createHash } from 'crypto';
+
+/**
+ * Resolver for the tests, counts the lookups
+ */
+class TestResolver implements IDidResolver {
+  public calls = 0;
+
+  constructor(private _document?: any) {
+  }
+
+  public async resolve(did: string): Promise<IDidResolveResult> {
+    this.calls++;
+    if (!this._document) {
+      return Promise.reject(new DidNotFoundError(did, `${did} not found`));
+    }
+
+    return <IDidResolveResult>{ didDocument: new DidDocument(this._document) };
+  }
+}
+
+describe('LongFormIonResolver', () => {
+  let setup: TestSetup;
+  beforeEach(async () => {
+    setup = new TestSetup();
+  });
+
+  afterEach(() => {
+    setup.fetchMock.reset();
+  });
+
+  const hash = (data: string) => base64url.encode(Buffer.concat([Buffer.from([0x12, 0x20]), createHash('sha256').update(data).digest()]));
+
+  // Members are listed in canonical order so JSON.stringify gives the canonical form
+  const createLongFormDid = (jwkPublic: any): [string, string] => {
+    const delta = {
+      patches: [{
+        action: 'replace',
+        document: {
+          publicKeys: [{
+            id: 'signing',
+            publicKeyJwk: { e: jwkPublic.e, kty: jwkPublic.kty, n: jwkPublic.n },
+            purposes: ['authentication', 'assertionMethod'],
+            type: 'JsonWebKey2020'
+          }],
+          services: []
+        }
+      }],
+      updateCommitment: 'EiDKIkwqO69IPG3pOlHkdb86nYt0aNxSHZu2r-bhEznjdA'
+    };
+    const suffixData = {
+      deltaHash: hash(JSON.stringify(delta)),
+      recoveryCommitment: 'EiBfOZdMtU6OBw8Pk879QtZ-2J-9FbbjSZyoaA_bqD4zhA'
+    };
+    const suffix = hash(JSON.stringify(suffixData));
+    return [`did:ion:${suffix}`, `did:ion:${suffix}:${base64url.encode(JSON.stringify({ suffixData, delta }))}`];
+  };
+
+  it('should recognize long-form ION DIDs', () => {
+    expect(LongFormIonResolver.isLongForm('did:ion:EiAbc:eyJhIjoiYiJ9')).toBeTruthy();
+    expect(LongFormIonResolver.isLongForm('did:ion:test:EiAbc:eyJhIjoiYiJ9')).toBeTruthy();
+    expect(LongFormIonResolver.isLongForm('did:ion:EiAbc?-ion-initial-state=abc.def')).toBeTruthy();
+    expect(LongFormIonResolver.isLongForm('did:ion:EiAbc')).toBeFalsy();
+    expect(LongFormIonResolver.isLongForm('did:ion:test:EiAbc')).toBeFalsy();
+    expect(LongFormIonResolver.isLongForm('did:web:example.com:user')).toBeFalsy();
+  });
+
+  it('should validate a token signed by an unpublished long-form DID without resolver round trip', async () => {
+    const [jwkPrivate, jwkPublic] = await IssuanceHelpers.generateSigningKey(setup, 'signing');
+    const [_shortFormDid, did] = createLongFormDid(jwkPublic);
+    jwkPrivate.kid = `${did}#signing`;
+
+    const resolver = new TestResolver();
+    const result = await new LongFormIonResolver(resolver).resolve(did);
+    expect(result.didDocument.id).toEqual(did);
+    expect(result.didDocument.getPublicKey(`${did}#signing`)).toBeDefined();
+    expect((<any>result.didDocument.rawDocument).authentication).toEqual(['#signing']);
+
+    const token = await IssuanceHelpers.signAToken(setup, { iss: did, jti: 'abc' }, '', jwkPrivate);
+    const options = new ValidationOptions({ resolver, crypto: setup.crypto }, TokenType.verifiableCredential);
+    const response = await new DidValidation(options, <IExpectedBase>{ type: TokenType.verifiableCredential }).validate(<string>token.rawToken);
+    expect(response.result).toBeTruthy(response.detailedError);
+    expect(response.did).toEqual(did);
+    expect(resolver.calls).toEqual(0);
+  });
+
+  it('should check the network for updates when configured', async () => {
+    const [_jwkPrivate, jwkPublic] = await IssuanceHelpers.generateSigningKey(setup, 'signing');
+    const [shortFormDid, did] = createLongFormDid(jwkPublic);
+    const resolver = new TestResolver({
+      '@context': 'https://www.w3.org/ns/did/v1',
+      id: shortFormDid,
+      publicKey: [{ id: `${shortFormDid}#rotated`, type: 'JsonWebKey2020', controller: shortFormDid, publicKeyJwk: jwkPublic }]
+    });
+
+    // Update check disabled
+    let result = await new LongFormIonResolver(resolver).resolve(did);
+    expect(result.didDocument.getPublicKey(`${did}#signing`)).toBeDefined();
+    expect(resolver.calls).toEqual(0);
+
+    // The published document has the rotated key
+    result = await new LongFormIonResolver(resolver, true).resolve(did);
+    expect(resolver.calls).toEqual(1);
+    expect(result.didDocument.getPublicKey(`${did}#signing`)).toBeUndefined();
+    expect(result.didDocument.getPublicKey(`${did}#rotated`)).toBeDefined();
+
+    // Not published, use the initial state
+    result = await new LongFormIonResolver(new TestResolver(), true).resolve(did);
+    expect(result.didDocument.getPublicKey(`${did}#signing`)).toBeDefined();
+  });
+
+  it('should only use the initial state when the DID is not published', async () => {
+    const [_jwkPrivate, jwkPublic] = await IssuanceHelpers.generateSigningKey(setup, 'signing');
+    const [_shortFormDid, did] = createLongFormDid(jwkPublic);
+    const resolverUrl = 'https://resolver.example.com/1.0/identifiers/';
+    const resolver = new LongFormIonResolver(new ManagedHttpResolver(resolverUrl), true);
+
+    setup.fetchMock.get(`${resolverUrl}${did}`, 404, { overwriteRoutes: true });
+    const result = await resolver.resolve(did);
+    expect(result.didDocument.getPublicKey(`${did}#signing`)).toBeDefined();
+
+    // Deactivated DID
+    setup.fetchMock.get(`${resolverUrl}${did}`, 410, { overwriteRoutes: true });
+    await expectAsync(resolver.resolve(did)).toBeRejected();
+
+    // Network errors
+    setup.fetchMock.get(`${resolverUrl}${did}`, 500, { overwriteRoutes: true });
+    await expectAsync(resolver.resolve(did)).toBeRejected();
+    setup.fetchMock.get(`${resolverUrl}${did}`, { throws: new Error('timeout') }, { overwriteRoutes: true });
+    await expectAsync(resolver.resolve(did)).toBeRejected();
+  });
+
+  it('should resolve the older long-form format', async () => {
+    let crypto = setup.crypto;
+    crypto = await crypto.generateKey(KeyUse.Signature);
+    crypto = await crypto.generateKey(KeyUse.Signature, 'recovery');
+    const did = await new LongFormDid(crypto).serialize();
+    expect(did).toContain(LongFormIonResolver.INITIAL_STATE_PARAMETER);
+
+    const result = await new LongFormIonResolver().resolve(did);
+    expect(result.didDocument.id).toEqual(did);
+    expect(result.didDocument.publicKey.length).toEqual(1);
+    expect(result.didDocument.publicKey[0].id.startsWith(`${did}#`)).toBeTruthy();
+  });
+
+  it('should take the key type from the JWK of the initial state', async () => {
+    let crypto = setup.crypto;
+    crypto.builder.useSigningAlgorithm('EdDSA');
+    crypto.builder.useRecoveryAlgorithm('EdDSA');
+    crypto = await crypto.generateKey(KeyUse.Signature);
+    crypto = await crypto.generateKey(KeyUse.Signature, 'recovery');
+
+    // LongFormDid declares the Ed25519 key as secp256k1
+    const did = await new LongFormDid(crypto).serialize();
+    const publicKey: any = (await new LongFormIonResolver().resolve(did)).didDocument.publicKey[0];
+    expect(publicKey.type).toEqual('JsonWebKey2020');
+    expect(publicKey.publicKeyJwk.kty).toEqual('OKP');
+    expect(publicKey.publicKeyJwk.crv).toEqual('Ed25519');
+  });
+
+  it('should reject tampered long-form DIDs', async () => {
+    const [_jwkPrivate, jwkPublic] = await IssuanceHelpers.generateSigningKey(setup, 'signing');
+    const [_shortFormDid, did] = createLongFormDid(jwkPublic);
+    const [suffix, initialState] = did.substring('did:ion:'.length).split(':');
+    const resolver = new LongFormIonResolver();
+
+    // Other suffix
+    await expectAsync(resolver.resolve(`did:ion:EiA${suffix.substring(3)}x:${initialState}`)).toBeRejected();
+
+    // Other keys
+    const state = JSON.parse(base64url.decode(initialState));
+    state.delta.patches[0].document.publicKeys[0].id = 'other';
+    await expectAsync(resolver.resolve(`did:ion:${suffix}:${base64url.encode(JSON.stringify(state))}`)).toBeRejected();
+
+    // No JSON
+    await expectAsync(resolver.resolve(`did:ion:${suffix}:abc`)).toBeRejected();
+
+    // Short-form DID without resolver
+    await expectAsync(resolver.resolve(`did:ion:${suffix}`)).toBeRejected();
+  });
+});
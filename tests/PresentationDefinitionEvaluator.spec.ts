@@ -0,0 +1,137 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { ClaimToken, JsonSchemaFilter, PresentationDefinitionEvaluator, PresentationDefinitionModel, PresentationExchangeConstraintsModel, TokenType, ValidationErrorCode } from '../lib/index';
+
+describe('PresentationDefinitionEvaluator', () => {
+  const credential = (type: string, credentialSubject: any): ClaimToken => {
+    return new ClaimToken(TokenType.verifiableCredential, {
+      jti: `urn:pic:${type}`,
+      vc: {
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        type: ['VerifiableCredential', type],
+        credentialSubject
+      }
+    });
+  };
+
+  const identityCard = credential('IdentityCard', { id: 'did:test:subject', givenName: 'Jules', age: 42, address: { country: 'BE', city: 'Brussels' } });
+  const diploma = credential('Diploma', { level: 'master' });
+
+  const definition = (input: any) => new PresentationDefinitionModel().populateFrom(<PresentationDefinitionModel>input);
+
+  it('should filter values with JSON Schema', () => {
+    expect(JsonSchemaFilter.matches({ type: 'string', pattern: '^Ju' }, 'Jules')).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ type: 'string', pattern: '^Vi' }, 'Jules')).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ type: 'integer', minimum: 18 }, 42)).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ type: 'number', exclusiveMaximum: 42 }, 42)).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ enum: ['BE', 'NL'] }, 'BE')).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ type: 'array', contains: { const: 'Diploma' } }, ['VerifiableCredential', 'Diploma'])).toBeTruthy();
+    expect(JsonSchemaFilter.matches({ type: 'string', format: 'date', formatMinimum: '2000-01-01' }, '1999-12-31')).toBeFalsy();
+    expect(JsonSchemaFilter.matches({ not: { type: 'string' } }, 'Jules')).toBeFalsy();
+  });
+
+  it('should evaluate the schema and fields of the input descriptors', () => {
+    const evaluator = new PresentationDefinitionEvaluator(definition({
+      id: 'definition',
+      input_descriptors: [{
+        id: 'IdentityCard',
+        schema: { uri: ['https://schema.org/IdentityCard'] },
+        constraints: {
+          fields: [
+            { path: ['$.credentialSubject.age', '$.vc.credentialSubject.age'], filter: { type: 'number', minimum: 18 } },
+            { id: 'nickName', path: ['$.vc.credentialSubject.nickName'], optional: true }
+          ]
+        }
+      }]
+    }));
+    expect(evaluator.definition.input_descriptors![0].constraints instanceof PresentationExchangeConstraintsModel).toBeTruthy();
+    expect(evaluator.definition.input_descriptors![0].constraints!.fields![0].path!.length).toEqual(2);
+
+    let evaluation = evaluator.evaluate({ IdentityCard: identityCard });
+    expect(evaluation.result).toBeTruthy(evaluation.detailedError);
+    expect(evaluation.satisfiedDescriptors).toEqual(['IdentityCard']);
+
+    // The filter is not satisfied
+    evaluation = evaluator.evaluate({ IdentityCard: credential('IdentityCard', { age: 12 }) });
+    expect(evaluation.result).toBeFalsy();
+    expect(evaluation.code).toEqual(ValidationErrorCode.presentationDefinitionNotSatisfied);
+    expect(evaluation.claimPath).toEqual('$.credentialSubject.age');
+    expect(evaluation.descriptors.IdentityCard.satisfied).toBeFalsy();
+
+    // The schema is not satisfied
+    evaluation = evaluator.evaluate({ IdentityCard: diploma });
+    expect(evaluation.result).toBeFalsy();
+    expect(evaluation.detailedError).toEqual(`The verifiable credential submitted for input descriptor 'IdentityCard' does not match the schema`);
+
+    evaluation = evaluator.evaluate({});
+    expect(evaluation.result).toBeFalsy();
+    expect(evaluation.detailedError).toEqual(`No verifiable credential is submitted for input descriptor 'IdentityCard'`);
+
+    // The filter is not supported
+    evaluation = new PresentationDefinitionEvaluator(definition({
+      input_descriptors: [{ id: 'IdentityCard', constraints: { fields: [{ id: 'age', path: ['$.vc.credentialSubject.age'], filter: { $ref: '#/definitions/adult' } }] } }]
+    })).evaluate({ IdentityCard: identityCard });
+    expect(evaluation.result).toBeFalsy();
+    expect(evaluation.detailedError).toEqual(`The filter of field 'age' of input descriptor 'IdentityCard' cannot be evaluated. The JSON Schema keyword '$ref' is not supported`);
+    expect(evaluation.claimPath).toEqual('$.vc.credentialSubject.age');
+  });
+
+  it('should enforce limit_disclosure', () => {
+    const evaluator = new PresentationDefinitionEvaluator(definition({
+      input_descriptors: [{
+        id: 'IdentityCard',
+        constraints: {
+          limit_disclosure: 'required',
+          fields: [{ path: ['$.vc.credentialSubject.givenName'] }, { path: ['$.vc.credentialSubject.address'] }]
+        }
+      }]
+    }));
+
+    let evaluation = evaluator.evaluate({ IdentityCard: credential('IdentityCard', { id: 'did:test:subject', givenName: 'Jules', address: { country: 'BE' } }) });
+    expect(evaluation.result).toBeTruthy(evaluation.detailedError);
+
+    evaluation = evaluator.evaluate({ IdentityCard: identityCard });
+    expect(evaluation.result).toBeFalsy();
+    expect(evaluation.claimPath).toEqual('$.vc.credentialSubject.age');
+  });
+
+  it('should evaluate the submission requirements', () => {
+    const input: any = {
+      input_descriptors: [
+        { id: 'IdentityCard', group: ['A'], schema: { uri: ['IdentityCard'] } },
+        { id: 'Passport', group: ['A'], schema: { uri: ['Passport'] } },
+        { id: 'Diploma', group: ['B'], schema: { uri: ['Diploma'] } }
+      ],
+      submission_requirements: [{
+        name: 'Identity and diploma',
+        rule: 'all',
+        from_nested: [
+          { rule: 'pick', count: 1, from: 'A' },
+          { rule: 'pick', min: 1, max: 1, from: 'B' }
+        ]
+      }]
+    };
+
+    let evaluation = new PresentationDefinitionEvaluator(definition(input)).evaluate({ IdentityCard: identityCard, Diploma: diploma });
+    expect(evaluation.result).toBeTruthy(evaluation.detailedError);
+    expect(evaluation.satisfiedDescriptors).toEqual(['IdentityCard', 'Diploma']);
+    expect(evaluation.descriptors.Passport.satisfied).toBeFalsy();
+
+    evaluation = new PresentationDefinitionEvaluator(definition(input)).evaluate({ IdentityCard: identityCard });
+    expect(evaluation.result).toBeFalsy();
+    expect(evaluation.claimPath).toEqual('$.submission_requirements[0]');
+    expect(evaluation.detailedError).toEqual(`The submission requirement 'Identity and diploma' needs all 2 items, 1 are satisfied`);
+
+    // Too many credentials of group A
+    input.submission_requirements = [{ rule: 'pick', count: 1, from: 'A' }];
+    evaluation = new PresentationDefinitionEvaluator(definition(input)).evaluate({ IdentityCard: identityCard, Passport: credential('Passport', {}) });
+    expect(evaluation.result).toBeFalsy();
+    expect(evaluation.detailedError).toEqual(`The submission requirement 'A' needs 1 items, 2 are satisfied`);
+
+    input.submission_requirements = [{ rule: 'pick', min: 2, from: 'A' }];
+    evaluation = new PresentationDefinitionEvaluator(definition(input)).evaluate({ IdentityCard: identityCard, Passport: credential('Passport', {}) });
+    expect(evaluation.result).toBeTruthy(evaluation.detailedError);
+  });
+});
@@ -5,7 +5,7 @@
 
 import RequestorHelper from './RequestorHelper';
 import ResponderHelper from './ResponderHelper';
-import { ValidatorBuilder, PresentationDefinitionModel, IRequestorPresentationExchange, JoseBuilder, Validator } from '../lib';
+import { ValidatorBuilder, PresentationDefinitionModel, IRequestorPresentationExchange, JoseBuilder, Validator, ValidationErrorCode } from '../lib';
 import TokenGenerator from './TokenGenerator';
 import PresentationDefinition from './models/PresentationDefinitionSample1'
 import RequestOneVcResponseOk from './models/RequestOneVcResponseOk'
@@ -84,6 +84,39 @@ describe('PresentationExchange', () => {
     expect(result.detailedError).toEqual(`The SIOP presentation exchange response has descriptor_map with id 'IdentityCard'. No path property found.`);
   });
 
+  it('should check the response against the presentation definition', async () => {
+    const model = new RequestOneVcResponseOk();
+    const requestor = new RequestorHelper(model);
+    await requestor.setup();
+    const responder = new ResponderHelper(requestor, model);
+    await responder.setup();
+
+    const response = await responder.createResponse();
+    const definition = (fields: any[]) => new PresentationDefinitionModel().populateFrom(<any>{
+      input_descriptors: [{ id: 'IdentityCard', schema: { uri: ['https://schema.org/IdentityCard'] }, constraints: { fields } }]
+    });
+    const builder = new ValidatorBuilder(requestor.crypto)
+      .useTrustedIssuersForVerifiableCredentials({ IdentityCard: [responder.generator.crypto.builder.did!] });
+
+    // The credential in the presentation is evaluated
+    let result = await builder.usePresentationDefinition(definition([{ path: ['$.vc.credentialSubject.givenName'], filter: { type: 'string', const: 'Jules' } }])).build().validate(<string>response.rawToken);
+    expect(result.result).toBeTruthy(result.detailedError);
+
+    result = await builder.usePresentationDefinition(definition([{ path: ['$.vc.credentialSubject.givenName'], filter: { type: 'string', const: 'Vincent' } }])).build().validate(<string>response.rawToken);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.presentationDefinitionNotSatisfied);
+    expect(result.claimPath).toEqual('$.vc.credentialSubject.givenName');
+
+    result = await builder.usePresentationDefinition(definition([{ path: ['$.vc.credentialSubject.givenName'], filter: { if: { const: 'Jules' } } }])).build().validate(<string>response.rawToken);
+    expect(result.result).toBeFalsy();
+    expect(result.detailedError).toContain(`The JSON Schema keyword 'if' is not supported`);
+
+    // The failures are reported in diagnostic mode
+    result = await builder.useDiagnosticMode(true).build().validate(<string>response.rawToken);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.presentationDefinitionNotSatisfied);
+  });
+
   it('should create a response and validate - json ld', async () => {
     const model = new RequestOneJsonLdVcResponseOk();
     const requestor = new RequestorHelper(model);
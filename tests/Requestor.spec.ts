@@ -2,7 +2,7 @@
  *  Copyright (c) Microsoft Corporation. All rights reserved.
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import { KeyUse, RequestorBuilder } from '../lib';
+import { InMemoryRequestStore, KeyUse, Requestor, RequestorBuilder, ValidatorBuilder } from '../lib';
 import PresentationDefinition from './models/PresentationDefinitionSample1'
 
 describe('Requestor', () =>{
@@ -22,11 +22,102 @@ describe('Requestor', () =>{
     expect(requestor.audienceUrl()).toEqual('https://response.example.com');
     
   });
+  it('should pass the request by reference', async () => {
+    const store = new InMemoryRequestStore();
+    const requestor = new RequestorBuilder(PresentationDefinition.presentationExchangeDefinition)
+      .useRequestStore(store, 'https://requestor.example.com/request/')
+      .build();
+    expect(requestor.builder.requestStore).toEqual(store);
+    expect(requestor.builder.requestUri).toEqual('https://requestor.example.com/request/');
+
+    await requestor.builder.crypto.generateKey(KeyUse.Signature);
+    const request = await requestor.create();
+    expect(request.result).toBeTruthy();
+    expect(request.requestUri).toEqual(`https://requestor.example.com/request/${request.requestId}`);
+    expect(request.deepLink).toEqual(`openid://?client_id=https%3A%2F%2Fresponse.example.com&request_uri=${encodeURIComponent(request.requestUri!)}`);
+    expect(Requestor.createDeepLink('https://response.example.com', request.requestUri!)).toEqual(request.deepLink!);
+
+    // The request is served once
+    let served = await requestor.serve(request.requestId!);
+    expect(served.result).toBeTruthy();
+    expect(served.request).toEqual(request.request);
+    served = await requestor.serve(request.requestId!);
+    expect(served.result).toBeFalsy();
+    expect(served.status).toEqual(404);
+    expect(served.detailedError).toEqual(`The request '${request.requestId}' is unknown, expired or already served.`);
+
+    served = await new RequestorBuilder(PresentationDefinition.presentationExchangeDefinition).build().serve('id');
+    expect(served.status).toEqual(500);
+  });
+
+  it('should not create a request by reference when the store is full', async () => {
+    const store = new InMemoryRequestStore({ maxEntries: 1 });
+    const requestor = new RequestorBuilder(PresentationDefinition.presentationExchangeDefinition)
+      .useRequestStore(store, 'https://requestor.example.com/request/')
+      .build();
+
+    await requestor.builder.crypto.generateKey(KeyUse.Signature);
+    const request = await requestor.create();
+    expect(request.result).toBeTruthy();
+
+    const refused = await requestor.create();
+    expect(refused.result).toBeFalsy();
+    expect(refused.status).toEqual(503);
+    expect(refused.detailedError).toEqual('The presentation request could not be stored.');
+    expect(refused.requestUri).toBeUndefined();
+    expect(store.size).toEqual(1);
+
+    // The stored request is still served
+    expect((await requestor.serve(request.requestId!)).request).toEqual(request.request);
+  });
+
   it('should return trusted issuers', () => {
     const requestor = new RequestorBuilder(PresentationDefinition.presentationExchangeDefinition)
       .build();
 
       expect(() => requestor.trustedIssuerConfigurationsForIdTokens()).toThrowError('Id Tokens only supported in Attestation Requestor model.');
-      expect(() => requestor.trustedIssuersForVerifiableCredentials()).toThrowError('trustedIssuersForVerifiableCredentials not supported for presentation exchange. Requires constraints.');
+      expect(requestor.trustedIssuersForVerifiableCredentials()).toEqual({ IdentityCardCredential: [] });
     })
+
+  it('should derive trusted issuers from the input descriptors', () => {
+    const definition = {
+      ...PresentationDefinition.presentationExchangeDefinition,
+      presentationDefinition: {
+        input_descriptors: [
+          {
+            id: 'IdentityCard',
+            schema: { uri: ['https://schema.org/IdentityCardCredential'] },
+            constraints: { fields: [{ path: ['$.iss', '$.issuer'], filter: { type: 'string', enum: ['did:test:issuer1', 'did:test:issuer2'] } }] }
+          },
+          {
+            id: 'Diploma',
+            constraints: {
+              fields: [
+                { path: ['$.vc.type'], filter: { type: 'array', contains: { const: 'Diploma' } } },
+                { path: ['$.vc.issuer'], filter: { const: 'did:test:university' } }
+              ]
+            }
+          },
+          {
+            id: 'OtherIdentityCard',
+            schema: { uri: ['https://schema.org/IdentityCardCredential'] },
+            constraints: { fields: [{ path: ['$.iss'], filter: { const: 'did:test:issuer3' } }] }
+          }
+        ]
+      }
+    };
+    const requestor = new RequestorBuilder(definition).build();
+    const issuers = {
+      IdentityCardCredential: ['did:test:issuer1', 'did:test:issuer2', 'did:test:issuer3'],
+      Diploma: ['did:test:university']
+    };
+    expect(requestor.trustedIssuersForVerifiableCredentials()).toEqual(issuers);
+
+    const validatorBuilder = new ValidatorBuilder(requestor.builder.crypto).useRequestor(requestor);
+    expect(validatorBuilder.trustedIssuersForVerifiableCredentials).toEqual(issuers);
+    expect(validatorBuilder.audienceUrl).toEqual('https://response.example.com');
+
+    definition.presentationDefinition.input_descriptors.push(<any>{ id: 'Unknown' });
+    expect(() => new RequestorBuilder(definition).build().trustedIssuersForVerifiableCredentials()).toThrowError(`Missing schema uri or type constraint for input descriptor 'Unknown'.`);
+  });
 });
\ No newline at end of file
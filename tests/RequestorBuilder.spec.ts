@@ -1,5 +1,5 @@
 import IRequestorAttestation from '../lib/api_oidc_request/IRequestorAttestation';
-import { LongFormDid, KeyReference, KeyUse, Crypto, IssuanceAttestationsModel, SelfIssuedAttestationModel, VerifiablePresentationAttestationModel, TrustedIssuerModel, InputClaimModel, IdTokenAttestationModel, CryptoBuilder, RequestorBuilder, IResponse, Requestor } from '../lib/index';
+import { LongFormDid, KeyReference, KeyUse, Crypto, IssuanceAttestationsModel, SelfIssuedAttestationModel, VerifiablePresentationAttestationModel, TrustedIssuerModel, InputClaimModel, IdTokenAttestationModel, CryptoBuilder, RequestorBuilder, IResponse, Requestor, PresentationDefinitionBuilder, PresentationDefinitionEvaluator, ClaimToken, TokenType, ValidatorBuilder, IRequestor } from '../lib/index';
 
 describe('RequestorBuilder', () => {
   const getAttestations = () => {
@@ -88,6 +88,12 @@ describe('RequestorBuilder', () => {
     expect(builder.tosUri).toEqual(initializer.tosUri);
     expect(builder.nonce).toBeUndefined();
     expect(builder.state).toBeUndefined();
+    expect(builder.responseMode).toEqual('form_post');
+    expect(builder.responseTypes).toEqual(['id_token']);
+    expect(builder.scope).toEqual('openid did_authn');
+    expect(builder.claims).toBeUndefined();
+    expect(builder.clientIdScheme).toBeUndefined();
+    expect(builder.registration).toEqual({});
 
     // Add optional props
     builder.useNonce('nonce');
@@ -133,4 +139,94 @@ describe('RequestorBuilder', () => {
     expect(requestor.builder.issuance).toBeTruthy();
 
   });
-});
\ No newline at end of file
+
+  it('should configure the request payload', async () => {
+    const vpFormats = { jwt_vp: { alg: ['ES256K'] }, jwt_vc: { alg: ['ES256K'] } };
+    const requestorBuilder = new RequestorBuilder(initializer, crypto)
+      .useResponseMode('direct_post')
+      .useResponseTypes(['vp_token', 'id_token', 'vp_token'])
+      .useScope('openid')
+      .useClaims({ vp_token: { presentation_definition: { id: 'definition' } } })
+      .useClientIdScheme('redirect_uri')
+      .useRegistration({ vp_formats: vpFormats })
+      .useRegistration({ subject_syntax_types_supported: ['did:ion'], id_token_signing_alg_values_supported: ['ES256K'] });
+    expect(requestorBuilder.responseTypes).toEqual(['vp_token', 'id_token']);
+    expect(() => requestorBuilder.useResponseTypes([])).toThrowError('The request requires at least one response type.');
+
+    const requestor = requestorBuilder.build();
+    const result = await requestor.create();
+    expect(result.result).toBeTruthy();
+    expect(requestor.payload.response_mode).toEqual('direct_post');
+    expect(requestor.payload.response_type).toEqual('vp_token id_token');
+    expect(requestor.payload.response_uri).toEqual(initializer.redirectUri);
+    expect(requestor.payload.redirect_uri).toBeUndefined();
+    expect(requestor.payload.scope).toEqual('openid');
+    expect(requestor.payload.claims).toEqual({ vp_token: { presentation_definition: { id: 'definition' } } });
+    expect(requestor.payload.client_id_scheme).toEqual('redirect_uri');
+    expect(requestor.payload.registration).toEqual({
+      client_name: initializer.clientName,
+      client_purpose: initializer.clientPurpose,
+      tos_uri: initializer.tosUri,
+      logo_uri: initializer.logoUri,
+      vp_formats: vpFormats,
+      subject_syntax_types_supported: ['did:ion'],
+      id_token_signing_alg_values_supported: ['ES256K']
+    });
+  });
+
+  it('should build a presentation definition', async () => {
+    const { attestations, ...presentationExchangeInitializer } = initializer;
+    const requestorBuilder = new RequestorBuilder(<IRequestor>presentationExchangeInitializer, crypto)
+      .usePresentationDefinition(new PresentationDefinitionBuilder('definition')
+        .name('Identity and diploma')
+        .requireCredential('IdentityCard')
+          .fromIssuers(['did:test:issuer'])
+          .withField('$.vc.credentialSubject.age', { type: 'number', minimum: 18 })
+          .purpose('Check your age')
+          .group('identity')
+        .requireCredential('Passport')
+          .fromIssuers(['did:test:government'])
+          .group('identity')
+        .requireCredential('Diploma')
+          .issuedBy('https://example.com/contracts/Diploma')
+        .submissionRequirement({ rule: 'pick', count: 1, from: 'identity' }));
+
+    const definition = requestorBuilder.presentationDefinition!;
+    expect(definition.id).toEqual('definition');
+    expect(definition.input_descriptors!.map((descriptor) => descriptor.id)).toEqual(['IdentityCard', 'Passport', 'Diploma']);
+    expect(definition.input_descriptors![0].constraints!.fields!.length).toEqual(3);
+    expect(definition.input_descriptors![0].purpose).toEqual('Check your age');
+    expect(definition.input_descriptors![2].issuance![0].manifest).toEqual('https://example.com/contracts/Diploma');
+
+    // The definition feeds the request and the validator
+    const requestor = requestorBuilder.build();
+    const result = await requestor.create();
+    expect(result.result).toBeTruthy();
+    expect(requestor.payload.presentation_definition.id).toEqual('definition');
+    const validatorBuilder = new ValidatorBuilder(crypto).useRequestor(requestor);
+    expect(validatorBuilder.trustedIssuersForVerifiableCredentials).toEqual({ IdentityCard: ['did:test:issuer'], Passport: ['did:test:government'], Diploma: [] });
+    expect(validatorBuilder.presentationDefinition).toEqual(definition);
+
+    const credential = (type: string, iss: string, credentialSubject: any = {}) => new ClaimToken(TokenType.verifiableCredential, { iss, vc: { type: ['VerifiableCredential', type], credentialSubject } });
+    let evaluation = new PresentationDefinitionEvaluator(definition).evaluate({
+      IdentityCard: credential('IdentityCard', 'did:test:issuer', { age: 42 }),
+      Diploma: credential('Diploma', 'did:test:university')
+    });
+    expect(evaluation.result).toBeTruthy(evaluation.detailedError);
+    evaluation = new PresentationDefinitionEvaluator(definition).evaluate({ IdentityCard: credential('IdentityCard', 'did:test:other', { age: 42 }) });
+    expect(evaluation.descriptors.IdentityCard.satisfied).toBeFalsy();
+
+    // The definition is validated on build
+    expect(() => new PresentationDefinitionBuilder().build()).toThrowError('The presentation definition requires at least one input descriptor.');
+    expect(() => new PresentationDefinitionBuilder().requireCredential('IdentityCard').requireCredential('IdentityCard').build())
+      .toThrowError(`The input descriptor id 'IdentityCard' is missing or not unique.`);
+    expect(() => new PresentationDefinitionBuilder().requireCredential('IdentityCard').withField('$..[', {}).build())
+      .toThrowError(`The path '$..[' of input descriptor 'IdentityCard' is not a valid JSONPath expression.`);
+    expect(() => new PresentationDefinitionBuilder().requireCredential('IdentityCard').submissionRequirement({ rule: 'all', from: 'identity' }).build())
+      .toThrowError(`The submission requirement 'identity' refers to the group 'identity' which has no input descriptors.`);
+    expect(() => new PresentationDefinitionBuilder().requireCredential('IdentityCard').group('A').submissionRequirement({ rule: 'pick', from: 'A', min: 2, max: 1 }).build())
+      .toThrowError(`The submission requirement 'A' has a min larger than its max.`);
+    expect(() => new RequestorBuilder(initializer).usePresentationDefinition(new PresentationDefinitionBuilder().requireCredential('IdentityCard')))
+      .toThrowError('A presentation definition cannot be used with the attestation requestor model.');
+  });
+});
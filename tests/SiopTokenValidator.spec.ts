@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { IExpectedSiop, IssuanceHelpers, SiopTokenValidator, TokenType, ValidationOptions } from '../lib';
+import { IExpectedSiop, IssuanceHelpers, SiopTokenValidator, TokenType, ValidationErrorCode, ValidationOptions } from '../lib';
 import ValidationQueue from '../lib/input_validation/ValidationQueue';
 import TestSetup from './TestSetup';
 
@@ -57,6 +57,8 @@ describe('SiopTokenValidator', () => {
     response = await validator.validate(queue, queue.getNextToken()!);
     expect(response.result).toBeFalsy();
     expect(response.detailedError).toEqual(`Expect state 'state' does not match 'xxx'.`);
+    expect(response.code).toEqual(ValidationErrorCode.stateMismatch);
+    expect(response.claimPath).toEqual('$.state');
 
     // wrong state in response
     payload = {
@@ -70,7 +72,40 @@ describe('SiopTokenValidator', () => {
     response = await validator.validate(queue, queue.getNextToken()!);
     expect(response.result).toBeFalsy();
     expect(response.detailedError).toEqual(`Expect nonce 'nonce' does not match 'xxx'.`);
+    expect(response.code).toEqual(ValidationErrorCode.nonceMismatch);
+    expect(response.claimPath).toEqual('$.nonce');
 
   });
 
+  it('should enforce the maximum age', async () => {
+    const [request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.siopIssuance, true);
+    const expected: IExpectedSiop = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopIssuance)[0];
+    const now = Math.trunc(Date.now() / 1000);
+    const validate = async (payload: any, expected: IExpectedSiop) => {
+      const siopRequest = await IssuanceHelpers.createSiopRequestWithPayload(setup, { ...request.decodedToken, ...payload }, siop.didJwkPrivate);
+      const queue = new ValidationQueue();
+      queue.enqueueToken('siop', siopRequest);
+      return new SiopTokenValidator(setup.validatorOptions, expected).validate(queue, queue.getNextToken()!);
+    };
+
+    let response = await validate({ iat: now - 60 }, { ...expected, maxAgeInSeconds: 600 });
+    expect(response.result).toBeTruthy(response.detailedError);
+
+    // Too old, skew of 300 seconds included
+    response = await validate({ iat: now - 1000 }, { ...expected, maxAgeInSeconds: 600 });
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.tokenExpired);
+    expect(response.claimPath).toEqual('$.iat');
+
+    // Missing iat
+    response = await validate({ iat: undefined }, { ...expected, maxAgeInSeconds: 600 });
+    expect(response.result).toBeFalsy();
+    expect(response.detailedError).toEqual('The presented siopIssuance has no iat');
+    expect(response.code).toEqual(ValidationErrorCode.missingClaim);
+
+    // The signing adds exp
+    response = await validate({ iat: now, exp: now + 60 }, { ...expected, requireExpiration: true, requireIssuedAt: true });
+    expect(response.result).toBeTruthy(response.detailedError);
+  });
+
 });
\ No newline at end of file
@@ -0,0 +1,107 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { IExpectedSiop, IExpectedVerifiableCredential, StatusRequest, StatusTimeoutError, StatusTimeoutPolicy, TokenType, ValidationErrorCode, ValidatorBuilder } from '../lib/index';
+import VerifiableCredentialConstants from '../lib/verifiable_credential/VerifiableCredentialConstants';
+import { IssuanceHelpers } from './IssuanceHelpers';
+import TestSetup from './TestSetup';
+
+describe('StatusRequest', () => {
+  const statusUrl = 'https://status.example.com/status';
+  let setup: TestSetup;
+  beforeEach(async () => {
+    setup = new TestSetup();
+  });
+
+  afterEach(() => {
+    setup.fetchMock.reset();
+  });
+
+  it('should retry server errors with backoff', async () => {
+    let calls = 0;
+    setup.fetchMock.get(statusUrl, () => ++calls < 3 ? 503 : 200, { overwriteRoutes: true });
+    const builder = new ValidatorBuilder(setup.crypto);
+    expect(builder.statusCheckOptions.timeoutInMilliseconds).toEqual(VerifiableCredentialConstants.DEFAULT_STATUS_TIMEOUT_IN_MILLISECONDS);
+    expect(builder.statusCheckOptions.timeoutPolicy).toEqual(StatusTimeoutPolicy.fail);
+
+    builder.useStatusCheckOptions({ retryDelayInMilliseconds: 1 });
+    let response = await StatusRequest.fetch(statusUrl, { method: 'GET' }, builder);
+    expect(response.status).toEqual(200);
+    expect(calls).toEqual(3);
+
+    // The last server error is returned when the retries are exhausted
+    calls = 0;
+    response = await StatusRequest.fetch(statusUrl, { method: 'GET' }, builder.useStatusCheckOptions({ retryDelayInMilliseconds: 1, maxRetries: 1 }));
+    expect(response.status).toEqual(503);
+    expect(calls).toEqual(2);
+
+    // Client errors are not retried
+    setup.fetchMock.get(statusUrl, 404, { overwriteRoutes: true });
+    response = await StatusRequest.fetch(statusUrl, { method: 'GET' }, builder);
+    expect(response.status).toEqual(404);
+    expect(setup.fetchMock.calls(statusUrl).length).toEqual(6);
+  });
+
+  it('should time out', async () => {
+    setup.fetchMock.get(statusUrl, 200, { overwriteRoutes: true, delay: 200 });
+    const builder = new ValidatorBuilder(setup.crypto).useStatusCheckOptions({ timeoutInMilliseconds: 10 });
+    try {
+      await StatusRequest.fetch(statusUrl, { method: 'GET' }, builder);
+      fail('no timeout');
+    } catch (exception) {
+      expect(exception instanceof StatusTimeoutError).toBeTruthy();
+      expect(exception.message).toEqual(`The status request to ${statusUrl} timed out after 10 ms`);
+    }
+
+    // The request is aborted where the runtime supports it
+    if (typeof AbortController !== 'undefined') {
+      expect(setup.fetchMock.lastOptions(statusUrl).signal.aborted).toBeTruthy();
+    }
+  });
+
+  it('should time out while reading the body', async () => {
+    let signal: any;
+    spyOn(<any>global, 'fetch').and.callFake(async (_url: string, init: RequestInit) => {
+      signal = init.signal;
+      return <any>{ status: 200, statusText: 'OK', headers: {}, text: () => new Promise((resolve) => setTimeout(() => resolve('late'), 200)) };
+    });
+
+    const builder = new ValidatorBuilder(setup.crypto).useStatusCheckOptions({ timeoutInMilliseconds: 10 });
+    await expectAsync(StatusRequest.fetch(statusUrl, { method: 'GET' }, builder)).toBeRejected();
+    if (typeof AbortController !== 'undefined') {
+      expect(signal.aborted).toBeTruthy();
+    }
+  });
+
+  it('should return the buffered response', async () => {
+    setup.fetchMock.get(statusUrl, { body: { status: 'valid' }, headers: { 'Content-Type': 'application/json' } }, { overwriteRoutes: true });
+    const response = await StatusRequest.fetch(statusUrl, { method: 'GET' }, new ValidatorBuilder(setup.crypto));
+    expect(response.ok).toBeTruthy();
+    expect(response.headers.get('Content-Type')).toEqual('application/json');
+    expect(await response.json()).toEqual({ status: 'valid' });
+  });
+
+  it('should apply the timeout policy to the status checks', async () => {
+    const [request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const siopExpected = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopPresentationAttestation)[0];
+    const vcExpected = siop.expected.filter((token: IExpectedVerifiableCredential) => token.type === TokenType.verifiableCredential)[0];
+    setup.fetchMock.post(siop.vc.decodedToken.vc.credentialStatus.id, {}, { overwriteRoutes: true, delay: 200 });
+    const builder = new ValidatorBuilder(setup.crypto)
+      .useAudienceUrl(siopExpected.audience)
+      .useTrustedIssuersForVerifiableCredentials(vcExpected.contractIssuers)
+      .useStatusCheckOptions({ timeoutInMilliseconds: 10 });
+
+    let result = await builder.build().validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.statusCheckTimedOut);
+    expect(result.tokenType).toEqual(TokenType.verifiableCredential);
+    expect(result.claimPath).toEqual('$.vc.credentialStatus');
+
+    result = await builder.useStatusCheckOptions({ timeoutInMilliseconds: 10, timeoutPolicy: StatusTimeoutPolicy.unknown }).build().validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+    const status = result.validationResult!.verifiablePresentationStatus![siop.vc.decodedToken.jti];
+    expect(status.status).toEqual('unknown');
+    expect(status.passed).toBeFalsy();
+  });
+});
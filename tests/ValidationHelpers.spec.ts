@@ -3,9 +3,9 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 import TestSetup from './TestSetup';
-import { IValidationResponse } from '../lib/input_validation/IValidationResponse';
+import { IValidationResponse, ValidationErrorCode } from '../lib/input_validation/IValidationResponse';
 import base64url from 'base64url';
-import { IPayloadProtectionSigning } from 'verifiablecredentials-crypto-sdk-typescript';
+import { IPayloadProtectionSigning, JoseBuilder } from 'verifiablecredentials-crypto-sdk-typescript';
 import ValidationOptions from '../lib/options/ValidationOptions';
 import { IssuanceHelpers } from './IssuanceHelpers';
 import ClaimToken, { TokenType } from '../lib/verifiable_credential/ClaimToken';
@@ -97,6 +97,51 @@ import { IExpectedSiop, IExpectedIdToken, IExpectedAudience, IdTokenValidationRe
     expect(response.detailedError).toEqual('Could not resolve DID \'did Jules\'');
   });
 
+  it('should enforce the verification relationship of the key', async () => {
+    const [_request, _options, siopRequest] = await IssuanceHelpers.createRequest(setup, TokenType.verifiableCredential, true);
+    const resolverUrl = `${setup.resolverUrl}/${setup.defaultUserDid}`;
+    const publicKey = { id: setup.defaulUserDidKid, type: 'RsaVerificationKey2018', controller: setup.defaultUserDid, publicKeyJwk: siopRequest.didJwkPublic };
+    const resolve = (tokenType: TokenType, validatorOptions?: any) => {
+      const options = new ValidationOptions({ ...setup.validatorOptions, ...validatorOptions }, tokenType);
+      return options.resolveDidAndGetKeysDelegate({ status: 200, result: true, did: setup.defaultUserDid, didKid: setup.defaulUserDidKid });
+    };
+    const mockDidDocument = (document: any) => {
+      setup.fetchMock.get(resolverUrl, { didDocument: { '@context': 'https://w3id.org/did/v1', id: setup.defaultUserDid, ...document } }, { overwriteRoutes: true });
+    };
+
+    // The key can only be used for authentication
+    mockDidDocument({ publicKey: [publicKey], authentication: [`#${setup.defaulUserDidKid.split('#')[1]}`] });
+    let response = await resolve(TokenType.siopPresentationExchange);
+    expect(response.result).toBeTruthy(response.detailedError);
+    response = await resolve(TokenType.verifiablePresentationJwt);
+    expect(response.result).toBeTruthy(response.detailedError);
+    response = await resolve(TokenType.verifiableCredential);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidVerificationRelationship);
+    expect(response.detailedError).toEqual(`The key '${setup.defaulUserDidKid}' is not authorized for assertionMethod in the DID document of '${setup.defaultUserDid}'`);
+    response = await resolve(TokenType.verifiablePresentationStatus);
+    expect(response.code).toEqual(ValidationErrorCode.invalidVerificationRelationship);
+
+    // A key for key agreement cannot sign
+    mockDidDocument({ publicKey: [publicKey], keyAgreement: [setup.defaulUserDidKid] });
+    response = await resolve(TokenType.siop);
+    expect(response.code).toEqual(ValidationErrorCode.invalidVerificationRelationship);
+
+    // Embedded key
+    mockDidDocument({ assertionMethod: [publicKey] });
+    response = await resolve(TokenType.verifiableCredential);
+    expect(response.result).toBeTruthy(response.detailedError);
+    expect(response.didSigningPublicKey).toEqual(siopRequest.didJwkPublic);
+
+    // Documents with only publicKey
+    mockDidDocument({ publicKey: [publicKey] });
+    response = await resolve(TokenType.verifiableCredential);
+    expect(response.result).toBeTruthy(response.detailedError);
+    response = await resolve(TokenType.verifiableCredential, { legacyPublicKeyDocuments: false });
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidVerificationRelationship);
+  });
+
   it('should test validateDidSignatureDelegate', async () => {
     let [request, options, siopRequest] = await IssuanceHelpers.createRequest(setup, TokenType.verifiableCredential, true);
     let validationResponse: IValidationResponse = {
@@ -142,6 +187,40 @@ import { IExpectedSiop, IExpectedIdToken, IExpectedAudience, IdTokenValidationRe
     expect(response.detailedError).toEqual('Failed to validate signature');
   });
   
+  it('should check the algorithm of the token against the allow-list and the key', async () => {
+    const [request, _options, siopRequest] = await IssuanceHelpers.createRequest(setup, TokenType.verifiableCredential, true);
+    const validate = async (validatorOptions: any, key: any) => {
+      const options = new ValidationOptions({ ...setup.validatorOptions, ...validatorOptions }, TokenType.verifiableCredential);
+      const validationResponse = await options.getTokenObjectDelegate({ status: 200, result: true, did: setup.defaultUserDid }, <string>request.rawToken);
+      validationResponse.didSigningPublicKey = key;
+      return options.validateDidSignatureDelegate(validationResponse, validationResponse.didSignature as IPayloadProtectionSigning);
+    };
+
+    let response = await validate({ allowedAlgorithms: { verifiableCredential: ['RS256'] } }, siopRequest.didJwkPublic);
+    expect(response.result).toBeTruthy(response.detailedError);
+
+    response = await validate({ allowedAlgorithms: { verifiableCredential: ['ES256K'], siop: ['RS256'] } }, siopRequest.didJwkPublic);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidAlgorithm);
+    expect(response.detailedError).toEqual(`The verifiableCredential uses the algorithm 'RS256' which is not allowed`);
+
+    // The key does not belong to the algorithm
+    response = await validate({}, { kty: 'EC', crv: 'secp256k1', x: 'yOrwnHVTKn3UO2K29ctcOTXo0hZmm7njlFR_uPC8aBc', y: '05fsHpcimSDwdnQ_sKw5tmsNMx_3WRBDibpydraxLwA' });
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidAlgorithm);
+    expect(response.detailedError).toEqual(`The verifiableCredential uses the algorithm 'RS256' which does not match the key type 'EC' with curve 'secp256k1'`);
+
+    // Unsigned token
+    const [header, payload] = (<string>request.rawToken).split('.');
+    const unsigned = `${base64url.encode(JSON.stringify({ ...JSON.parse(base64url.decode(header)), alg: 'none' }))}.${payload}.`;
+    const options = new ValidationOptions(setup.validatorOptions, TokenType.verifiableCredential);
+    const validationResponse = await options.getTokenObjectDelegate({ status: 200, result: true, did: setup.defaultUserDid }, unsigned);
+    validationResponse.didSigningPublicKey = siopRequest.didJwkPublic;
+    response = await options.validateDidSignatureDelegate(validationResponse, validationResponse.didSignature as IPayloadProtectionSigning);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidAlgorithm);
+  });
+
   it('should test checkTimeValidityOnTokenDelegate', () => {
     const options = new ValidationOptions(setup.validatorOptions, TokenType.verifiableCredential);
 
@@ -167,6 +246,7 @@ import { IExpectedSiop, IExpectedIdToken, IExpectedAudience, IdTokenValidationRe
     expect(response.result).toBeFalsy('expired');
     expect(response.status).toEqual(403);
     expect(response.detailedError?.startsWith('The presented verifiableCredential is expired')).toBeTruthy();
+    expect(response.code).toEqual(ValidationErrorCode.tokenExpired);
     
     // Add nbf
     validationResponse.expiration = undefined;
@@ -180,6 +260,77 @@ import { IExpectedSiop, IExpectedIdToken, IExpectedAudience, IdTokenValidationRe
     expect(response.result).toBeFalsy('not yet valid');
     expect(response.status).toEqual(403);
     expect(response.detailedError?.startsWith('The presented verifiableCredential is not yet valid')).toBeTruthy();
+    expect(response.code).toEqual(ValidationErrorCode.tokenNotYetValid);
+    expect(response.claimPath).toEqual('$.nbf');
+
+    // JSON-LD credentials are valid from their issuanceDate
+    validationResponse.payloadProtectionProtocol = JoseBuilder.JSONLDProofs;
+    validationResponse.payloadObject = { id: 'abcdefg', issuanceDate: new Date(Date.now() + 60000).toISOString() };
+    response = options.checkTimeValidityOnTokenDelegate(validationResponse, 5);
+    expect(response.result).toBeFalsy('not yet valid');
+    expect(response.code).toEqual(ValidationErrorCode.tokenNotYetValid);
+    expect(response.claimPath).toEqual('$.issuanceDate');
+    validationResponse.payloadObject.issuanceDate = new Date(Date.now() - 60000).toISOString();
+    response = options.checkTimeValidityOnTokenDelegate(validationResponse, 5);
+    expect(response.result).toBeTruthy(response.detailedError);
+  });
+
+  it('should use the clock and skew of the validator in checkTimeValidityOnTokenDelegate', () => {
+    const now = 1600000000;
+    const options = new ValidationOptions({ ...setup.validatorOptions, clock: { now: () => now * 1000 }, clockSkewInSeconds: 10 }, TokenType.siop);
+    const validationResponse: IValidationResponse = {
+      status: 200,
+      result: true,
+      expiration: now - 5,
+      payloadObject: { jti: 'abcdefg', iat: now - 60 }
+    };
+
+    // exp is within the skew
+    let response = options.checkTimeValidityOnTokenDelegate(validationResponse);
+    expect(response.result).toBeTruthy(response.detailedError);
+
+    validationResponse.expiration = now - 10;
+    response = options.checkTimeValidityOnTokenDelegate(validationResponse);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.tokenExpired);
+
+    // Issued in the future
+    validationResponse.expiration = now + 60;
+    validationResponse.payloadObject.iat = now + 5;
+    response = options.checkTimeValidityOnTokenDelegate(validationResponse);
+    expect(response.result).toBeTruthy(response.detailedError);
+
+    validationResponse.payloadObject.iat = now + 11;
+    response = options.checkTimeValidityOnTokenDelegate(validationResponse);
+    expect(response.result).toBeFalsy();
+    expect(response.detailedError?.startsWith('The presented siop is issued in the future')).toBeTruthy();
+    expect(response.code).toEqual(ValidationErrorCode.tokenNotYetValid);
+    expect(response.claimPath).toEqual('$.iat');
+
+    // Explicit skew overrules the skew of the validator
+    response = options.checkTimeValidityOnTokenDelegate(validationResponse, 20);
+    expect(response.result).toBeTruthy(response.detailedError);
+
+    // Required exp and iat
+    validationResponse.payloadObject.iat = now;
+    validationResponse.expiration = undefined;
+    response = options.checkTimeValidityOnTokenDelegate(validationResponse, undefined, { requireIssuedAt: true });
+    expect(response.result).toBeTruthy(response.detailedError);
+    response = options.checkTimeValidityOnTokenDelegate(validationResponse, undefined, { requireExpiration: true });
+    expect(response.result).toBeFalsy();
+    expect(response.detailedError).toEqual('The presented siop has no expiration');
+    expect(response.code).toEqual(ValidationErrorCode.missingClaim);
+    expect(response.claimPath).toEqual('$.exp');
+
+    // Maximum age
+    validationResponse.payloadObject.iat = now - 69;
+    response = options.checkTimeValidityOnTokenDelegate(validationResponse, undefined, { maxAgeInSeconds: 60 });
+    expect(response.result).toBeTruthy(response.detailedError);
+    validationResponse.payloadObject.iat = now - 70;
+    response = options.checkTimeValidityOnTokenDelegate(validationResponse, undefined, { maxAgeInSeconds: 60 });
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.tokenExpired);
+    expect(response.claimPath).toEqual('$.iat');
   });
 
   it('should test checkScopeValidityOnIdTokenDelegate', () => {
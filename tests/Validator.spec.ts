@@ -2,7 +2,8 @@ import { TokenType, ValidatorBuilder, IdTokenTokenValidator, VerifiableCredentia
 import { IssuanceHelpers } from './IssuanceHelpers';
 import TestSetup from './TestSetup';
 import ValidationQueue from '../lib/input_validation/ValidationQueue';
-import { Crypto, SelfIssuedTokenValidator } from '../lib/index';
+import ValidationQueueItem from '../lib/input_validation/ValidationQueueItem';
+import { Crypto, InMemoryReplayCache, IStatusChecker, IValidationResponse, ReceiptStatusChecker, SelfIssuedTokenValidator, UnknownStatusTypePolicy, ValidationErrorCode } from '../lib/index';
 import VerifiableCredentialConstants from '../lib/verifiable_credential/VerifiableCredentialConstants';
 import { CryptoFactoryNode, IPayloadProtectionSigning, JoseBuilder, KeyReference, KeyStoreInMemory, KeyStoreKeyVault, KeyUse, LongFormDid, Subtle } from 'verifiablecredentials-crypto-sdk-typescript';
 import Credentials from './Credentials';
@@ -146,6 +147,7 @@ describe('Validator', () => {
     result = await validator.validate(queue.getNextToken()!.tokenToValidate);
     expect(result.result).toBeFalsy();
     expect(result.detailedError).toEqual('verifiablePresentationJwt does not has a TokenValidator');
+    expect(result.code).toEqual(ValidationErrorCode.tokenTypeNotSupported);
 
     // Test validator with missing VC validator
     validator = new ValidatorBuilder(crypto)
@@ -198,9 +200,255 @@ describe('Validator', () => {
     expect(result.result).toBeFalsy();
     expect(result.detailedError).toEqual(`Expected should have contractIssuers set for verifiableCredential. Missing contractIssuers for 'DrivingLicense'.`);
     expect(result.status).toEqual(403);
+    expect(result.code).toEqual(ValidationErrorCode.unexpectedCredentialType);
+    expect(result.tokenType).toEqual(TokenType.verifiableCredential);
+    expect(result.tokenId).toEqual(siop.vc.decodedToken.jti);
   });
 
 
+  it('should reject replayed presentations', async () => {
+    const [request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const siopExpected = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopPresentationAttestation)[0];
+    const vcExpected = siop.expected.filter((token: IExpectedVerifiableCredential) => token.type === TokenType.verifiableCredential)[0];
+    const replayCache = new InMemoryReplayCache();
+    const validator = new ValidatorBuilder(crypto)
+      .useAudienceUrl(siopExpected.audience)
+      .useTrustedIssuersForVerifiableCredentials(vcExpected.contractIssuers)
+      .enableFeatureVerifiedCredentialsStatusCheck(false)
+      .useReplayCache(replayCache)
+      .build();
+    expect(validator.builder.replayCache).toEqual(replayCache);
+
+    let result = await validator.validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+    expect(replayCache.size).toEqual(2);
+
+    result = await validator.validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.tokenReplayed);
+    expect(result.tokenType).toEqual(TokenType.siopPresentationAttestation);
+    expect(result.claimPath).toEqual('$.jti');
+
+    // Replayed presentation in a new siop
+    const siopRequest = await IssuanceHelpers.createSiopRequestWithPayload(setup, { ...request.decodedToken, jti: 'other' }, siop.didJwkPrivate);
+    result = await validator.validate(siopRequest);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.tokenReplayed);
+    expect(result.tokenType).toEqual(TokenType.verifiablePresentationJwt);
+
+    // The jti of the new siop is not used up by the replayed presentation
+    expect(replayCache.size).toEqual(2);
+  });
+
+  it('should not use up the tokens of a failed validation in diagnostic mode', async () => {
+    const [request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const siopExpected = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopPresentationAttestation)[0];
+    const vcExpected = siop.expected.filter((token: IExpectedVerifiableCredential) => token.type === TokenType.verifiableCredential)[0];
+    const replayCache = new InMemoryReplayCache();
+    const builder = new ValidatorBuilder(crypto)
+      .useAudienceUrl(siopExpected.audience)
+      .useTrustedIssuersForVerifiableCredentials({ DrivingLicense: ['did:test:other'] })
+      .enableFeatureVerifiedCredentialsStatusCheck(false)
+      .useReplayCache(replayCache)
+      .useDiagnosticMode(true);
+
+    let result = await builder.build().validate(request);
+    expect(result.result).toBeFalsy();
+    expect(replayCache.size).toEqual(0);
+
+    result = await builder.useTrustedIssuersForVerifiableCredentials(vcExpected.contractIssuers).build().validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+    expect(replayCache.size).toEqual(2);
+
+    result = await builder.build().validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.tokenReplayed);
+    expect(result.report![Object.keys(result.report!)[0]].failures[0].code).toEqual(ValidationErrorCode.tokenReplayed);
+  });
+
+  it('should remember the values of tokens without exp as long as they are accepted', async () => {
+    const [_request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const siopExpected = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopPresentationAttestation)[0];
+    const vcExpected = siop.expected.filter((token: IExpectedVerifiableCredential) => token.type === TokenType.verifiableCredential)[0];
+    const now = Math.trunc(Date.now() / 1000);
+    const vp = await IssuanceHelpers.signAToken(setup, { ...siop.vp.decodedToken, iat: now - 3600 }, '', siop.didJwkPrivate);
+    const request = await IssuanceHelpers.createSiopRequest(setup, siop.didJwkPrivate, undefined, '', { presentations: { DrivingLicense: vp.rawToken } });
+    const replayCache = new InMemoryReplayCache();
+    const register = spyOn(replayCache, 'register').and.callThrough();
+    const maxAge = 3 * VerifiableCredentialConstants.DEFAULT_REPLAY_EXPIRY_IN_SECONDS;
+    const builder = new ValidatorBuilder(crypto)
+      .useAudienceUrl(siopExpected.audience)
+      .useTrustedIssuersForVerifiableCredentials(vcExpected.contractIssuers)
+      .enableFeatureVerifiedCredentialsStatusCheck(false)
+      .useMaxTokenAge(maxAge, TokenType.verifiablePresentationJwt)
+      .useReplayCache(replayCache);
+
+    // Drop the exp of the presentation
+    const vpValidator = builder.tokenValidators[TokenType.verifiablePresentationJwt];
+    builder.tokenValidators[TokenType.verifiablePresentationJwt] = {
+      isType: TokenType.verifiablePresentationJwt,
+      validate: async (queue: ValidationQueue, queueItem: ValidationQueueItem, siopDid?: string) => {
+        const response = await vpValidator.validate(queue, queueItem, siopDid);
+        return { ...response, expiration: undefined };
+      },
+      getTokens: (validationResponse: IValidationResponse, queue: ValidationQueue) => vpValidator.getTokens(validationResponse, queue)
+    };
+    const validator = builder.build();
+
+    const result = await validator.validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+    expect(register).toHaveBeenCalledTimes(1);
+    const vpValue = register.calls.argsFor(0)[0].find((value) => value.key.startsWith(`${TokenType.verifiablePresentationJwt}:`))!;
+    expect(vpValue.expiry).toEqual(now - 3600 + maxAge + validator.builder.clockSkewInSeconds);
+  });
+
+  it('should reject presentations when the replay cache is full', async () => {
+    const [request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const siopExpected = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopPresentationAttestation)[0];
+    const vcExpected = siop.expected.filter((token: IExpectedVerifiableCredential) => token.type === TokenType.verifiableCredential)[0];
+    const replayCache = new InMemoryReplayCache({ maxEntries: 1 });
+    expect(await replayCache.register([{ key: 'other', expiry: Math.trunc(Date.now() / 1000) + 3600 }])).toEqual([]);
+    const validator = new ValidatorBuilder(crypto)
+      .useAudienceUrl(siopExpected.audience)
+      .useTrustedIssuersForVerifiableCredentials(vcExpected.contractIssuers)
+      .enableFeatureVerifiedCredentialsStatusCheck(false)
+      .useReplayCache(replayCache)
+      .build();
+
+    const result = await validator.validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.status).toEqual(503);
+    expect(result.code).toEqual(ValidationErrorCode.replayCheckFailed);
+    expect(result.tokenType).toEqual(TokenType.siopPresentationAttestation);
+    expect(replayCache.size).toEqual(1);
+  });
+
+  it('should check the status with the status checker of the credentialStatus type', async () => {
+    const [request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const siopExpected = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopPresentationAttestation)[0];
+    const vcExpected = siop.expected.filter((token: IExpectedVerifiableCredential) => token.type === TokenType.verifiableCredential)[0];
+    let status: any = { status: 'valid', passed: true };
+    const statusChecker: IStatusChecker = {
+      check: async (credentialStatus: any, verifiableCredential: ClaimToken) => {
+        expect(credentialStatus.type).toEqual(ReceiptStatusChecker.CREDENTIAL_STATUS_TYPE);
+        if (!status.passed) {
+          return { result: false, status: 403, detailedError: 'revoked by the enterprise service', code: ValidationErrorCode.credentialRevoked };
+        }
+
+        return { result: true, status: 200, validationResult: { verifiablePresentationStatus: { [verifiableCredential.decodedToken.jti]: status } } };
+      }
+    };
+    const builder = new ValidatorBuilder(crypto)
+      .useAudienceUrl(siopExpected.audience)
+      .useTrustedIssuersForVerifiableCredentials(vcExpected.contractIssuers)
+      .useStatusChecker(ReceiptStatusChecker.CREDENTIAL_STATUS_TYPE, statusChecker);
+    expect(builder.statusCheckers[ReceiptStatusChecker.CREDENTIAL_STATUS_TYPE]).toEqual(statusChecker);
+    expect(builder.statusCheckers['StatusList2021Entry']).toBeDefined();
+    expect(builder.unknownStatusTypePolicy).toEqual(UnknownStatusTypePolicy.fail);
+    expect(builder.defaultStatusChecker instanceof ReceiptStatusChecker).toBeTruthy();
+
+    let result = await builder.build().validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+    expect(result.validationResult?.verifiablePresentationStatus![siop.vc.decodedToken.jti]).toEqual(status);
+
+    status = { passed: false };
+    result = await builder.build().validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.credentialRevoked);
+    expect(result.tokenType).toEqual(TokenType.verifiableCredential);
+    expect(result.tokenId).toEqual(siop.vc.decodedToken.jti);
+
+    // Credential status type without status checker is checked by the default status checker
+    const vc = await IssuanceHelpers.signAToken(setup, { ...siop.vc.decodedToken, vc: { ...siop.vc.decodedToken.vc, credentialStatus: { id: 'https://status.example.com', type: 'EnterpriseRevocation' } } }, '', siop.tokenJwkPrivate);
+    const vp = await IssuanceHelpers.createVp(setup, [vc], siop.didJwkPrivate);
+    const siopRequest = await IssuanceHelpers.createSiopRequest(setup, siop.didJwkPrivate, undefined, '', { presentations: { DrivingLicense: vp.rawToken } });
+    const defaultStatusChecker: IStatusChecker = {
+      check: async (credentialStatus: any) => {
+        expect(credentialStatus.type).toEqual('EnterpriseRevocation');
+        return { result: false, status: 403, detailedError: 'revoked by the status service', code: ValidationErrorCode.credentialRevoked };
+      }
+    };
+    result = await builder.useDefaultStatusChecker(defaultStatusChecker).build().validate(siopRequest);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.credentialRevoked);
+
+    result = await builder.useDefaultStatusChecker(undefined).build().validate(siopRequest);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.statusTypeNotSupported);
+    expect(result.claimPath).toEqual('$.vc.credentialStatus.type');
+
+    result = await builder.useUnknownStatusTypePolicy(UnknownStatusTypePolicy.warn).build().validate(siopRequest);
+    expect(result.result).toBeTruthy(result.detailedError);
+  });
+
+  it('should reject a tampered status receipt in diagnostic mode', async () => {
+    const [_request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const jti = siop.vc.decodedToken.jti;
+    const credentialStatus = siop.vc.decodedToken.vc.credentialStatus;
+    const receipt = await IssuanceHelpers.signAToken(setup, { iss: setup.defaultIssuerDid, aud: crypto.builder.did, credentialStatus: { id: jti, status: 'valid', reason: '' } }, '', siop.tokenJwkPrivate);
+    setup.fetchMock.post(credentialStatus.id, { receipt: { [jti]: `${receipt.rawToken}a` } }, { overwriteRoutes: true });
+
+    for (const diagnosticMode of [false, true]) {
+      const builder = new ValidatorBuilder(crypto).useDiagnosticMode(diagnosticMode);
+      const result = await new ReceiptStatusChecker().check(credentialStatus, siop.vc, siop.vp, builder);
+      expect(result.result).toBeFalsy();
+      expect(result.code).toEqual(ValidationErrorCode.invalidSignature);
+    }
+  });
+
+  it('should report all failures in diagnostic mode', async () => {
+    const [request, options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, false);
+    const vcExpected = siop.expected.filter((token: IExpectedVerifiableCredential) => token.type === TokenType.verifiableCredential)[0];
+
+    // Wrong audience for the siop and no trusted issuer for the VC
+    let validator = new ValidatorBuilder(crypto)
+      .useAudienceUrl('https://example.com/wrong')
+      .useTrustedIssuersForVerifiableCredentials({ DrivingLicense: ['did:test:other'] })
+      .enableFeatureVerifiedCredentialsStatusCheck(false)
+      .useDiagnosticMode(true)
+      .build();
+    expect(validator.builder.diagnosticMode).toBeTruthy();
+
+    let result = await validator.validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.invalidAudience);
+    const siopReport = result.report!['siop'];
+    expect(siopReport.result).toBeFalsy();
+    expect(siopReport.failures.map((failure) => failure.code)).toEqual([ValidationErrorCode.invalidAudience]);
+
+    // The embedded tokens are validated
+    const vpReport = siopReport.tokens[Object.keys(siopReport.tokens)[0]];
+    expect(vpReport.tokenType).toEqual(TokenType.verifiablePresentationJwt);
+    expect(vpReport.result).toBeTruthy();
+    const vcReport = vpReport.tokens['DrivingLicense'];
+    expect(vcReport.tokenType).toEqual(TokenType.verifiableCredential);
+    expect(vcReport.tokenId).toEqual(siop.vc.decodedToken.jti);
+    expect(vcReport.failures.map((failure) => failure.code)).toEqual([ValidationErrorCode.untrustedIssuer]);
+
+    // Without diagnostic mode validation stops at the siop
+    validator = new ValidatorBuilder(crypto)
+      .useAudienceUrl('https://example.com/wrong')
+      .useTrustedIssuersForVerifiableCredentials({ DrivingLicense: ['did:test:other'] })
+      .enableFeatureVerifiedCredentialsStatusCheck(false)
+      .build();
+    result = await validator.validate(request);
+    expect(result.result).toBeFalsy();
+    expect(result.code).toEqual(ValidationErrorCode.invalidAudience);
+    expect(result.report).toBeUndefined();
+
+    // All checks pass
+    validator = new ValidatorBuilder(crypto)
+      .useAudienceUrl(siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopPresentationAttestation)[0].audience)
+      .useTrustedIssuersForVerifiableCredentials(vcExpected.contractIssuers)
+      .enableFeatureVerifiedCredentialsStatusCheck(false)
+      .useDiagnosticMode(true)
+      .build();
+    result = await validator.validate(request);
+    expect(result.result).toBeTruthy(result.detailedError);
+    expect(result.report!['siop'].result).toBeTruthy();
+    expect(result.validationResult?.verifiableCredentials!['DrivingLicense']).toBeDefined();
+  });
+
   it('should validate siop with default validators', async () => {
     const [request, options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiablePresentationJwt, true);
     const siopExpected = siop.expected.filter((token: IExpectedSiop) => token.type === TokenType.siopIssuance)[0];
@@ -3,7 +3,10 @@
  *  Licensed under the MIT License. See License in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Crypto, ValidatorBuilder, CryptoBuilder, ManagedHttpResolver, RequestorBuilder } from '../lib/index';
+import { Crypto, ValidatorBuilder, CryptoBuilder, ManagedHttpResolver, RequestorBuilder, SiopTokenValidator, TokenType, ValidationErrorCode } from '../lib/index';
+import ValidationQueue from '../lib/input_validation/ValidationQueue';
+import { IssuanceHelpers } from './IssuanceHelpers';
+import TestSetup from './TestSetup';
 
 describe('ValidatorBuilder', () => {
   it('should test status feature flag', () => {
@@ -55,4 +58,103 @@ describe('ValidatorBuilder', () => {
     expect(builder.nonce).toEqual('12345');
   });
 
+  it('should set clock and skew', () => {
+    const crypto = new CryptoBuilder().build();
+    const clock = { now: () => 1600000000000 };
+    let builder = new ValidatorBuilder(crypto);
+    expect(builder.clockSkewInSeconds).toEqual(300);
+    expect(builder.clock.now()).toBeGreaterThan(clock.now());
+
+    builder = new ValidatorBuilder(crypto)
+      .useClock(clock)
+      .useClockSkew(30);
+    expect(builder.clock).toEqual(clock);
+    expect(builder.clockSkewInSeconds).toEqual(30);
+    expect(builder.validatorOptions.clock).toEqual(clock);
+    expect(builder.validatorOptions.clockSkewInSeconds).toEqual(30);
+
+    // Take over from the requestor
+    const requestor = new RequestorBuilder(<any>{ attestations: {} })
+      .useClock(clock)
+      .useClockSkew(0)
+      .build();
+    builder = new ValidatorBuilder(crypto)
+      .useRequestor(requestor);
+    expect(builder.clock).toEqual(clock);
+    expect(builder.clockSkewInSeconds).toEqual(0);
+  });
+
+  it('should configure the token age of the default validators', async () => {
+    const setup = new TestSetup();
+    try {
+      const [request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.siopIssuance, true);
+      const now = Math.trunc(Date.now() / 1000);
+      const siopRequest = await IssuanceHelpers.createSiopRequestWithPayload(setup, { ...request.decodedToken, iat: now - 1000 }, siop.didJwkPrivate);
+      const validate = (builder: ValidatorBuilder) => {
+        const queue = new ValidationQueue();
+        queue.enqueueToken('siop', siopRequest);
+        return builder.tokenValidators[TokenType.siopIssuance].validate(queue, queue.getNextToken()!);
+      };
+
+      const builder = new ValidatorBuilder(setup.crypto).useResolver(setup.resolver);
+      expect(builder.tokenAge(TokenType.siopIssuance)).toEqual({});
+      let response = await validate(builder);
+      expect(response.result).toBeTruthy(response.detailedError);
+
+      // The default validators are updated
+      builder.useMaxTokenAge(600, TokenType.siopIssuance);
+      expect(builder.tokenAge(TokenType.siopIssuance)).toEqual({ maxAgeInSeconds: 600 });
+      expect(builder.tokenAge(TokenType.idToken)).toEqual({});
+      response = await validate(builder);
+      expect(response.result).toBeFalsy();
+      expect(response.code).toEqual(ValidationErrorCode.tokenExpired);
+      expect(response.claimPath).toEqual('$.iat');
+
+      builder.useMaxTokenAge(3600).useRequireExpiration().useRequireIssuedAt(TokenType.idToken);
+      expect(builder.tokenAge(TokenType.siopIssuance)).toEqual({ maxAgeInSeconds: 3600, requireExpiration: true });
+      expect(builder.tokenAge(TokenType.idToken)).toEqual({ maxAgeInSeconds: 3600, requireExpiration: true, requireIssuedAt: true });
+
+      // The signing adds exp
+      response = await validate(builder);
+      expect(response.result).toBeTruthy(response.detailedError);
+
+      expect(() => builder.useMaxTokenAge(60, TokenType.verifiableCredential)).toThrowError(`The token types 'verifiableCredential' do not support a token age policy`);
+    } finally {
+      setup.fetchMock.reset();
+    }
+  });
+
+  it('should update the default validators already created', async () => {
+    const setup = new TestSetup();
+    try {
+      const [request, _options, _siop] = await IssuanceHelpers.createRequest(setup, TokenType.siopIssuance, true);
+      const validate = (builder: ValidatorBuilder) => {
+        const queue = new ValidationQueue();
+        queue.enqueueToken('siop', request);
+        return builder.tokenValidators[TokenType.siopIssuance].validate(queue, queue.getNextToken()!);
+      };
+
+      const builder = new ValidatorBuilder(setup.crypto).useResolver(setup.resolver);
+      let response = await validate(builder);
+      expect(response.result).toBeTruthy(response.detailedError);
+
+      // The options are passed to the validators created before
+      builder.useClock({ now: () => Date.now() + 7200 * 1000 });
+      response = await validate(builder);
+      expect(response.result).toBeFalsy();
+      expect(response.code).toEqual(ValidationErrorCode.tokenExpired);
+
+      // The token age is kept when the trusted issuers are updated
+      const configuration = ['https://example.com/.well-known/openid-configuration'];
+      builder.useMaxTokenAge(600, TokenType.idToken).useTrustedIssuerConfigurationsForIdTokens(configuration);
+      expect((<any>builder.tokenValidators[TokenType.idToken]).expected).toEqual({ type: TokenType.idToken, configuration, maxAgeInSeconds: 600 });
+
+      // Token validators passed to useValidators are kept
+      const validator = new SiopTokenValidator(setup.validatorOptions, { type: TokenType.siopIssuance });
+      builder.useValidators(validator).useClockSkew(0);
+      expect(builder.tokenValidators[TokenType.siopIssuance]).toBe(validator);
+    } finally {
+      setup.fetchMock.reset();
+    }
+  });
 });
@@ -0,0 +1,195 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import TestSetup from './TestSetup';
+import { IssuanceHelpers } from './IssuanceHelpers';
+import { ClaimToken, TokenType, ValidationErrorCode, ValidatorBuilder, VerifiableCredentialStatusList } from '../lib';
+import base64url from 'base64url';
+import { gzipSync } from 'zlib';
+
+describe('VerifiableCredentialStatusList', () => {
+  const statusListUrl = 'https://issuer.example.com/status/1';
+  let setup: TestSetup;
+  beforeEach(async () => {
+    setup = new TestSetup();
+  });
+
+  afterEach(() => {
+    setup.fetchMock.reset();
+  });
+
+  // Status list with the given indexes set
+  const encodeList = (indexes: number[], multibase: boolean): string => {
+    const bitstring = Buffer.alloc(16 * 1024);
+    for (const index of indexes) {
+      bitstring[Math.floor(index / 8)] |= 0x80 >> (index % 8);
+    }
+
+    return `${multibase ? 'u' : ''}${base64url.encode(gzipSync(bitstring))}`;
+  };
+
+  const createStatusList = async (siop: any, statusListType: string, statusPurpose: string, encodedList: string, issuer?: string): Promise<string> => {
+    const statusList = await IssuanceHelpers.signAToken(setup, {
+      jti: statusListUrl,
+      iss: issuer || setup.defaultIssuerDid,
+      sub: `${statusListUrl}#list`,
+      vc: {
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        type: ['VerifiableCredential', `${statusListType}Credential`],
+        credentialSubject: {
+          id: `${statusListUrl}#list`,
+          type: statusListType,
+          statusPurpose,
+          encodedList
+        }
+      }
+    }, '', siop.tokenJwkPrivate);
+    return <string>statusList.rawToken;
+  };
+
+  const createVc = async (siop: any, credentialStatus: any) => {
+    return IssuanceHelpers.signAToken(setup, {
+      jti: 'urn:pic:status',
+      iss: setup.defaultIssuerDid,
+      sub: setup.defaultUserDid,
+      vc: {
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        type: ['VerifiableCredential', 'DrivingLicense'],
+        credentialSubject: { givenName: 'Jules' },
+        credentialStatus
+      }
+    }, '', siop.tokenJwkPrivate);
+  };
+
+  const check = (entry: any, vc: ClaimToken, diagnosticMode: boolean = false) => {
+    const builder = new ValidatorBuilder(setup.crypto).useResolver(setup.resolver).useDiagnosticMode(diagnosticMode);
+    return new VerifiableCredentialStatusList().check(entry, vc, vc, builder);
+  };
+
+  it('should check a StatusList2021Entry', async () => {
+    const [_request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiableCredential, false);
+    const entry = (index: number) => ({
+      id: `${statusListUrl}#${index}`,
+      type: 'StatusList2021Entry',
+      statusPurpose: 'revocation',
+      statusListIndex: `${index}`,
+      statusListCredential: statusListUrl
+    });
+    setup.fetchMock.get(statusListUrl, await createStatusList(siop, 'StatusList2021', 'revocation', encodeList([5, 94567], false)), { overwriteRoutes: true });
+
+    let vc = await createVc(siop, entry(6));
+    let response = await check(entry(6), vc);
+    expect(response.result).toBeTruthy(response.detailedError);
+    expect(response.validationResult?.verifiablePresentationStatus!['urn:pic:status'].status).toEqual('valid');
+
+    vc = await createVc(siop, entry(94567));
+    response = await check(entry(94567), vc);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.credentialRevoked);
+    expect(response.claimPath).toEqual('$.vc.credentialStatus.statusListIndex');
+
+    // Out of range
+    vc = await createVc(siop, entry(16 * 1024 * 8));
+    response = await check(entry(16 * 1024 * 8), vc);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidStatusList);
+
+    // Status list decompressing beyond the maximum size
+    const encodedList = base64url.encode(gzipSync(Buffer.alloc(VerifiableCredentialStatusList.MAX_LIST_SIZE_IN_BYTES + 1)));
+    setup.fetchMock.get(statusListUrl, await createStatusList(siop, 'StatusList2021', 'revocation', encodedList), { overwriteRoutes: true });
+    response = await check(entry(6), vc);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidStatusList);
+
+    // Status list from another issuer
+    setup.fetchMock.get(statusListUrl, await createStatusList(siop, 'StatusList2021', 'revocation', encodeList([], false), 'did:test:other'), { overwriteRoutes: true });
+    vc = await createVc(siop, entry(6));
+    response = await check(entry(6), vc);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidStatusList);
+
+    // Status list not available
+    setup.fetchMock.get(statusListUrl, 404, { overwriteRoutes: true });
+    response = await check(entry(6), vc);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.statusCheckFailed);
+    expect(response.claimPath).toEqual('$.vc.credentialStatus.statusListCredential');
+  });
+
+  it('should check a BitstringStatusListEntry for suspension', async () => {
+    const [_request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiableCredential, false);
+    const entry = {
+      id: `${statusListUrl}#3`,
+      type: 'BitstringStatusListEntry',
+      statusPurpose: 'suspension',
+      statusListIndex: '3',
+      statusListCredential: statusListUrl
+    };
+    const vc = await createVc(siop, [entry]);
+
+    setup.fetchMock.get(statusListUrl, await createStatusList(siop, 'BitstringStatusList', 'suspension', encodeList([3], true)), { overwriteRoutes: true });
+    let response = await check(entry, vc);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.credentialSuspended);
+
+    // The encoded list must be multibase
+    setup.fetchMock.get(statusListUrl, await createStatusList(siop, 'BitstringStatusList', 'suspension', encodeList([3], false)), { overwriteRoutes: true });
+    response = await check(entry, vc);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidStatusList);
+
+    // The status purpose must match
+    setup.fetchMock.get(statusListUrl, await createStatusList(siop, 'BitstringStatusList', 'revocation', encodeList([], true)), { overwriteRoutes: true });
+    response = await check(entry, vc);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.invalidStatusList);
+  });
+
+  it('should reject a tampered status list in diagnostic mode', async () => {
+    const [_request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.verifiableCredential, false);
+    const entry = {
+      id: `${statusListUrl}#6`,
+      type: 'StatusList2021Entry',
+      statusPurpose: 'revocation',
+      statusListIndex: '6',
+      statusListCredential: statusListUrl
+    };
+    const vc = await createVc(siop, entry);
+    setup.fetchMock.get(statusListUrl, `${await createStatusList(siop, 'StatusList2021', 'revocation', encodeList([], false))}a`, { overwriteRoutes: true });
+    for (const diagnosticMode of [false, true]) {
+      const response = await check(entry, vc, diagnosticMode);
+      expect(response.result).toBeFalsy();
+      expect(response.code).toEqual(ValidationErrorCode.invalidStatusList);
+    }
+  });
+
+  it('should check the status lists of the presented credentials', async () => {
+    const [_request, _options, siop] = await IssuanceHelpers.createRequest(setup, TokenType.siopPresentationAttestation, false);
+    const vc = await createVc(siop, {
+      id: `${statusListUrl}#1`,
+      type: 'StatusList2021Entry',
+      statusPurpose: 'revocation',
+      statusListIndex: '1',
+      statusListCredential: statusListUrl
+    });
+    const vp = await IssuanceHelpers.createVp(setup, [vc], siop.didJwkPrivate);
+    const request = await IssuanceHelpers.createSiopRequest(setup, siop.didJwkPrivate, undefined, '', { presentations: { DrivingLicense: vp.rawToken } });
+    const validator = new ValidatorBuilder(setup.crypto)
+      .useAudienceUrl(setup.AUDIENCE)
+      .useTrustedIssuersForVerifiableCredentials({ DrivingLicense: [setup.defaultIssuerDid] })
+      .enableFeatureVerifiedCredentialsStatusCheck(true)
+      .build();
+
+    setup.fetchMock.get(statusListUrl, await createStatusList(siop, 'StatusList2021', 'revocation', encodeList([2], false)), { overwriteRoutes: true });
+    let response = await validator.validate(request);
+    expect(response.result).toBeTruthy(response.detailedError);
+    expect(response.validationResult?.verifiablePresentationStatus!['urn:pic:status'].passed).toBeTruthy();
+
+    setup.fetchMock.get(statusListUrl, await createStatusList(siop, 'StatusList2021', 'revocation', encodeList([1], false)), { overwriteRoutes: true });
+    response = await validator.validate(request);
+    expect(response.result).toBeFalsy();
+    expect(response.code).toEqual(ValidationErrorCode.credentialRevoked);
+    expect(response.tokenType).toEqual(TokenType.verifiableCredential);
+  });
+});
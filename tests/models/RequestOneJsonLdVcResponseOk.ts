@@ -56,7 +56,7 @@ export default class RequestOneJsonLdVcResponseOk implements ITestModel {
       descriptor_map: [
         {
           id: 'IdentityCard',
-          format: 'jwt',
+          format: 'ldp_vc',
           encoding: 'base64Url',
           path: '$.presentation_submission.attestations.presentations.IdentityCard.verifiableCredential'
         }